@@ -0,0 +1,39 @@
+"use client"
+
+import { BridgeStepper } from "@/components/bridge-stepper"
+import { Icon } from "@/components/icon"
+import { bridgeTransferPath } from "@/helpers/bridge-lifecycle"
+import { useBridgeTransfer } from "@/hooks/useBridgeTransfer"
+import { Activity } from "@/stores/activity"
+import Link from "next/link"
+import s from "./activity.module.scss"
+
+// Lifecycle of a confirmed bridge transaction, until Hyperion settles it
+export const BridgeProgress = ({ activity }: { activity: Activity }) => {
+  const { transfer, lifecycle, isLoading } = useBridgeTransfer({
+    txHash: activity.hash
+  })
+
+  if (!transfer || !lifecycle) {
+    return (
+      <p className={s.attempts}>
+        {isLoading
+          ? "Looking for the transfer..."
+          : "Waiting for Hyperion to index the transfer..."}
+      </p>
+    )
+  }
+
+  return (
+    <>
+      <BridgeStepper lifecycle={lifecycle} className={s.bridge} />
+      <div className={s.meta}>
+        <span>Transfer #{transfer.id}</span>
+        <Link href={bridgeTransferPath(transfer)}>
+          Details
+          <Icon icon="hugeicons:arrow-right-01" />
+        </Link>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,248 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { createPortal } from "react-dom"
+import { useAccount } from "wagmi"
+import { Badge } from "@/components/badge"
+import { Button } from "@/components/button"
+import { Icon } from "@/components/icon"
+import { getChainConfig } from "@/config/chain-config"
+import { useActivityTracking } from "@/hooks/useActivityTracking"
+import { useReplaceTransaction } from "@/hooks/useReplaceTransaction"
+import { formatRelativeDate } from "@/lib/utils/date"
+import {
+  Activity as ActivityEntry,
+  ActivityAttempt,
+  ActivityStatus,
+  selectAccountActivities,
+  useActivityStore
+} from "@/stores/activity"
+import { Variants } from "@/types/feedback"
+import s from "./activity.module.scss"
+import { BridgeProgress } from "./bridge-progress"
+
+const STATUS_BADGES: Record<ActivityStatus, { name: string; status: Variants }> =
+  {
+    pending: { name: "Pending", status: "primary" },
+    confirmed: { name: "Confirmed", status: "success" },
+    failed: { name: "Failed", status: "danger" },
+    dropped: { name: "Dropped", status: "danger" },
+    replaced: { name: "Replaced", status: "warning" },
+    cancelled: { name: "Cancelled", status: "secondary" },
+    timeout: { name: "Unconfirmed", status: "warning" }
+  }
+
+const ATTEMPT_NAMES: Record<ActivityAttempt["kind"], string> = {
+  original: "original transaction",
+  "speed-up": "speed-up",
+  cancel: "cancellation"
+}
+
+// Pending transactions can be replaced, as well as the ones that took too
+// long to confirm and may still be in the mempool
+const isReplaceable = (activity: ActivityEntry) =>
+  activity.status === "pending" || activity.status === "timeout"
+
+// Tells how many replacements were sent and which transaction was mined
+const describeAttempts = (activity: ActivityEntry) => {
+  if (!activity.attempts) return null
+
+  const sent = activity.attempts.length - 1
+  const summary = `${sent} replacement${sent > 1 ? "s" : ""} sent`
+  const mined = activity.attempts.find(
+    (attempt) => attempt.hash === activity.hash
+  )
+
+  return activity.status === "confirmed" || activity.status === "cancelled"
+    ? `${summary}, the ${mined ? ATTEMPT_NAMES[mined.kind] : "last one"} was mined`
+    : summary
+}
+
+// Bridge transactions go on once confirmed, until Hyperion relays them
+const isBridgeTransfer = (activity: ActivityEntry) =>
+  (activity.type === "bridge-out" || activity.type === "bridge-in") &&
+  activity.status === "confirmed"
+
+export const Activity = () => {
+  const { address } = useAccount()
+  const [open, setOpen] = useState(false)
+  const allActivities = useActivityStore((state) => state.activities)
+  const clearActivities = useActivityStore((state) => state.clearActivities)
+  const { speedUp, cancel, replacing, error, failedHash } =
+    useReplaceTransaction()
+  const activities = selectAccountActivities(allActivities, address)
+  const pendingCount = activities.filter(
+    (activity) => activity.status === "pending"
+  ).length
+
+  useActivityTracking()
+
+  useEffect(() => {
+    if (!open) return
+
+    const handleEscKey = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setOpen(false)
+    }
+
+    document.addEventListener("keydown", handleEscKey)
+    return () => document.removeEventListener("keydown", handleEscKey)
+  }, [open])
+
+  if (!address) return null
+
+  const modalRoot =
+    typeof window !== "undefined" ? document.getElementById("modal-root") : null
+
+  return (
+    <>
+      <span className={s.trigger}>
+        <Button
+          variant="secondary"
+          icon="hugeicons:clock-04"
+          border
+          onClick={() => setOpen(true)}
+          title="Activity"
+        />
+        {pendingCount > 0 && <span className={s.count}>{pendingCount}</span>}
+      </span>
+
+      {open &&
+        modalRoot &&
+        createPortal(
+          <div
+            className={s.overlay}
+            onClick={(e) => {
+              if (e.target === e.currentTarget) setOpen(false)
+            }}
+          >
+            <aside
+              className={s.drawer}
+              role="dialog"
+              aria-modal="true"
+              aria-labelledby="activity-title"
+            >
+              <div className={s.top}>
+                <h2 id="activity-title">Activity</h2>
+                {activities.length > 0 && (
+                  <Button
+                    variant="secondary"
+                    size="xsmall"
+                    border
+                    onClick={() => clearActivities(address)}
+                  >
+                    Clear
+                  </Button>
+                )}
+                <Button
+                  icon="mdi:close"
+                  variant="secondary"
+                  size="xsmall"
+                  border
+                  onClick={() => setOpen(false)}
+                />
+              </div>
+
+              {activities.length === 0 ? (
+                <p className={s.empty}>
+                  The transactions you send from the portal will show up here.
+                </p>
+              ) : (
+                <ul className={s.list}>
+                  {activities.map((activity) => {
+                    const badge = STATUS_BADGES[activity.status]
+                    const chainName =
+                      getChainConfig(activity.chainId)?.name ??
+                      `Chain ${activity.chainId}`
+                    const params = Object.entries(activity.params)
+                    const attempts = describeAttempts(activity)
+                    const isReplacing =
+                      replacing?.activity.hash === activity.hash
+
+                    return (
+                      <li key={activity.hash} className={s.item}>
+                        <div className={s.head}>
+                          <strong>{activity.title}</strong>
+                          <Badge status={badge.status}>{badge.name}</Badge>
+                        </div>
+                        {params.length > 0 && (
+                          <dl className={s.params}>
+                            {params.map(([name, value]) => (
+                              <div key={name}>
+                                <dt>{name}</dt>
+                                <dd>{value}</dd>
+                              </div>
+                            ))}
+                          </dl>
+                        )}
+                        {activity.error && (
+                          <p className={s.error}>{activity.error}</p>
+                        )}
+                        {attempts && <p className={s.attempts}>{attempts}</p>}
+                        {isBridgeTransfer(activity) && (
+                          <BridgeProgress activity={activity} />
+                        )}
+                        {isReplaceable(activity) && (
+                          <div className={s.actions}>
+                            <Button
+                              variant="secondary"
+                              size="xsmall"
+                              border
+                              iconLeft={
+                                isReplacing && replacing?.kind === "speed-up"
+                                  ? "svg-spinners:6-dots-rotate"
+                                  : "hugeicons:rocket-01"
+                              }
+                              disabled={!!replacing}
+                              onClick={() => speedUp(activity).catch(() => {})}
+                            >
+                              Speed up
+                            </Button>
+                            <Button
+                              variant="secondary"
+                              size="xsmall"
+                              border
+                              iconLeft={
+                                isReplacing && replacing?.kind === "cancel"
+                                  ? "svg-spinners:6-dots-rotate"
+                                  : "hugeicons:cancel-01"
+                              }
+                              disabled={!!replacing}
+                              onClick={() => cancel(activity).catch(() => {})}
+                            >
+                              Cancel
+                            </Button>
+                          </div>
+                        )}
+                        {error && failedHash === activity.hash && (
+                          <p className={s.error}>{error.message}</p>
+                        )}
+                        <div className={s.meta}>
+                          <span>
+                            {chainName} ·{" "}
+                            {formatRelativeDate(
+                              new Date(activity.createdAt).toISOString()
+                            )}
+                          </span>
+                          {activity.explorerUrl && (
+                            <a
+                              href={activity.explorerUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                            >
+                              Explorer
+                              <Icon icon="hugeicons:link-square-02" />
+                            </a>
+                          )}
+                        </div>
+                      </li>
+                    )
+                  })}
+                </ul>
+              )}
+            </aside>
+          </div>,
+          modalRoot
+        )}
+    </>
+  )
+}
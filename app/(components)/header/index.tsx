@@ -5,6 +5,7 @@ import { Logotype } from "@/components/logotype"
 import { Button } from "@/components/button"
 import { SettingsModal } from "@/components/settings-modal"
 import routes from "@/config/routes"
+import { Activity } from "../activity"
 import { Chains } from "../chains"
 import { Nav } from "../nav"
 import { Wallet } from "../wallet"
@@ -37,6 +38,7 @@ export const Header = () => {
             onClick={handleSettingsOpen}
             title="Settings"
           />
+          <Activity />
           <Chains />
           <Wallet />
         </div>
@@ -47,6 +47,11 @@ export const Nav = () => {
       icon: "hugeicons:coins-01",
       label: "Token Deployer",
       href: routes.tokenDeployer
+    },
+    {
+      icon: "hugeicons:checkmark-circle-02",
+      label: "Approvals",
+      href: routes.approvals
     }
   ]
 
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server"
+import { proxyRpc } from "@/helpers/rpc-proxy"
+import { getErrorMessage } from "@/utils/string"
+
+// Proxies the portal JSON-RPC traffic to the Helios node, see helpers/rpc-proxy
+export async function POST(req: Request) {
+  let payload: unknown
+  try {
+    payload = await req.json()
+  } catch {
+    return NextResponse.json(
+      { jsonrpc: "2.0", id: null, error: { code: -32700, message: "parse error" } },
+      { status: 400 }
+    )
+  }
+
+  if (Array.isArray(payload) && payload.length === 0) {
+    return NextResponse.json(
+      { jsonrpc: "2.0", id: null, error: { code: -32600, message: "empty batch" } },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const response = await proxyRpc(payload as Parameters<typeof proxyRpc>[0])
+    return NextResponse.json(response, {
+      headers: { "Cache-Control": "no-store" }
+    })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        jsonrpc: "2.0",
+        id: null,
+        error: { code: -32603, message: getErrorMessage(error) }
+      },
+      { status: 502 }
+    )
+  }
+}
@@ -0,0 +1,102 @@
+"use client"
+
+import { Button } from "@/components/button"
+import { Input } from "@/components/input/input"
+import { Modal } from "@/components/modal"
+import { TransactionStatus } from "@/components/transaction-status"
+import { isUnlimitedAllowance, TokenAllowance } from "@/helpers/approvals"
+import { TransactionStatus as Status } from "@/types/transaction-status"
+import { getErrorMessage } from "@/utils/string"
+import { ChangeEvent, useState } from "react"
+import { toast } from "sonner"
+import { formatUnits, maxUint256, parseUnits } from "viem"
+import s from "./allowances.module.scss"
+
+interface ModalAdjustProps {
+  allowance: TokenAllowance
+  open: boolean
+  setOpen: (open: boolean) => void
+  adjust: (allowance: TokenAllowance, amount: bigint) => Promise<unknown>
+  isLoading: boolean
+  status: Status
+}
+
+export const ModalAdjust = ({
+  allowance,
+  open,
+  setOpen,
+  adjust,
+  isLoading,
+  status
+}: ModalAdjustProps) => {
+  const [amount, setAmount] = useState(
+    isUnlimitedAllowance(allowance.amount)
+      ? "0"
+      : formatUnits(allowance.amount, allowance.decimals)
+  )
+
+  const handleAmountChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const normalizedValue = e.target.value.replace(",", ".")
+    if (!/^[0-9.]*$/.test(normalizedValue)) return
+
+    setAmount(normalizedValue.replace(/^0+(?=\d)/, "") || "0")
+  }
+
+  const handleAdjust = async (value: bigint) => {
+    try {
+      await adjust(allowance, value)
+      toast.success(`${allowance.symbol} allowance updated`)
+      setOpen(false)
+    } catch (err: any) {
+      toast.error(getErrorMessage(err) || "Error during approval")
+    }
+  }
+
+  let parsedAmount: bigint | null = null
+  try {
+    parsedAmount = parseUnits(amount, allowance.decimals)
+  } catch {
+    parsedAmount = null
+  }
+
+  return (
+    <Modal
+      title={`Adjust ${allowance.symbol} allowance`}
+      onClose={() => setOpen(false)}
+      open={open}
+      className={s.modal}
+      responsiveBottom
+    >
+      <p className={s.description}>
+        Amount of {allowance.symbol} the Hyperion bridge can move on{" "}
+        {allowance.chainName}.
+      </p>
+      <Input
+        label="Allowance"
+        type="text"
+        value={amount}
+        onChange={handleAmountChange}
+        error={parsedAmount === null ? "Invalid amount" : undefined}
+      />
+      <div className={s.group}>
+        <Button
+          variant="secondary"
+          border
+          disabled={isLoading}
+          onClick={() => handleAdjust(maxUint256)}
+        >
+          Unlimited
+        </Button>
+        <Button
+          icon={isLoading ? "svg-spinners:6-dots-rotate" : undefined}
+          className={s.confirm}
+          disabled={isLoading || !parsedAmount}
+          onClick={() => parsedAmount && handleAdjust(parsedAmount)}
+        >
+          Set allowance
+        </Button>
+      </div>
+      <TransactionStatus title="Approval feedback" status={status} />
+    </Modal>
+  )
+}
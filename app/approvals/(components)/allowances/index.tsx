@@ -0,0 +1,169 @@
+"use client"
+
+import { Button } from "@/components/button"
+import { Card } from "@/components/card"
+import { Heading } from "@/components/heading"
+import { Message } from "@/components/message"
+import { Table, TableCell, TableRow } from "@/components/table"
+import { TransactionStatus } from "@/components/transaction-status"
+import { isUnlimitedAllowance, TokenAllowance } from "@/helpers/approvals"
+import { useApprovals } from "@/hooks/useApprovals"
+import { truncateAddress } from "@/lib/utils"
+import { formatNumber } from "@/lib/utils/number"
+import { ApprovalMode, useAppStore } from "@/stores/app"
+import { getErrorMessage } from "@/utils/string"
+import { useState } from "react"
+import { toast } from "sonner"
+import { formatUnits } from "viem"
+import { useAccount } from "wagmi"
+import s from "./allowances.module.scss"
+import { ModalAdjust } from "./adjust"
+
+const APPROVAL_MODES: { mode: ApprovalMode; label: string }[] = [
+  { mode: "exact", label: "Exact amount" },
+  { mode: "unlimited", label: "Unlimited" }
+]
+
+// Identifies an allowance between refetches
+const allowanceKey = (allowance: TokenAllowance) =>
+  `${allowance.chainId}:${allowance.token}:${allowance.spender}`
+
+export const Allowances = () => {
+  const { isConnected } = useAccount()
+  const { approvalMode, setApprovalMode } = useAppStore()
+  const { allowances, isLoading, revoke, adjust, pending, status } =
+    useApprovals()
+  const [editing, setEditing] = useState<TokenAllowance | null>(null)
+
+  const handleRevoke = async (allowance: TokenAllowance) => {
+    try {
+      await revoke(allowance)
+      toast.success(`${allowance.symbol} allowance revoked`)
+    } catch (err: any) {
+      toast.error(getErrorMessage(err) || "Error during revocation")
+    }
+  }
+
+  return (
+    <Card auto>
+      <Heading
+        icon="hugeicons:checkmark-circle-02"
+        title="Token Approvals"
+        description="Allowances granted to the bridge contracts of every network"
+      >
+        <div className={s.modes}>
+          <span>Bridge approvals:</span>
+          {APPROVAL_MODES.map(({ mode, label }) => (
+            <Button
+              key={mode}
+              size="xsmall"
+              variant={approvalMode === mode ? "primary" : "secondary"}
+              border={approvalMode !== mode}
+              onClick={() => setApprovalMode(mode)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+      </Heading>
+      {approvalMode === "unlimited" && (
+        <Message
+          icon="hugeicons:alert-02"
+          variant="warning"
+          title="Unlimited approvals"
+          className={s.message}
+        >
+          The bridge will be allowed to move all your tokens of each approved
+          asset. Revoke the allowances you no longer need below.
+        </Message>
+      )}
+      <Table>
+        <thead>
+          <TableRow>
+            <TableCell>Token</TableCell>
+            <TableCell>Network</TableCell>
+            <TableCell>Spender</TableCell>
+            <TableCell>Allowance</TableCell>
+            <TableCell align="right">Actions</TableCell>
+          </TableRow>
+        </thead>
+        <tbody>
+          {allowances.map((allowance) => {
+            const isPending =
+              !!pending && allowanceKey(pending) === allowanceKey(allowance)
+
+            return (
+              <TableRow key={allowanceKey(allowance)} className={s.row}>
+                <TableCell>
+                  <strong>{allowance.symbol}</strong>
+                  <small>{truncateAddress(allowance.token)}</small>
+                </TableCell>
+                <TableCell>{allowance.chainName}</TableCell>
+                <TableCell>
+                  Hyperion bridge
+                  <small>{truncateAddress(allowance.spender)}</small>
+                </TableCell>
+                <TableCell>
+                  {isUnlimitedAllowance(allowance.amount)
+                    ? "Unlimited"
+                    : formatNumber(
+                        parseFloat(
+                          formatUnits(allowance.amount, allowance.decimals)
+                        )
+                      )}
+                </TableCell>
+                <TableCell align="right">
+                  <div className={s.actions}>
+                    <Button
+                      size="xsmall"
+                      variant="secondary"
+                      border
+                      disabled={!!pending}
+                      onClick={() => setEditing(allowance)}
+                    >
+                      Adjust
+                    </Button>
+                    <Button
+                      size="xsmall"
+                      variant="danger"
+                      icon={
+                        isPending ? "svg-spinners:6-dots-rotate" : undefined
+                      }
+                      disabled={!!pending}
+                      onClick={() => handleRevoke(allowance)}
+                    >
+                      Revoke
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            )
+          })}
+        </tbody>
+      </Table>
+      {!isConnected && (
+        <Message title="Approvals informations" variant="primary">
+          Connect your wallet to see your token approvals.
+        </Message>
+      )}
+      {isConnected && !isLoading && allowances.length === 0 && (
+        <Message title="Approvals informations" variant="primary">
+          No allowance granted to the bridge.
+        </Message>
+      )}
+      {!editing && (
+        <TransactionStatus title="Approval feedback" status={status} />
+      )}
+      {editing && (
+        <ModalAdjust
+          allowance={editing}
+          open={!!editing}
+          setOpen={(open) => !open && setEditing(null)}
+          adjust={adjust}
+          isLoading={!!pending}
+          status={status}
+        />
+      )}
+    </Card>
+  )
+}
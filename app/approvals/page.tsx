@@ -0,0 +1,10 @@
+import { Allowances } from "./(components)/allowances"
+import s from "./page.module.scss"
+
+export default function Page() {
+  return (
+    <div className={s.approvals}>
+      <Allowances />
+    </div>
+  )
+}
@@ -1,22 +1,51 @@
 "use client"
 
+import { Button } from "@/components/button"
 import { Card } from "@/components/card"
 import { Heading } from "@/components/heading"
+import routes from "@/config/routes"
 import s from "./recents.module.scss"
 import { Transactions } from "@/components/transactions"
 import { useBridge } from "@/hooks/useBridge"
 // import { useUserStore } from "@/stores/user"
 
 export const AccountRecents = () => {
-  const { lastAccountBridgeTxs } = useBridge()
+  const {
+    lastAccountBridgeTxs,
+    hasMoreAccountBridgeTxs,
+    loadMoreAccountBridgeTxs,
+    isLoadingMoreAccountBridgeTxs
+  } = useBridge()
 
   return (
     <Card className={s.recents}>
       <Heading
         icon="hugeicons:blockchain-05"
         title="Your recent bridge transactions"
-      ></Heading>
+      >
+        <Button
+          variant="secondary"
+          size="xsmall"
+          border
+          iconRight="hugeicons:arrow-right-01"
+          href={routes.bridgeHistory}
+        >
+          Full history
+        </Button>
+      </Heading>
       <Transactions transactions={lastAccountBridgeTxs} />
+      {hasMoreAccountBridgeTxs && (
+        <Button
+          variant="secondary"
+          size="small"
+          border
+          className={s.more}
+          disabled={isLoadingMoreAccountBridgeTxs}
+          onClick={() => loadMoreAccountBridgeTxs()}
+        >
+          {isLoadingMoreAccountBridgeTxs ? "Loading..." : "Load more"}
+        </Button>
+      )}
     </Card>
   )
 }
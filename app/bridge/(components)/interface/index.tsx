@@ -19,10 +19,10 @@ import { useAccount, useChainId, useSwitchChain } from "wagmi"
 import { useTokenInfo } from "@/hooks/useTokenInfo"
 import { HELIOS_NETWORK_ID } from "@/config/app"
 import { useQuery } from "@tanstack/react-query"
-import { toHex } from "viem"
-import { getTokensByChainIdAndPageAndSize } from "@/helpers/rpc-calls"
+import { fetchAllPages, tokensByChainPages } from "@/helpers/paginate"
 import { useTokenRegistry } from "@/hooks/useTokenRegistry"
 import { Message } from "@/components/message"
+import { TransactionStatus } from "@/components/transaction-status"
 import { useChains } from "@/hooks/useChains"
 import { ModalWrapper } from "../wrapper/modal"
 import { useWrapper } from "@/hooks/useWrapper"
@@ -30,6 +30,18 @@ import { getChainConfig } from "@/config/chain-config"
 import { getErrorMessage } from "@/utils/string"
 import { useWhitelistedAssets } from "@/hooks/useWhitelistedAssets"
 import { TokenSearchModal } from "./token-search-modal"
+import { useBridgeFees } from "@/hooks/useBridgeFees"
+import { BRIDGE_FEE_TIERS } from "@/helpers/bridge-fees"
+import { BridgeFeeTier } from "@/types/bridge-fee"
+import { formatUnits } from "viem"
+import { useDestinationAddress } from "@/hooks/useDestinationAddress"
+import { AddressBook } from "@/components/address-book"
+
+const FEE_TIER_LABELS: Record<BridgeFeeTier, string> = {
+  low: "Low",
+  standard: "Standard",
+  priority: "Priority"
+}
 
 type BridgeForm = {
   asset: string | null
@@ -47,7 +59,7 @@ export const Interface = () => {
   const {
     sendToChain,
     sendToHelios,
-    feedback: bridgeFeedback
+    status: bridgeStatus
   } = useBridge()
   const { switchChain } = useSwitchChain()
   const { address } = useAccount()
@@ -56,6 +68,8 @@ export const Interface = () => {
   const [openWrapModal, setOpenWrapModal] = useState(false)
   const [openUnwrapModal, setOpenUnwrapModal] = useState(false)
   const [openTokenSearch, setOpenTokenSearch] = useState(false)
+  const [feeTier, setFeeTier] = useState<BridgeFeeTier>("standard")
+  const [openAddressBook, setOpenAddressBook] = useState(false)
   
   const { isWrappable } = useWrapper({
     enableNativeBalance: openWrapModal,
@@ -76,8 +90,7 @@ export const Interface = () => {
 
   const qTokensByChain = useQuery({
     queryKey: ["tokensByChain", form.to?.chainId],
-    queryFn: () =>
-      getTokensByChainIdAndPageAndSize(form.to!.chainId, toHex(1), toHex(5)),
+    queryFn: () => fetchAllPages(tokensByChainPages(form.to!.chainId)),
     enabled: !!form.to,
     staleTime: 30000, // 30 seconds
     refetchOnWindowFocus: false
@@ -90,10 +103,8 @@ export const Interface = () => {
       form.from?.chainId
     ],
     queryFn: async () => {
-      // Limit to first 3 tokens to reduce load
-      const tokensToEnrich = qTokensByChain.data!.slice(0, 3)
       const results = await Promise.all(
-        tokensToEnrich.map((token) =>
+        qTokensByChain.data!.map((token) =>
           getTokenByAddress(token.metadata.contract_address, form.from!.chainId)
         )
       )
@@ -106,11 +117,25 @@ export const Interface = () => {
   })
 
   const tokensByChain = qEnrichedTokensByChain.data || []
-  // const estimatedFees = (parseFloat(form.amount) / 100).toString()
-  const estimatedFees = "0.5"
   const isDeposit = heliosChainIndex
     ? form.to?.chainId === chains[heliosChainIndex].chainId
     : false
+  const {
+    quotes: feeQuotes,
+    isLoading: feeQuotesLoading,
+    error: feeQuotesError
+  } = useBridgeFees(
+    isDeposit ? null : form.to,
+    form.asset && tokenInfo.data
+      ? {
+          address: form.asset,
+          symbol: tokenInfo.data.symbol,
+          decimals: tokenInfo.data.decimals
+        }
+      : null
+  )
+  const selectedFee = feeQuotes?.tiers[feeTier]
+  const destination = useDestinationAddress(form.address, form.to)
 
   const displayedChains =
     chainType === "to"
@@ -248,8 +273,8 @@ export const Interface = () => {
       return
     }
 
-    if (!form.address || !/^0x[a-fA-F0-9]{40}$/.test(form.address)) {
-      toast.error("Invalid recipient address.")
+    if (!destination.address) {
+      toast.error(destination.error || "Invalid recipient address.")
       return
     }
 
@@ -262,19 +287,19 @@ export const Interface = () => {
       if (form.to.chainId === HELIOS_NETWORK_ID) {
         await sendToHelios(
           form.from.chainId,
-          form.address,
+          destination.address,
           form.asset,
           form.amount,
-          estimatedFees,
           decimals
         )
       } else {
+        if (!selectedFee) throw new Error("Bridge fee not quoted yet.")
         await sendToChain(
           form.to.chainId,
-          form.address,
+          destination.address,
           form.asset,
           form.amount,
-          estimatedFees,
+          selectedFee,
           decimals
         )
       }
@@ -316,6 +341,11 @@ export const Interface = () => {
   }, [chains, heliosChainIndex, chainId, lightResetForm])
 
   const amountNb = parseFloat(form.amount)
+  // The bridge fee is taken from the bridged token, on top of the amount
+  const feeNb =
+    !isDeposit && selectedFee
+      ? parseFloat(formatUnits(selectedFee.amount, selectedFee.decimals))
+      : 0
   const heliosInOrOut =
     form.from?.chainId === HELIOS_NETWORK_ID ||
     form.to?.chainId === HELIOS_NETWORK_ID
@@ -324,11 +354,12 @@ export const Interface = () => {
     form.inProgress ||
     !tokenInfo.data ||
     amountNb === 0 ||
-    (tokenInfo.data && amountNb > tokenInfo.data.readableBalance) ||
-    !form.address ||
+    (tokenInfo.data && amountNb + feeNb > tokenInfo.data.readableBalance) ||
+    !destination.address ||
     form.from?.chainId === form.to?.chainId ||
     !heliosInOrOut ||
-    chainIsPaused
+    chainIsPaused ||
+    (!isDeposit && !selectedFee)
 
   return (
     <>
@@ -626,7 +657,16 @@ export const Interface = () => {
               />
               <label htmlFor="address" className={s.label}>
                 Deposit Address
+                {destination.entry && <small>{destination.entry.label}</small>}
               </label>
+              <Button
+                variant="secondary"
+                className={s.btn}
+                size="xsmall"
+                icon="hugeicons:contact-book"
+                title="Address book"
+                onClick={() => setOpenAddressBook(true)}
+              />
               <Button
                 variant="secondary"
                 className={s.btn}
@@ -640,17 +680,38 @@ export const Interface = () => {
             <div className={s.recapItem}>
               <span>Estimated Fees:</span>
               <strong>
-                {isDeposit ? (
-                  "No Fees"
-                ) : (
-                  <>
-                    {/* <small>~1% =</small> */}
-                    {/* {estimatedFees} {tokenInfo.data?.symbol} */}
-                    {estimatedFees} HLS
-                  </>
-                )}
+                {isDeposit
+                  ? "No Fees"
+                  : selectedFee
+                    ? `${formatNumber(
+                        parseFloat(
+                          formatUnits(selectedFee.amount, selectedFee.decimals)
+                        ),
+                        6
+                      )} ${selectedFee.symbol}`
+                    : feeQuotesLoading
+                      ? "Quoting..."
+                      : "Unavailable"}
               </strong>
             </div>
+            {!isDeposit && feeQuotes && (
+              <div className={clsx(s.recapItem, s.feeTiers)}>
+                <span>Speed:</span>
+                <div className={s.feeTiersOptions}>
+                  {BRIDGE_FEE_TIERS.map((tier) => (
+                    <Button
+                      key={tier}
+                      size="xsmall"
+                      variant={feeTier === tier ? "primary" : "secondary"}
+                      border={feeTier !== tier}
+                      onClick={() => setFeeTier(tier)}
+                    >
+                      {FEE_TIER_LABELS[tier]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
             <div className={s.recapItem}>
               <span>You will receive:</span>
               <strong>
@@ -658,11 +719,75 @@ export const Interface = () => {
               </strong>
             </div>
           </div>
-          {bridgeFeedback && bridgeFeedback.message !== "" && (
-            <Message title="Bridge feedback" variant={bridgeFeedback.status}>
-              {bridgeFeedback.message}
+          {!isDeposit && feeQuotes && feeQuotes.congestion > 1 && (
+            <Message
+              icon="hugeicons:alert-02"
+              variant="warning"
+              title="Destination network congested"
+            >
+              Gas is {formatNumber(feeQuotes.congestion, 1)}x its recent level
+              on {form.to?.name}, the fees are raised to match.
+            </Message>
+          )}
+          {form.address && destination.error && (
+            <Message
+              icon="hugeicons:alert-02"
+              variant="danger"
+              title="Invalid destination"
+            >
+              {destination.error}
+            </Message>
+          )}
+          {destination.unchecked && (
+            <Message
+              icon="hugeicons:alert-02"
+              variant="warning"
+              title="Destination not verified"
+            >
+              {form.to?.name} addresses cannot be checked here, make sure the
+              destination is right before sending.
+            </Message>
+          )}
+          {destination.isContract && (
+            <Message
+              icon="hugeicons:alert-02"
+              variant="warning"
+              title="Destination is a contract"
+            >
+              The destination holds code on {form.to?.name}. Make sure this
+              contract can move the tokens it receives, or they may be lost.
+            </Message>
+          )}
+          {destination.isOtherAccount && !destination.entry && (
+            <Message
+              icon="hugeicons:alert-02"
+              variant="warning"
+              title="Sending to another account"
+            >
+              The destination is not your connected account. Check it or save
+              it to your address book.{" "}
+              <Button
+                variant="secondary"
+                size="xsmall"
+                border
+                icon="hugeicons:user-add-01"
+                onClick={() => setOpenAddressBook(true)}
+              >
+                Save recipient
+              </Button>
             </Message>
           )}
+          {!isDeposit && feeQuotesError && (
+            <Message
+              icon="hugeicons:alert-02"
+              variant="danger"
+              title="Bridge fee unavailable"
+            >
+              {getErrorMessage(feeQuotesError) ||
+                "The bridge fee could not be quoted."}
+            </Message>
+          )}
+          <TransactionStatus title="Bridge feedback" status={bridgeStatus} />
           <Button
             disabled={isDisabled}
             className={s.deposit}
@@ -770,6 +895,15 @@ export const Interface = () => {
           })
         }}
       />
+      {openAddressBook && (
+        <AddressBook
+          open={openAddressBook}
+          setOpen={setOpenAddressBook}
+          chainType={form.to?.chainType}
+          address={destination.address ?? form.address}
+          onSelect={(entry) => setForm({ ...form, address: entry.address })}
+        />
+      )}
     </>
   )
 }
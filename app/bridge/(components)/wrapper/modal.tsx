@@ -3,10 +3,10 @@
 import { Button } from "@/components/button"
 import { Input } from "@/components/input/input"
 import { Modal } from "@/components/modal"
-import { Message } from "@/components/message"
 import { ChangeEvent, useState } from "react"
 import { toast } from "sonner"
 import { useWrapper } from "@/hooks/useWrapper"
+import { TransactionStatus } from "@/components/transaction-status"
 import { getChainConfig } from "@/config/chain-config"
 import { useChainId } from "wagmi"
 import s from "./modal.module.scss"
@@ -28,7 +28,7 @@ export const ModalWrapper = ({
   setTokenChange
 }: ModalWrapperProps) => {
   const [amount, setAmount] = useState("0")
-  const { wrap, unwrap, feedback, resetFeedback, balance, wrappedBalance } = useWrapper({
+  const { wrap, unwrap, status, resetFeedback, balance, wrappedBalance } = useWrapper({
     enableNativeBalance: type === "wrap",
     enableWrappedBalance: type === "unwrap"
   })
@@ -109,14 +109,10 @@ export const ModalWrapper = ({
         </Button>
       </div>
 
-      {feedback && feedback.message !== "" && (
-        <Message
-          title={`${type === "wrap" ? "Wrap" : "Unwrap"} feedback`}
-          variant={feedback.status}
-        >
-          {feedback.message}
-        </Message>
-      )}
+      <TransactionStatus
+        title={`${type === "wrap" ? "Wrap" : "Unwrap"} feedback`}
+        status={status}
+      />
     </Modal>
   )
 }
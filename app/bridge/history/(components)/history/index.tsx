@@ -0,0 +1,298 @@
+"use client"
+
+import { Badge } from "@/components/badge"
+import { Button } from "@/components/button"
+import { Card } from "@/components/card"
+import { Heading } from "@/components/heading"
+import { Input } from "@/components/input"
+import { Select } from "@/components/input/select"
+import { Message } from "@/components/message"
+import { Table, TableCell, TableRow } from "@/components/table"
+import { HELIOS_NETWORK_ID } from "@/config/app"
+import routes from "@/config/routes"
+import {
+  BridgeHistoryEntry,
+  BridgeHistoryFilters,
+  DEFAULT_BRIDGE_HISTORY_FILTERS,
+  getTransferAmount
+} from "@/helpers/bridge-history"
+import {
+  bridgeTransferKey,
+  bridgeTransferPath,
+  getTransferHashes
+} from "@/helpers/bridge-lifecycle"
+import { useBridgeHistory } from "@/hooks/useBridgeHistory"
+import { useChains } from "@/hooks/useChains"
+import { formatDate } from "@/lib/utils/date"
+import { formatNumber } from "@/lib/utils/number"
+import { BridgeTransferState } from "@/types/bridge-transfer"
+import { Variants } from "@/types/feedback"
+import { getErrorMessage } from "@/utils/string"
+import { useEffect, useRef, useState } from "react"
+import { formatUnits } from "viem"
+import { useAccount } from "wagmi"
+import s from "./history.module.scss"
+
+type Direction = BridgeHistoryFilters["direction"]
+type Status = BridgeHistoryFilters["status"]
+
+const DIRECTIONS: { value: Direction; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "IN", label: "Deposits" },
+  { value: "OUT", label: "Withdrawals" }
+]
+
+const STATUSES: { value: Status; label: string }[] = [
+  { value: "all", label: "All statuses" },
+  { value: "pending", label: "In progress" },
+  { value: "completed", label: "Bridged" },
+  { value: "failed", label: "Failed" }
+]
+
+const STATE_BADGES: Record<BridgeTransferState, Variants> = {
+  pending: "primary",
+  completed: "success",
+  failed: "danger"
+}
+
+const formatAmount = ({ transfer, token }: BridgeHistoryEntry) => {
+  const amount = getTransferAmount(transfer)
+  if (!token) return amount
+  const value = parseFloat(formatUnits(BigInt(amount || "0"), token.decimals))
+  return `${formatNumber(value)} ${token.symbol}`
+}
+
+export const History = () => {
+  const { isConnected } = useAccount()
+  const { chains } = useChains()
+  const [filters, setFilters] = useState(DEFAULT_BRIDGE_HISTORY_FILTERS)
+  const {
+    entries,
+    tokens,
+    loadedCount,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+    isLoading,
+    error,
+    exportHistory,
+    isExporting,
+    exportError
+  } = useBridgeHistory(filters)
+  const loaderRef = useRef<HTMLDivElement | null>(null)
+
+  const setFilter = <K extends keyof BridgeHistoryFilters>(
+    key: K,
+    value: BridgeHistoryFilters[K]
+  ) => setFilters((current) => ({ ...current, [key]: value }))
+
+  // Loads the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const current = loaderRef.current
+    if (!current || !hasNextPage) return
+
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting && !isFetchingNextPage) fetchNextPage()
+    })
+    observer.observe(current)
+
+    return () => observer.disconnect()
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage])
+
+  const chainOptions = [
+    { value: "", label: "All networks" },
+    ...chains
+      .filter((chain) => chain.chainId !== HELIOS_NETWORK_ID)
+      .map((chain) => ({ value: String(chain.chainId), label: chain.name }))
+  ]
+  const tokenOptions = [
+    { value: "", label: "All tokens" },
+    ...tokens.map((token) => ({ value: token.address, label: token.symbol }))
+  ]
+
+  return (
+    <Card auto>
+      <Heading
+        icon="hugeicons:clock-04"
+        title="Bridge History"
+        description="Your transfers between Helios and other networks"
+      >
+        <div className={s.exports}>
+          {(["csv", "json"] as const).map((format) => (
+            <Button
+              key={format}
+              size="xsmall"
+              variant="secondary"
+              border
+              icon="hugeicons:download-04"
+              disabled={!isConnected || isExporting}
+              onClick={() => exportHistory(format)}
+            >
+              {format.toUpperCase()}
+            </Button>
+          ))}
+          <Button
+            size="xsmall"
+            variant="secondary"
+            border
+            icon="hugeicons:arrow-left-01"
+            href={routes.bridge}
+          >
+            Bridge
+          </Button>
+        </div>
+      </Heading>
+
+      <div className={s.filters}>
+        <div className={s.directions}>
+          {DIRECTIONS.map(({ value, label }) => (
+            <Button
+              key={value}
+              size="small"
+              variant={filters.direction === value ? "primary" : "secondary"}
+              border={filters.direction !== value}
+              onClick={() => setFilter("direction", value)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+        <Select
+          className={s.select}
+          options={chainOptions}
+          value={filters.chainId === null ? "" : String(filters.chainId)}
+          onChange={(e) =>
+            setFilter("chainId", e.target.value ? Number(e.target.value) : null)
+          }
+        />
+        <Select
+          className={s.select}
+          options={tokenOptions}
+          value={filters.token ?? ""}
+          onChange={(e) => setFilter("token", e.target.value || null)}
+        />
+        <Select
+          className={s.select}
+          options={STATUSES}
+          value={filters.status}
+          onChange={(e) => setFilter("status", e.target.value as Status)}
+        />
+        <Input
+          type="date"
+          className={s.date}
+          label="From"
+          value={filters.from}
+          max={filters.to || undefined}
+          onChange={(e) => setFilter("from", e.target.value)}
+        />
+        <Input
+          type="date"
+          className={s.date}
+          label="To"
+          value={filters.to}
+          min={filters.from || undefined}
+          onChange={(e) => setFilter("to", e.target.value)}
+        />
+        <Button
+          size="small"
+          variant="secondary"
+          icon="hugeicons:filter-remove"
+          onClick={() => setFilters(DEFAULT_BRIDGE_HISTORY_FILTERS)}
+        >
+          Reset
+        </Button>
+      </div>
+
+      {exportError && (
+        <Message title="Export failed" variant="danger" className={s.message}>
+          {getErrorMessage(exportError) || "The history could not be loaded."}
+        </Message>
+      )}
+
+      <Table>
+        <thead>
+          <TableRow>
+            <TableCell>Date</TableCell>
+            <TableCell>Transfer</TableCell>
+            <TableCell>Network</TableCell>
+            <TableCell>Amount</TableCell>
+            <TableCell>Status</TableCell>
+            <TableCell align="right">Actions</TableCell>
+          </TableRow>
+        </thead>
+        <tbody>
+          {entries.map((entry) => {
+            const { transfer, state, chainName, timestamp } = entry
+            const explorerUrl = getTransferHashes(transfer).source.explorerUrl
+
+            return (
+              <TableRow key={bridgeTransferKey(transfer)} className={s.row}>
+                <TableCell>
+                  {timestamp
+                    ? formatDate(new Date(timestamp).toISOString())
+                    : "-"}
+                </TableCell>
+                <TableCell>
+                  <strong>#{transfer.id}</strong>
+                  <small>
+                    {transfer.direction === "IN" ? "Deposit" : "Withdrawal"}
+                  </small>
+                </TableCell>
+                <TableCell>{chainName}</TableCell>
+                <TableCell>{formatAmount(entry)}</TableCell>
+                <TableCell>
+                  <Badge status={STATE_BADGES[state]}>
+                    {STATUSES.find((status) => status.value === state)?.label}
+                  </Badge>
+                </TableCell>
+                <TableCell align="right">
+                  <div className={s.actions}>
+                    <Button
+                      icon="hugeicons:view"
+                      variant="secondary"
+                      size="xsmall"
+                      border
+                      href={bridgeTransferPath(transfer)}
+                      title="Details"
+                    />
+                    {explorerUrl && (
+                      <Button
+                        icon="hugeicons:link-square-02"
+                        variant="secondary"
+                        size="xsmall"
+                        border
+                        href={explorerUrl}
+                        title="Explorer"
+                      />
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            )
+          })}
+        </tbody>
+      </Table>
+
+      {!isConnected && (
+        <Message title="Bridge history" variant="primary">
+          Connect your wallet to see your bridge history.
+        </Message>
+      )}
+      {error && (
+        <Message title="Bridge history" variant="danger">
+          {getErrorMessage(error) || "The history could not be loaded."}
+        </Message>
+      )}
+      {isConnected && !isLoading && !hasNextPage && entries.length === 0 && (
+        <Message title="Bridge history" variant="primary">
+          {loadedCount > 0
+            ? "No transfer matches these filters."
+            : "You have not bridged anything yet."}
+        </Message>
+      )}
+      <div ref={loaderRef} className={s.loader}>
+        {(isLoading || isFetchingNextPage) && "Loading transfers..."}
+      </div>
+    </Card>
+  )
+}
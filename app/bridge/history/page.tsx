@@ -0,0 +1,10 @@
+import { History } from "./(components)/history"
+import s from "./page.module.scss"
+
+export default function Page() {
+  return (
+    <div className={s.history}>
+      <History />
+    </div>
+  )
+}
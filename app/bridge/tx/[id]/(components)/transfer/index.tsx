@@ -0,0 +1,246 @@
+"use client"
+
+import { Badge } from "@/components/badge"
+import { BridgeStepper } from "@/components/bridge-stepper"
+import { Button } from "@/components/button"
+import { Card } from "@/components/card"
+import { Heading } from "@/components/heading"
+import { Icon } from "@/components/icon"
+import { Message } from "@/components/message"
+import { HELIOS_NETWORK_ID } from "@/config/app"
+import { getChainConfig } from "@/config/chain-config"
+import routes from "@/config/routes"
+import {
+  BRIDGE_STAGE_LABELS,
+  BridgeTransferQuery
+} from "@/helpers/bridge-lifecycle"
+import { getTransferTokenAddress } from "@/helpers/bridge-history"
+import { useBridgeTransfer } from "@/hooks/useBridgeTransfer"
+import { useChains } from "@/hooks/useChains"
+import { useTokenRegistry } from "@/hooks/useTokenRegistry"
+import { BridgeTransferState } from "@/types/bridge-transfer"
+import { Variants } from "@/types/feedback"
+import { getLogoByHash } from "@/utils/url"
+import { useQuery } from "@tanstack/react-query"
+import Image from "next/image"
+import { formatUnits } from "viem"
+import s from "./transfer.module.scss"
+
+const STATE_BADGES: Record<
+  BridgeTransferState,
+  { name: string; status: Variants }
+> = {
+  pending: { name: "In progress", status: "primary" },
+  completed: { name: "Bridged", status: "success" },
+  failed: { name: "Failed", status: "danger" }
+}
+
+// Link to an address on the explorer of a chain
+const AddressLink = ({
+  address,
+  chainId
+}: {
+  address: string
+  chainId: number
+}) => {
+  const explorerUrl = getChainConfig(chainId)?.explorerUrl
+  return explorerUrl ? (
+    <a
+      href={`${explorerUrl}/address/${address}`}
+      target="_blank"
+      rel="noopener noreferrer"
+    >
+      {address}
+    </a>
+  ) : (
+    <span>{address}</span>
+  )
+}
+
+export const Transfer = ({ query }: { query: BridgeTransferQuery | null }) => {
+  const { chains } = useChains()
+  const { getTokenByAddress } = useTokenRegistry()
+  const { transfer, lifecycle, isLoading } = useBridgeTransfer(query)
+
+  // The Helios contract, the other one belongs to the external chain
+  const tokenAddress = transfer ? getTransferTokenAddress(transfer) : null
+  const qToken = useQuery({
+    queryKey: ["bridgeTransferToken", tokenAddress],
+    queryFn: () => getTokenByAddress(tokenAddress!, HELIOS_NETWORK_ID),
+    enabled: !!tokenAddress
+  })
+
+  if (!query) {
+    return (
+      <Message title="Bridge transfer" variant="danger">
+        This is not a valid transfer ID.
+      </Message>
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <Message title="Bridge transfer" variant="primary">
+        Loading transfer details...
+      </Message>
+    )
+  }
+
+  if (!transfer || !lifecycle) {
+    return (
+      <Message title="Bridge transfer" variant="warning">
+        Transfer #{query.id} was not found. Recent transfers can take a few
+        minutes to be indexed by Hyperion.
+      </Message>
+    )
+  }
+
+  const token = qToken.data
+  const decimals = token?.functionnal.decimals ?? 18
+  const symbol = token?.display.symbol.toUpperCase() ?? ""
+  const formatToken = (amount: string) =>
+    `${formatUnits(BigInt(amount || "0"), decimals)} ${symbol}`.trim()
+
+  const chainOf = (chainId: number) => ({
+    name:
+      chains.find((chain) => chain.chainId === chainId)?.name ??
+      getChainConfig(chainId)?.name ??
+      `Chain ${chainId}`,
+    logo: chains.find((chain) => chain.chainId === chainId)?.logo
+  })
+  const from = chainOf(lifecycle.source.chainId)
+  const to = chainOf(lifecycle.destination.chainId)
+  const badge = STATE_BADGES[lifecycle.state]
+  const orchestrators = transfer.proof?.orchestrators
+    ? transfer.proof.orchestrators.split(",").map((item) => item.trim())
+    : []
+  const proofHashes = transfer.proof?.hashs
+    ? transfer.proof.hashs.split(",").map((item) => item.trim())
+    : []
+
+  return (
+    <>
+      <Card auto>
+        <Heading
+          icon="hugeicons:exchange-02"
+          title={`Transfer #${transfer.id}`}
+          description={`${from.name} to ${to.name}`}
+        >
+          <Badge status={badge.status}>{badge.name}</Badge>
+          <Button
+            variant="secondary"
+            size="xsmall"
+            border
+            icon="hugeicons:arrow-left-01"
+            href={routes.bridge}
+          >
+            Bridge
+          </Button>
+        </Heading>
+
+        <div className={s.route}>
+          {[from, to].map((chain, index) => (
+            <div key={index} className={s.chain}>
+              {chain.logo ? (
+                <Image
+                  src={getLogoByHash(chain.logo)}
+                  alt=""
+                  width={32}
+                  height={32}
+                />
+              ) : (
+                <Icon icon="hugeicons:blockchain-05" />
+              )}
+              <span>{index === 0 ? "From" : "To"}</span>
+              <strong>{chain.name}</strong>
+            </div>
+          ))}
+        </div>
+
+        <dl className={s.details}>
+          <div>
+            <dt>Direction</dt>
+            <dd>
+              {transfer.direction === "IN"
+                ? "Deposit to Helios"
+                : "Withdrawal from Helios"}
+            </dd>
+          </div>
+          <div>
+            <dt>Current stage</dt>
+            <dd>
+              {lifecycle.current
+                ? `Waiting: ${BRIDGE_STAGE_LABELS[lifecycle.current]}`
+                : badge.name}
+            </dd>
+          </div>
+          <div>
+            <dt>Sender</dt>
+            <dd>
+              <AddressLink
+                address={transfer.sender}
+                chainId={lifecycle.source.chainId}
+              />
+            </dd>
+          </div>
+          <div>
+            <dt>Destination</dt>
+            <dd>
+              <AddressLink
+                address={transfer.destAddress}
+                chainId={lifecycle.destination.chainId}
+              />
+            </dd>
+          </div>
+          <div>
+            <dt>Sent</dt>
+            <dd>{formatToken(transfer.sentToken.amount)}</dd>
+          </div>
+          <div>
+            <dt>Received</dt>
+            <dd>{formatToken(transfer.receivedToken.amount)}</dd>
+          </div>
+          <div>
+            <dt>Fee paid</dt>
+            <dd>{formatToken(transfer.sentFee.amount)}</dd>
+          </div>
+          <div>
+            <dt>Fee collected</dt>
+            <dd>{formatToken(transfer.receivedFee.amount)}</dd>
+          </div>
+          <div>
+            <dt>Block height</dt>
+            <dd>#{transfer.height}</dd>
+          </div>
+          <div>
+            <dt>Hyperion ID</dt>
+            <dd>{transfer.hyperionId}</dd>
+          </div>
+          <div>
+            <dt>Orchestrators</dt>
+            <dd>
+              {orchestrators.length > 0
+                ? orchestrators.map((orchestrator) => (
+                    <code key={orchestrator}>{orchestrator}</code>
+                  ))
+                : "Not observed yet"}
+            </dd>
+          </div>
+          <div>
+            <dt>Proof hashes</dt>
+            <dd>
+              {proofHashes.length > 0
+                ? proofHashes.map((hash) => <code key={hash}>{hash}</code>)
+                : "None yet"}
+            </dd>
+          </div>
+        </dl>
+      </Card>
+
+      <Card auto>
+        <Heading icon="hugeicons:flowchart-01" title="Lifecycle" />
+        <BridgeStepper lifecycle={lifecycle} />
+      </Card>
+    </>
+  )
+}
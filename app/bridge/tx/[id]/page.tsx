@@ -0,0 +1,21 @@
+"use client"
+
+import { useParams, useSearchParams } from "next/navigation"
+import { parseBridgeTransferParam } from "@/helpers/bridge-lifecycle"
+import { Transfer } from "./(components)/transfer"
+import s from "./page.module.scss"
+
+export default function Page() {
+  const params = useParams()
+  const searchParams = useSearchParams()
+  const query = parseBridgeTransferParam(
+    params.id as string,
+    searchParams.get("account")
+  )
+
+  return (
+    <div className={s.transfer}>
+      <Transfer query={query} />
+    </div>
+  )
+}
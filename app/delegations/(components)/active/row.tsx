@@ -10,8 +10,7 @@ import { useState } from "react"
 import s from "./active.module.scss"
 import { ModalStake } from "./stake"
 import { ModalUnstake } from "./unstake"
-import { useChainId, useSwitchChain } from "wagmi"
-import { HELIOS_NETWORK_ID, HELIOS_TOKEN_ADDRESS } from "@/config/app"
+import { HELIOS_TOKEN_ADDRESS } from "@/config/app"
 import { ModalClaim } from "../claim/modal"
 import Image from "next/image"
 
@@ -28,28 +27,14 @@ ValidatorRow) => {
   const [openRewards, setOpenRewards] = useState(false)
   const [openStake, setOpenStake] = useState(false)
   const [openUnstake, setOpenUnstake] = useState(false)
-  const chainId = useChainId()
-  const { switchChain } = useSwitchChain()
 
   const handleOpenStake = () => {
-    if (chainId !== HELIOS_NETWORK_ID) {
-      switchChain({ chainId: HELIOS_NETWORK_ID })
-    }
-
     setOpenStake(true)
   }
   const handleOpenUnstake = () => {
-    if (chainId !== HELIOS_NETWORK_ID) {
-      switchChain({ chainId: HELIOS_NETWORK_ID })
-    }
-
     setOpenUnstake(true)
   }
   const handleOpenRewards = () => {
-    if (chainId !== HELIOS_NETWORK_ID) {
-      switchChain({ chainId: HELIOS_NETWORK_ID })
-    }
-
     setOpenRewards(true)
   }
 
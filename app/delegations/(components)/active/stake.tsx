@@ -10,6 +10,7 @@ import { toast } from "sonner"
 import s from "./active.module.scss"
 import { useAssetsInfo } from "@/hooks/useAssetsInfo"
 import { useDelegate } from "@/hooks/useDelegate"
+import { TransactionStatus } from "@/components/transaction-status"
 import { Message } from "@/components/message"
 import { HELIOS_TOKEN_ADDRESS } from "@/config/app"
 import { ethers } from "ethers"
@@ -36,7 +37,7 @@ export const ModalStake = ({
   const [amount, setAmount] = useState("0")
   const [selectedAsset, setSelectedAsset] = useState("")
   const { assets } = useAssetsInfo()
-  const { delegate, isLoading, feedback, resetFeedback } = useDelegate()
+  const { delegate, isLoading, status, resetFeedback } = useDelegate()
   const formattedMinDelegation = parseFloat(ethers.formatEther(minDelegation))
 
   const enrichedAsset = assets?.find(
@@ -176,11 +177,7 @@ export const ModalStake = ({
         </Button>
       </div>
 
-      {feedback && feedback.message !== "" && (
-        <Message title="Staking feedback" variant={feedback.status}>
-          {feedback.message}
-        </Message>
-      )}
+      <TransactionStatus title="Staking feedback" status={status} />
     </Modal>
   )
 }
@@ -9,6 +9,7 @@ import { ChangeEvent, useState } from "react"
 import { toast } from "sonner"
 import s from "./active.module.scss"
 import { useDelegate } from "@/hooks/useDelegate"
+import { TransactionStatus } from "@/components/transaction-status"
 import { TokenExtended } from "@/types/token"
 import { getErrorMessage } from "@/utils/string"
 
@@ -29,7 +30,7 @@ export const ModalUnstake = ({
 }: ModalUnstakeProps) => {
   const [amount, setAmount] = useState("0")
   const [selectedAsset, setSelectedAsset] = useState("")
-  const { undelegate, isLoading, feedback } = useDelegate()
+  const { undelegate, isLoading, status } = useDelegate()
 
   const enrichedAsset = delegatedAssets?.find(
     (asset) => asset.functionnal.address === selectedAsset
@@ -55,7 +56,7 @@ export const ModalUnstake = ({
       })
       setOpen(false)
     } catch (err: any) {
-      toast.error(getErrorMessage(err?.message) || "Error during unstake", {
+      toast.error(getErrorMessage(err) || "Error during unstake", {
         id: toastId
       })
     }
@@ -149,11 +150,7 @@ export const ModalUnstake = ({
           Confirm Unstake
         </Button>
       </div>
-      {feedback && feedback.message !== "" && (
-        <Message title="Unstaking feedback" variant={feedback.status}>
-          {feedback.message}
-        </Message>
-      )}
+      <TransactionStatus title="Unstaking feedback" status={status} />
     </Modal>
   )
 }
@@ -8,12 +8,8 @@ import s from "./claim.module.scss"
 import { ModalClaim } from "./modal"
 import { useDelegationInfo } from "@/hooks/useDelegationInfo"
 import { formatNumber } from "@/lib/utils/number"
-import { useChainId, useSwitchChain } from "wagmi"
-import { HELIOS_NETWORK_ID } from "@/config/app"
 
 export const Claim = () => {
-  const chainId = useChainId()
-  const { switchChain } = useSwitchChain()
   const { totalRewards } = useDelegationInfo()
   const [open, setOpen] = useState(false)
   const classes = clsx(
@@ -22,10 +18,6 @@ export const Claim = () => {
   )
 
   const handleOpenClaim = () => {
-    if (chainId !== HELIOS_NETWORK_ID) {
-      switchChain({ chainId: HELIOS_NETWORK_ID })
-    }
-
     setOpen(true)
   }
 
@@ -9,7 +9,7 @@ import { toast } from "sonner"
 import s from "./claim.module.scss"
 import { formatNumber } from "@/lib/utils/number"
 import { useRewards } from "@/hooks/useRewards"
-import { Message } from "@/components/message"
+import { TransactionStatus } from "@/components/transaction-status"
 
 interface ModalClaimProps {
   title: string
@@ -31,7 +31,7 @@ export const ModalClaim = ({
 ModalClaimProps) => {
   const [loading, setLoading] = useState(false)
   const classes = clsx(s.claim, rewards > 0 && s.claimAvailable)
-  const { claimRewards, claimValidatorRewards, feedback } = useRewards()
+  const { claimRewards, claimValidatorRewards, status } = useRewards()
 
   const handleClaim = async () => {
     setLoading(true)
@@ -73,11 +73,7 @@ ModalClaimProps) => {
       >
         {loading ? "Claiming..." : "Claim Rewards"}
       </Button>
-      {feedback && feedback.message !== "" && (
-        <Message title="Rewards feedback" variant={feedback.status}>
-          {feedback.message}
-        </Message>
-      )}
+      <TransactionStatus title="Rewards feedback" status={status} />
       {/* <Message
         icon="hugeicons:information-circle"
         title="About Claiming Rewards"
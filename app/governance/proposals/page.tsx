@@ -62,7 +62,7 @@ const AllProposals: React.FC = () => {
   const hasPreviousPage = currentPage > 1
 
   // Transform raw proposals data
-  const proposals: ProposalData[] = (rawProposals || []).map((item: any) => {
+  const proposals: ProposalData[] = (rawProposals || []).map((item) => {
     const yes = BigInt(item.currentTallyResult?.yes_count || "0")
     const no = BigInt(item.currentTallyResult?.no_count || "0")
     const abstain = BigInt(item.currentTallyResult?.abstain_count || "0")
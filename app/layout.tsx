@@ -10,6 +10,8 @@ import Script from "next/script"
 import NetworkStatus from "@/components/network-status"
 import DebugIndicator from "@/components/debug-indicator"
 import GasPriceDisplay from "@/components/gas-price-display"
+import LiveUpdates from "@/components/live-updates"
+import TransactionPreview from "@/components/transaction-preview"
 
 export const metadata = MetadataSeo({
   title: "Your Gateway to Staking, Delegation & Cross-Chain Governance",
@@ -63,6 +65,8 @@ export default async function RootLayout({
           <NetworkStatus />
           <GasPriceDisplay />
           <DebugIndicator />
+          <LiveUpdates />
+          <TransactionPreview />
         </ContextProvider>
       </body>
     </html>
@@ -8,8 +8,7 @@ import { StatItem } from "./stat"
 import { useValidatorDetail } from "@/hooks/useValidatorDetail"
 import { useState } from "react"
 import { ModalStake } from "@/app/delegations/(components)/active/stake"
-import { useAccount, useChainId, useSwitchChain } from "wagmi"
-import { HELIOS_NETWORK_ID } from "@/config/app"
+import { useAccount } from "wagmi"
 import Link from "next/link"
 
 export const Item = ({
@@ -34,9 +33,7 @@ export const Item = ({
   //   }
   // }
   const [openStake, setOpenStake] = useState(false)
-  const chainId = useChainId()
   const { isConnected } = useAccount()
-  const { switchChain } = useSwitchChain()
   const { delegation, userHasDelegated } = useValidatorDetail(validatorAddress)
 
   const isActive = status === 3
@@ -60,10 +57,6 @@ export const Item = ({
   const handleOpenStake = (e: any) => {
     e.preventDefault()
     e.stopPropagation()
-    if (chainId !== HELIOS_NETWORK_ID) {
-      switchChain({ chainId: HELIOS_NETWORK_ID })
-    }
-
     setOpenStake(true)
   }
 
@@ -3,38 +3,18 @@
 import { Card } from "@/components/card"
 import { Heading } from "@/components/heading"
 import { Icon } from "@/components/icon"
-import { request } from "@/helpers/request"
+import { getValidatorHyperionData } from "@/helpers/rpc-calls"
 import { useParams } from "next/navigation"
 import { useQuery } from "@tanstack/react-query"
 import { getChainConfig } from "@/config/chain-config"
+import { ValidatorHyperionData } from "@/types/hyperion"
 import s from "./hyperion.module.scss"
 
-interface HyperionData {
-  hyperion_id: number
-  minimum_tx_fee: string
-  minimum_batch_fee: string
-  total_slash_amount: string
-  tx_out_transfered: number
-  tx_in_transfered: number
-  batch_created: number
-  batch_confirmed: number
-  fee_collected: string
-  external_data_tx_fee_collected: string
-}
-
-interface HyperionResponse {
-  orchestrator: string
-  orchestrator_hyperion_data: HyperionData[]
-}
-
 async function fetchValidatorHyperionData(
   validatorAddress: string
-): Promise<HyperionResponse | null> {
+): Promise<ValidatorHyperionData | null> {
   try {
-    const result = await request<HyperionResponse>(
-      "eth_getValidatorHyperionData",
-      [validatorAddress]
-    )
+    const result = await getValidatorHyperionData(validatorAddress)
     return result
   } catch (err) {
     console.error("Error fetching hyperion data:", err)
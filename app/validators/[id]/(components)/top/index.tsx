@@ -8,8 +8,8 @@ import { StatItem } from "../../../(components)/item/stat"
 import s from "./top.module.scss"
 import { useParams } from "next/navigation"
 import { useValidatorDetail } from "@/hooks/useValidatorDetail"
-import { useAccount, useChainId, useSwitchChain } from "wagmi"
-import { EXPLORER_URL, HELIOS_NETWORK_ID } from "@/config/app"
+import { useAccount } from "wagmi"
+import { EXPLORER_URL } from "@/config/app"
 import { useState } from "react"
 import { ModalStake } from "@/app/delegations/(components)/active/stake"
 import { Message } from "@/components/message"
@@ -20,8 +20,6 @@ export const Top = () => {
   const validatorId = params.id as string
   const { validator, delegation, userHasDelegated } =
     useValidatorDetail(validatorId)
-  const chainId = useChainId()
-  const { switchChain } = useSwitchChain()
   const [openStake, setOpenStake] = useState(false)
 
   if (!validator) return <></>
@@ -66,10 +64,6 @@ export const Top = () => {
     totalDelegated
 
   const handleOpenStake = () => {
-    if (chainId !== HELIOS_NETWORK_ID) {
-      switchChain({ chainId: HELIOS_NETWORK_ID })
-    }
-
     setOpenStake(true)
   }
 
@@ -0,0 +1,129 @@
+"use client"
+
+import { Button } from "@/components/button"
+import { Input } from "@/components/input/input"
+import { Modal } from "@/components/modal"
+import { validateDestinationAddress } from "@/helpers/address-validation"
+import { truncateAddress } from "@/lib/utils"
+import {
+  AddressBookEntry,
+  findAddressBookEntry,
+  useAddressBookStore
+} from "@/stores/address-book"
+import { useState } from "react"
+import { toast } from "sonner"
+import s from "./address-book.module.scss"
+
+interface AddressBookProps {
+  open: boolean
+  setOpen: (open: boolean) => void
+  // Only addresses valid for this HyperionChain.chainType are listed
+  chainType?: string
+  // Prefills the address to save
+  address?: string
+  onSelect?: (entry: AddressBookEntry) => void
+}
+
+// Labelled recipients, shared by every form that sends tokens
+export const AddressBook = ({
+  open,
+  setOpen,
+  chainType = "evm",
+  address: initialAddress = "",
+  onSelect
+}: AddressBookProps) => {
+  const { entries, saveEntry, removeEntry } = useAddressBookStore()
+  const [label, setLabel] = useState("")
+  const [address, setAddress] = useState(initialAddress)
+
+  const validation = validateDestinationAddress(address, { chainType })
+  const existing = validation.address
+    ? findAddressBookEntry(entries, validation.address)
+    : null
+  const listed = entries
+    .filter((entry) => entry.chainType === chainType)
+    .sort((a, b) => a.label.localeCompare(b.label))
+
+  const handleSave = () => {
+    if (!validation.address || !label.trim()) return
+    saveEntry({ address: validation.address, label: label.trim(), chainType })
+    toast.success(`${label.trim()} saved to your address book`)
+    setLabel("")
+    setAddress("")
+  }
+
+  const handleSelect = (entry: AddressBookEntry) => {
+    onSelect?.(entry)
+    setOpen(false)
+  }
+
+  return (
+    <Modal
+      title="Address book"
+      onClose={() => setOpen(false)}
+      open={open}
+      className={s.modal}
+      responsiveBottom
+    >
+      {listed.length === 0 && (
+        <p className={s.empty}>No saved recipient yet.</p>
+      )}
+      {listed.length > 0 && (
+        <ul className={s.list}>
+          {listed.map((entry) => (
+            <li key={entry.address} className={s.entry}>
+              <div className={s.info}>
+                <strong>{entry.label}</strong>
+                <small>{truncateAddress(entry.address)}</small>
+              </div>
+              {onSelect && (
+                <Button
+                  size="xsmall"
+                  variant="secondary"
+                  border
+                  onClick={() => handleSelect(entry)}
+                >
+                  Use
+                </Button>
+              )}
+              <Button
+                size="xsmall"
+                variant="secondary"
+                icon="hugeicons:delete-02"
+                title="Remove"
+                onClick={() => removeEntry(entry.address)}
+              />
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className={s.form}>
+        <Input
+          label="Label"
+          type="text"
+          placeholder="My cold wallet"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+        />
+        <Input
+          label="Address"
+          type="text"
+          placeholder="0x..."
+          value={address}
+          onChange={(e) => setAddress(e.target.value)}
+          error={address ? (validation.error ?? undefined) : undefined}
+          helperText={
+            existing ? `Saved as ${existing.label}, saving renames it` : ""
+          }
+        />
+        <Button
+          icon="hugeicons:user-add-01"
+          disabled={!validation.address || !label.trim()}
+          onClick={handleSave}
+        >
+          Save recipient
+        </Button>
+      </div>
+    </Modal>
+  )
+}
@@ -0,0 +1,84 @@
+import clsx from "clsx"
+import { Icon } from "../icon"
+import { getChainConfig } from "@/config/chain-config"
+import { formatDate } from "@/lib/utils/date"
+import {
+  BridgeTransferHash,
+  BridgeTransferLifecycle
+} from "@/types/bridge-transfer"
+import s from "./bridge-stepper.module.scss"
+
+interface BridgeStepperProps {
+  lifecycle: BridgeTransferLifecycle
+  className?: string
+}
+
+const ChainLink = ({
+  label,
+  transaction
+}: {
+  label: string
+  transaction: BridgeTransferHash
+}) => (
+  <div className={s.link}>
+    <span>
+      {label} ·{" "}
+      {getChainConfig(transaction.chainId)?.name ?? transaction.chainId}
+    </span>
+    {transaction.explorerUrl ? (
+      <a
+        href={transaction.explorerUrl}
+        target="_blank"
+        rel="noopener noreferrer"
+      >
+        Explorer
+        <Icon icon="hugeicons:link-square-02" />
+      </a>
+    ) : (
+      <em>Not known yet</em>
+    )}
+  </div>
+)
+
+export const BridgeStepper = ({
+  lifecycle,
+  className
+}: BridgeStepperProps) => (
+  <div className={clsx(s.stepper, className)}>
+    <ol className={s.steps}>
+      {lifecycle.steps.map((step) => {
+        const state = step.done
+          ? "done"
+          : step.stage === lifecycle.current
+            ? "active"
+            : lifecycle.state === "failed"
+              ? "failed"
+              : "pending"
+
+        return (
+          <li key={step.stage} className={s.step} data-state={state}>
+            <Icon
+              icon={
+                state === "done"
+                  ? "hugeicons:checkmark-circle-02"
+                  : state === "active"
+                    ? "svg-spinners:6-dots-rotate"
+                    : state === "failed"
+                      ? "hugeicons:cancel-circle"
+                      : "hugeicons:circle"
+              }
+            />
+            <span>{step.label}</span>
+            {step.timestamp && (
+              <time dateTime={new Date(step.timestamp).toISOString()}>
+                {formatDate(new Date(step.timestamp).toISOString())}
+              </time>
+            )}
+          </li>
+        )
+      })}
+    </ol>
+    <ChainLink label="Source" transaction={lifecycle.source} />
+    <ChainLink label="Destination" transaction={lifecycle.destination} />
+  </div>
+)
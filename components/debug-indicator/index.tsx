@@ -1,6 +1,7 @@
 "use client"
 
 import { useAppStore } from "@/stores/app"
+import { useRpcFixturesStore } from "@/stores/rpc-fixtures"
 import s from "./debug-indicator.module.scss"
 
 /**
@@ -9,12 +10,15 @@ import s from "./debug-indicator.module.scss"
  */
 export const DebugIndicator = () => {
   const { debugMode, hasHydrated } = useAppStore()
+  const fixtureMode = useRpcFixturesStore((state) => state.mode)
 
   if (!hasHydrated || !debugMode) return null
 
   return (
     <div className={s["debug-indicator"]} title="Debug Mode Enabled">
       DEBUG MODE
+      {fixtureMode === "record" && " · RECORDING RPC"}
+      {fixtureMode === "replay" && " · REPLAYING RPC"}
     </div>
   )
 }
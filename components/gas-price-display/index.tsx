@@ -2,7 +2,7 @@
 
 import { useAppStore } from "@/stores/app"
 import { useGasPrice } from "@/hooks/useGasPrice"
-import { getGasPriceLabel } from "@/utils/gas"
+import { formatFees, getGasPriceLabel } from "@/utils/gas"
 import { formatGwei } from "@/utils/format"
 import s from "./gas-price-display.module.scss"
 
@@ -10,20 +10,25 @@ import s from "./gas-price-display.module.scss"
  * A component that displays the current gas price in debug mode
  */
 export const GasPriceDisplay = () => {
-  const { debugMode, gasPriceOption } = useAppStore()
-  const { adjustedGasPrice, isLoading } = useGasPrice()
+  const { debugMode } = useAppStore()
+  const { adjustedGasPrice, fees, gasPriceOption, isLoading } = useGasPrice()
 
   // Only show in debug mode
   if (!debugMode) return null
 
-  // Format gas price from wei to Gwei
-  const gweiValue = isLoading ? "..." : formatGwei(adjustedGasPrice)
+  // Format gas price from wei to Gwei, as base fee plus tip on type 2 chains
+  const gasValue = isLoading
+    ? "..."
+    : fees
+      ? formatFees(fees)
+      : `${formatGwei(adjustedGasPrice)} Gwei`
 
   return (
     <div className={s["gas-price-display"]} title="Current Gas Price Setting">
-      <div className={s["gas-price-display__label"]}>Gas: {gweiValue} Gwei</div>
+      <div className={s["gas-price-display__label"]}>Gas: {gasValue}</div>
       <div className={s["gas-price-display__option"]}>
-        ({getGasPriceLabel(gasPriceOption)})
+        ({getGasPriceLabel(gasPriceOption)}
+        {fees?.type === "eip1559" && ", base fee + tip"})
       </div>
     </div>
   )
@@ -1,14 +1,20 @@
 "use client"
 
 import { useState } from "react"
+import { useGasPrice } from "@/hooks/useGasPrice"
 import { GasPriceOption, useAppStore } from "@/stores/app"
-import { getGasPriceLabel, getGasPriceTimeEstimate } from "@/utils/gas"
+import {
+  formatFees,
+  getGasPriceLabel,
+  getGasPriceTimeEstimate
+} from "@/utils/gas"
 import s from "./gas-price-selector.module.scss"
 import clsx from "clsx"
 
 export const GasPriceSelector = () => {
   const { gasPriceOption, setGasPriceOption, debugMode } = useAppStore()
   const [isOpen, setIsOpen] = useState(false)
+  const { tiers } = useGasPrice()
 
   // Only show in debug mode
   if (!debugMode) return null
@@ -65,6 +71,11 @@ export const GasPriceSelector = () => {
                   <span className={s["gas-price-selector__option-description"]}>
                     {getGasPriceTimeEstimate(option)}
                   </span>
+                  {tiers && (
+                    <span className={s["gas-price-selector__option-fees"]}>
+                      {formatFees(tiers[option])}
+                    </span>
+                  )}
                 </div>
               </li>
             ))}
@@ -30,7 +30,7 @@ interface BaseInputProps {
 interface InputProps
   extends BaseInputProps,
     Omit<InputHTMLAttributes<HTMLInputElement>, "className"> {
-  type?: "text" | "number" | "password" | "email" | "tel" | "url"
+  type?: "text" | "number" | "password" | "email" | "tel" | "url" | "date"
 }
 
 interface TextareaProps
@@ -0,0 +1,15 @@
+"use client"
+
+import { useAccountActivity } from "@/hooks/useAccountActivity"
+
+/**
+ * Keeps account data fresh from live block subscriptions when a WebSocket
+ * endpoint is configured. Renders nothing.
+ */
+export const LiveUpdates = () => {
+  useAccountActivity()
+
+  return null
+}
+
+export default LiveUpdates
@@ -6,10 +6,14 @@ import clsx from "clsx"
 import { useBlockInfo } from "@/hooks/useBlockInfo"
 import { Link } from "@/components/link"
 import { useAppStore } from "@/stores/app"
+import { useRpcStore } from "@/stores/rpc"
+import { getEndpointName } from "@/helpers/rpc-health"
+import { RPC_ENDPOINTS } from "@/config/app"
 
 export function NetworkStatus() {
   const { lastBlockNumber, blockTime, error } = useBlockInfo()
   const { debugMode, hasHydrated } = useAppStore()
+  const { activeUrl, switchReason, switchedAt } = useRpcStore()
   const [isMounting, setIsMounting] = useState(false)
   const [connectionError, setConnectionError] = useState<boolean>(false)
   const prevBlockNumber = useRef<number | null>(null)
@@ -78,6 +82,25 @@ export function NetworkStatus() {
     ? `https://explorer.helioschainlabs.org/blocks/${lastBlockNumber}`
     : "#"
 
+  // Active RPC endpoint, flagged when failover moved away from the primary
+  const isFallback = !!activeUrl && activeUrl !== RPC_ENDPOINTS[0]
+  const endpointTitle = switchReason
+    ? `Switched ${
+        switchedAt ? new Date(switchedAt).toLocaleTimeString() : ""
+      }: ${switchReason}`
+    : "Active RPC endpoint"
+  const endpoint = activeUrl && (
+    <span
+      className={clsx(
+        s["network-status__endpoint"],
+        isFallback && s["network-status__endpoint--fallback"]
+      )}
+      title={endpointTitle}
+    >
+      {getEndpointName(activeUrl)}
+    </span>
+  )
+
   if (!hasHydrated) return null
   if (!debugMode) return null
 
@@ -91,6 +114,8 @@ export function NetworkStatus() {
             DEBUG
           </div>
 
+          {endpoint}
+
           <div
             className={clsx(
               s["network-status__block"],
@@ -122,6 +147,8 @@ export function NetworkStatus() {
           DEBUG
         </div>
 
+        {endpoint}
+
         <Link
           href={explorerUrl}
           className={clsx(
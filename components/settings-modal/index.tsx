@@ -3,13 +3,46 @@
 import { Button } from "@/components/button"
 import { Input } from "@/components/input/input"
 import { Modal } from "@/components/modal"
-import { GasPriceOption, useAppStore } from "@/stores/app"
+import { GasPolicyOverride, GasPriceOption, useAppStore } from "@/stores/app"
+import {
+  MAX_RECORDED_ENTRIES,
+  RpcFixtureMode,
+  useRpcFixturesStore
+} from "@/stores/rpc-fixtures"
 import { useState, useEffect, useRef } from "react"
 import { toast } from "sonner"
 import s from "./settings-modal.module.scss"
 import { getGasPriceLabel, getGasPriceTimeEstimate } from "@/utils/gas"
 import { useAccount } from "wagmi"
 import { useWeb3Provider } from "@/hooks/useWeb3Provider"
+import {
+  InsufficientFundsError,
+  NonceTooLowError,
+  toPortalError,
+  WalletRejectedError
+} from "@/helpers/errors"
+import {
+  createFixture,
+  downloadFixture,
+  parseFixture
+} from "@/helpers/rpc-fixtures"
+import { useRpcStore } from "@/stores/rpc"
+import { HELIOS_NETWORK_ID } from "@/config/app"
+import { CHAIN_CONFIG } from "@/config/chain-config"
+import { parseMaxFeeCap, resolveTransactionFees } from "@/helpers/gas-policy"
+import { toFeeParameters } from "@/utils/gas"
+
+const GAS_PRICE_OPTIONS: GasPriceOption[] = ["low", "average", "fast"]
+
+// A cap is valid when empty (no cap) or a positive amount of Gwei
+const isValidMaxFeeCap = (value?: string) =>
+  !value?.trim() || parseMaxFeeCap(value) !== null
+
+const FIXTURE_MODES: { mode: RpcFixtureMode; label: string }[] = [
+  { mode: "off", label: "Off" },
+  { mode: "record", label: "Record" },
+  { mode: "replay", label: "Replay" }
+]
 
 interface SettingsModalProps {
   open: boolean
@@ -23,10 +56,25 @@ export const SettingsModal = ({ open, onClose }: SettingsModalProps) => {
     rpcUrl,
     setRpcUrl,
     gasPriceOption,
-    setGasPriceOption
+    setGasPriceOption,
+    maxFeeCap,
+    setMaxFeeCap,
+    gasPolicyOverrides,
+    setGasPolicyOverrides
   } = useAppStore()
 
-  const { address, isConnected } = useAccount()
+  const {
+    mode: fixtureMode,
+    setMode: setFixtureMode,
+    recorded,
+    clearRecorded,
+    replayFixture,
+    replayFixtureError,
+    setReplayFixture
+  } = useRpcFixturesStore()
+  const activeUrl = useRpcStore((state) => state.activeUrl)
+
+  const { address, isConnected, chainId } = useAccount()
   const web3Provider = useWeb3Provider()
 
   // Initialize local state from the current store values
@@ -36,8 +84,13 @@ export const SettingsModal = ({ open, onClose }: SettingsModalProps) => {
   const [localGasPriceOption, setLocalGasPriceOption] =
     useState<GasPriceOption>(gasPriceOption)
   const [isGasPriceDropdownOpen, setIsGasPriceDropdownOpen] = useState(false)
+  const [localMaxFeeCap, setLocalMaxFeeCap] = useState(maxFeeCap)
+  const [localGasPolicyOverrides, setLocalGasPolicyOverrides] =
+    useState<Record<number, GasPolicyOverride>>(gasPolicyOverrides)
   const [isResettingNonce, setIsResettingNonce] = useState(false)
   const [currentNonce, setCurrentNonce] = useState<number | null>(null)
+  const [localFixtureMode, setLocalFixtureMode] =
+    useState<RpcFixtureMode>(fixtureMode)
 
   // Ref for the dropdown to handle click outside
   const dropdownRef = useRef<HTMLDivElement>(null)
@@ -68,9 +121,39 @@ export const SettingsModal = ({ open, onClose }: SettingsModalProps) => {
       setLocalDebugMode(debugMode)
       setLocalRpcUrl(rpcUrl)
       setLocalGasPriceOption(gasPriceOption)
+      setLocalMaxFeeCap(maxFeeCap)
+      setLocalGasPolicyOverrides(gasPolicyOverrides)
+      setLocalFixtureMode(fixtureMode)
       setIsGasPriceDropdownOpen(false)
     }
-  }, [debugMode, rpcUrl, gasPriceOption, open])
+  }, [
+    debugMode,
+    rpcUrl,
+    gasPriceOption,
+    maxFeeCap,
+    gasPolicyOverrides,
+    fixtureMode,
+    open
+  ])
+
+  const updateGasPolicyOverride = (
+    overrideChainId: number,
+    patch: GasPolicyOverride
+  ) => {
+    setLocalGasPolicyOverrides((overrides) => {
+      const override = { ...overrides[overrideChainId], ...patch }
+      const next = { ...overrides, [overrideChainId]: override }
+      // Networks without any override follow the global settings
+      if (!override.option && !override.maxFeeCap) delete next[overrideChainId]
+      return next
+    })
+  }
+
+  const hasInvalidMaxFeeCap =
+    !isValidMaxFeeCap(localMaxFeeCap) ||
+    Object.values(localGasPolicyOverrides).some(
+      (override) => !isValidMaxFeeCap(override.maxFeeCap)
+    )
 
   // Handle click outside to close the dropdown
   useEffect(() => {
@@ -90,13 +173,25 @@ export const SettingsModal = ({ open, onClose }: SettingsModalProps) => {
   }, [])
 
   const handleSave = () => {
+    if (hasInvalidMaxFeeCap) {
+      toast.error("Max fee caps must be positive amounts of Gwei")
+      return
+    }
+
     // Check if settings have changed
     const debugModeChanged = debugMode !== localDebugMode
     const rpcUrlChanged = rpcUrl !== localRpcUrl && localDebugMode
+    const nextFixtureMode = localDebugMode ? localFixtureMode : "off"
+    const fixtureModeChanged = fixtureMode !== nextFixtureMode
 
     // Update settings in the store
     setDebugMode(localDebugMode)
     setGasPriceOption(localGasPriceOption)
+    setMaxFeeCap(localMaxFeeCap.trim())
+    setGasPolicyOverrides(localGasPolicyOverrides)
+    setFixtureMode(nextFixtureMode)
+    // A new recording starts with the page load following the switch
+    if (fixtureModeChanged && nextFixtureMode === "record") clearRecorded()
 
     // Update RPC URL based on debug mode
     if (localDebugMode) {
@@ -119,7 +214,9 @@ export const SettingsModal = ({ open, onClose }: SettingsModalProps) => {
         rpcUrl: localDebugMode
           ? localRpcUrl
           : "https://testnet1.helioschainlabs.org",
-        gasPriceOption: localGasPriceOption
+        gasPriceOption: localGasPriceOption,
+        maxFeeCap: localMaxFeeCap.trim(),
+        gasPolicyOverrides: localGasPolicyOverrides
       }
       localStorage.setItem("helios-app-store", JSON.stringify(storeData))
     } catch (e) {
@@ -130,7 +227,7 @@ export const SettingsModal = ({ open, onClose }: SettingsModalProps) => {
     onClose()
 
     // Manually refresh the page if network settings changed
-    if (debugModeChanged || rpcUrlChanged) {
+    if (debugModeChanged || rpcUrlChanged || fixtureModeChanged) {
       toast.info("Refreshing page to apply new network settings...", {
         duration: 2000,
         onAutoClose: () => {
@@ -151,14 +248,17 @@ export const SettingsModal = ({ open, onClose }: SettingsModalProps) => {
     try {
       // Send a 0 value transaction to self to reset nonce
       // This will use the next available nonce and help sync wallet with chain
-      const gasPrice = await web3Provider.eth.getGasPrice()
+      const fees = await resolveTransactionFees(
+        web3Provider,
+        chainId ?? HELIOS_NETWORK_ID
+      )
 
       const transaction = {
         from: address,
         to: address,
         value: "0x0", // Use hex format for value
         gas: "0x5208", // Use hex format for gas (21000 in hex)
-        gasPrice: gasPrice
+        ...toFeeParameters(fees)
       }
 
       // Send the transaction
@@ -241,28 +341,58 @@ export const SettingsModal = ({ open, onClose }: SettingsModalProps) => {
       console.error("Error resetting nonce:", error)
 
       // Handle specific error cases
-      if (error.message?.includes("nonce")) {
+      const portalError = toPortalError(error)
+      if (portalError instanceof NonceTooLowError) {
         toast.error(
           "Nonce mismatch detected. Please try again or manually adjust your wallet nonce."
         )
-      } else if (error.message?.includes("insufficient funds")) {
+      } else if (portalError instanceof InsufficientFundsError) {
         toast.error("Insufficient funds for gas fees")
-      } else if (error.message?.includes("User denied")) {
+      } else if (portalError instanceof WalletRejectedError) {
         toast.error("Transaction was cancelled by user")
       } else {
-        toast.error(
-          `Failed to reset nonce: ${error.message || "Unknown error"}`
-        )
+        toast.error(`Failed to reset nonce: ${portalError.message}`)
       }
     } finally {
       setIsResettingNonce(false)
     }
   }
 
+  const handleDownloadFixture = () => {
+    if (recorded.length === 0) {
+      toast.error("No RPC call recorded yet")
+      return
+    }
+    downloadFixture(createFixture(recorded, activeUrl))
+  }
+
+  const handleLoadFixture = async (file: File | undefined) => {
+    if (!file) return
+
+    try {
+      const fixture = parseFixture(await file.text())
+      setReplayFixture(fixture)
+      const { replayFixtureError: storeError } = useRpcFixturesStore.getState()
+      if (storeError) {
+        toast.error(storeError)
+        return
+      }
+      setLocalFixtureMode("replay")
+      toast.success(
+        `Fixture loaded: ${fixture.entries.length} recorded RPC calls`
+      )
+    } catch (error) {
+      toast.error(toPortalError(error).message)
+    }
+  }
+
   const handleCancel = () => {
     setLocalDebugMode(debugMode) // Reset to original value
     setLocalRpcUrl(rpcUrl) // Reset to original value
     setLocalGasPriceOption(gasPriceOption) // Reset to original value
+    setLocalMaxFeeCap(maxFeeCap) // Reset to original value
+    setLocalGasPolicyOverrides(gasPolicyOverrides) // Reset to original value
+    setLocalFixtureMode(fixtureMode) // Reset to original value
     onClose()
   }
 
@@ -308,87 +438,154 @@ export const SettingsModal = ({ open, onClose }: SettingsModalProps) => {
           </div>
         </div>
 
-        {localDebugMode && (
-          <div className={s.section}>
-            <h3 className={s.sectionTitle}>Transaction Settings</h3>
-            <p className={s.sectionDescription}>
-              Configure gas price settings for your transactions.
-            </p>
+        <div className={s.section}>
+          <h3 className={s.sectionTitle}>Transaction Settings</h3>
+          <p className={s.sectionDescription}>
+            Configure the gas price of every transaction sent from the portal.
+            A network override replaces the speed or the cap on that network.
+          </p>
 
-            <div className={s.gasPriceContainer}>
-              <div className={s.gasPriceSelector}>
-                <div className={s.gasPriceLabel}>Transaction Speed:</div>
-                <div className={s.gasPriceDropdown} ref={dropdownRef}>
-                  <button
-                    className={s.gasPriceDropdownButton}
-                    onClick={() =>
-                      setIsGasPriceDropdownOpen(!isGasPriceDropdownOpen)
-                    }
-                    type="button"
-                  >
-                    <div className={s.gasPriceSelectedOption}>
-                      <div className={s.gasPriceAvatar}>
-                        {localGasPriceOption === "low" && "🐢"}
-                        {localGasPriceOption === "average" && "🚶"}
-                        {localGasPriceOption === "fast" && "🚀"}
-                      </div>
-                      <div className={s.gasPriceOptionContent}>
-                        <span className={s.gasPriceOptionLabel}>
-                          {getGasPriceLabel(localGasPriceOption)}
-                        </span>
-                        <span className={s.gasPriceOptionDescription}>
-                          {getGasPriceTimeEstimate(localGasPriceOption)}
-                        </span>
-                      </div>
+          <div className={s.gasPriceContainer}>
+            <div className={s.gasPriceSelector}>
+              <div className={s.gasPriceLabel}>Transaction Speed:</div>
+              <div className={s.gasPriceDropdown} ref={dropdownRef}>
+                <button
+                  className={s.gasPriceDropdownButton}
+                  onClick={() =>
+                    setIsGasPriceDropdownOpen(!isGasPriceDropdownOpen)
+                  }
+                  type="button"
+                >
+                  <div className={s.gasPriceSelectedOption}>
+                    <div className={s.gasPriceAvatar}>
+                      {localGasPriceOption === "low" && "🐢"}
+                      {localGasPriceOption === "average" && "🚶"}
+                      {localGasPriceOption === "fast" && "🚀"}
                     </div>
-                    <span className={s.gasPriceDropdownArrow}>
-                      {isGasPriceDropdownOpen ? "▲" : "▼"}
-                    </span>
-                  </button>
-
-                  {isGasPriceDropdownOpen && (
-                    <div className={s.gasPriceDropdownMenu}>
-                      {(["low", "average", "fast"] as GasPriceOption[]).map(
-                        (option) => (
-                          <div
-                            key={option}
-                            className={`${s.gasPriceDropdownItem} ${
-                              localGasPriceOption === option
-                                ? s.gasPriceDropdownItemSelected
-                                : ""
-                            }`}
-                            onClick={() => {
-                              setLocalGasPriceOption(option)
-                              setIsGasPriceDropdownOpen(false)
-                            }}
-                          >
-                            <div className={s.gasPriceAvatar}>
-                              {option === "low" && "🐢"}
-                              {option === "average" && "🚶"}
-                              {option === "fast" && "🚀"}
-                            </div>
-                            <div className={s.gasPriceOptionContent}>
-                              <span className={s.gasPriceOptionLabel}>
-                                {getGasPriceLabel(option)}
-                              </span>
-                              <span className={s.gasPriceOptionDescription}>
-                                {getGasPriceTimeEstimate(option)}
-                              </span>
-                            </div>
-                          </div>
-                        )
-                      )}
+                    <div className={s.gasPriceOptionContent}>
+                      <span className={s.gasPriceOptionLabel}>
+                        {getGasPriceLabel(localGasPriceOption)}
+                      </span>
+                      <span className={s.gasPriceOptionDescription}>
+                        {getGasPriceTimeEstimate(localGasPriceOption)}
+                      </span>
                     </div>
-                  )}
-                </div>
+                  </div>
+                  <span className={s.gasPriceDropdownArrow}>
+                    {isGasPriceDropdownOpen ? "▲" : "▼"}
+                  </span>
+                </button>
+
+                {isGasPriceDropdownOpen && (
+                  <div className={s.gasPriceDropdownMenu}>
+                    {GAS_PRICE_OPTIONS.map((option) => (
+                      <div
+                        key={option}
+                        className={`${s.gasPriceDropdownItem} ${
+                          localGasPriceOption === option
+                            ? s.gasPriceDropdownItemSelected
+                            : ""
+                        }`}
+                        onClick={() => {
+                          setLocalGasPriceOption(option)
+                          setIsGasPriceDropdownOpen(false)
+                        }}
+                      >
+                        <div className={s.gasPriceAvatar}>
+                          {option === "low" && "🐢"}
+                          {option === "average" && "🚶"}
+                          {option === "fast" && "🚀"}
+                        </div>
+                        <div className={s.gasPriceOptionContent}>
+                          <span className={s.gasPriceOptionLabel}>
+                            {getGasPriceLabel(option)}
+                          </span>
+                          <span className={s.gasPriceOptionDescription}>
+                            {getGasPriceTimeEstimate(option)}
+                          </span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
-              <p className={s.gasPriceDescription}>
-                Select your preferred transaction speed. Higher speeds will use
-                higher gas prices but confirm faster.
-              </p>
             </div>
+            <p className={s.gasPriceDescription}>
+              Select your preferred transaction speed. Higher speeds will use
+              higher gas prices but confirm faster.
+            </p>
           </div>
-        )}
+
+          <Input
+            label="Max fee cap (Gwei)"
+            value={localMaxFeeCap}
+            onChange={(e) => setLocalMaxFeeCap(e.target.value)}
+            inputMode="decimal"
+            placeholder="No cap"
+            error={
+              isValidMaxFeeCap(localMaxFeeCap)
+                ? undefined
+                : "Enter a positive amount of Gwei"
+            }
+            helperText="Transactions asking for a higher max fee per gas are blocked before signing."
+          />
+
+          <div className={s.gasOverrides}>
+            <div className={s.gasPriceLabel}>Network overrides:</div>
+            {Object.values(CHAIN_CONFIG).map((chain) => {
+              const override = localGasPolicyOverrides[chain.chainId]
+
+              return (
+                <div key={chain.chainId} className={s.gasOverride}>
+                  <span className={s.gasOverrideName}>{chain.name}</span>
+                  <div className={s.gasOverrideOptions}>
+                    <Button
+                      variant={override?.option ? "secondary" : "primary"}
+                      size="xsmall"
+                      onClick={() =>
+                        updateGasPolicyOverride(chain.chainId, {
+                          option: undefined
+                        })
+                      }
+                    >
+                      Default
+                    </Button>
+                    {GAS_PRICE_OPTIONS.map((option) => (
+                      <Button
+                        key={option}
+                        variant={
+                          override?.option === option ? "primary" : "secondary"
+                        }
+                        size="xsmall"
+                        onClick={() =>
+                          updateGasPolicyOverride(chain.chainId, { option })
+                        }
+                      >
+                        {getGasPriceLabel(option)}
+                      </Button>
+                    ))}
+                  </div>
+                  <Input
+                    value={override?.maxFeeCap ?? ""}
+                    onChange={(e) =>
+                      updateGasPolicyOverride(chain.chainId, {
+                        maxFeeCap: e.target.value
+                      })
+                    }
+                    inputMode="decimal"
+                    placeholder="Global cap"
+                    aria-label={`${chain.name} max fee cap (Gwei)`}
+                    error={
+                      isValidMaxFeeCap(override?.maxFeeCap)
+                        ? undefined
+                        : "Invalid cap"
+                    }
+                  />
+                </div>
+              )
+            })}
+          </div>
+        </div>
 
         {localDebugMode && (
           <div className={s.section}>
@@ -410,6 +607,80 @@ export const SettingsModal = ({ open, onClose }: SettingsModalProps) => {
           </div>
         )}
 
+        {localDebugMode && (
+          <div className={s.section}>
+            <h3 className={s.sectionTitle}>RPC Fixtures</h3>
+            <p className={s.sectionDescription}>
+              Record every RPC call and response into a fixture file, or replay
+              a fixture to reproduce a screen exactly as it was captured. The
+              page reloads when the mode changes.
+            </p>
+
+            <div className={s.fixtureModes}>
+              {FIXTURE_MODES.map(({ mode, label }) => (
+                <Button
+                  key={mode}
+                  variant={localFixtureMode === mode ? "primary" : "secondary"}
+                  size="small"
+                  onClick={() => setLocalFixtureMode(mode)}
+                  disabled={mode === "replay" && !replayFixture}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+
+            {fixtureMode === "record" && (
+              <div className={s.fixtureActions}>
+                <span className={s.fixtureInfo}>
+                  {recorded.length >= MAX_RECORDED_ENTRIES
+                    ? `${recorded.length} calls recorded, limit reached`
+                    : `${recorded.length} calls recorded`}
+                </span>
+                <Button
+                  variant="secondary"
+                  size="small"
+                  icon="hugeicons:download-04"
+                  onClick={handleDownloadFixture}
+                >
+                  Download
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="small"
+                  icon="hugeicons:delete-02"
+                  onClick={clearRecorded}
+                >
+                  Clear
+                </Button>
+              </div>
+            )}
+
+            <div className={s.fixtureActions}>
+              <span className={s.fixtureInfo}>
+                {replayFixture
+                  ? `Replay fixture: ${
+                      replayFixture.entries.length
+                    } calls captured on ${new Date(
+                      replayFixture.createdAt
+                    ).toLocaleString()}`
+                  : (replayFixtureError ?? "No replay fixture loaded")}
+              </span>
+              <label className={s.fixtureUpload}>
+                Load fixture
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  onChange={(e) => {
+                    handleLoadFixture(e.target.files?.[0])
+                    e.target.value = ""
+                  }}
+                />
+              </label>
+            </div>
+          </div>
+        )}
+
         {isConnected && (
           <div className={s.section}>
             <h3 className={s.sectionTitle}>Wallet Management</h3>
@@ -0,0 +1,153 @@
+"use client"
+
+import { useQuery } from "@tanstack/react-query"
+import { useAccount } from "wagmi"
+import { Button } from "@/components/button"
+import { Message } from "@/components/message"
+import { Modal } from "@/components/modal"
+import { getChainConfig } from "@/config/chain-config"
+import { useValidators } from "@/hooks/useValidators"
+import { truncateAddress } from "@/lib/utils"
+import { formatNumber } from "@/lib/utils/number"
+import { useTransactionPreviewStore } from "@/stores/transaction-preview"
+import { TransactionPreview as Preview } from "@/types/transaction-preview"
+import { fetchCGTokenData } from "@/utils/price"
+import s from "./transaction-preview.module.scss"
+
+// Long arguments like descriptions or logos are cut in the preview
+const MAX_ARGUMENT_LENGTH = 160
+
+const PreviewContent = ({ preview }: { preview: Preview }) => {
+  const { address } = useAccount()
+  const { validators } = useValidators()
+  const { confirm, reject } = useTransactionPreviewStore()
+  const symbol = preview.feeSymbol.toLowerCase()
+
+  const qPrice = useQuery({
+    queryKey: ["tokenData", [symbol]],
+    queryFn: () => fetchCGTokenData([symbol]),
+    retry: false
+  })
+
+  const price = qPrice.data?.[symbol]?.price
+  const chainName =
+    getChainConfig(preview.chainId)?.name ?? `Chain ${preview.chainId}`
+
+  // Names the accounts a user knows: their own and the validators
+  const labelOf = (account: string) => {
+    if (address && account.toLowerCase() === address.toLowerCase()) {
+      return "Your wallet"
+    }
+    return validators.find(
+      (validator) =>
+        validator.validatorAddress.toLowerCase() === account.toLowerCase()
+    )?.moniker
+  }
+
+  return (
+    <>
+      <dl className={s.summary}>
+        <div>
+          <dt>Network</dt>
+          <dd>{chainName}</dd>
+        </div>
+        <div>
+          <dt>Contract</dt>
+          <dd>
+            {preview.contractName}{" "}
+            <span className={s.address} title={preview.contractAddress}>
+              {truncateAddress(preview.contractAddress)}
+            </span>
+          </dd>
+        </div>
+        <div>
+          <dt>Function</dt>
+          <dd className={s.function}>{preview.functionName}</dd>
+        </div>
+      </dl>
+
+      {preview.args.length > 0 && (
+        <dl className={s.args}>
+          {preview.args.map((arg) => {
+            const label = arg.address ? labelOf(arg.address) : undefined
+            const value =
+              arg.value.length > MAX_ARGUMENT_LENGTH
+                ? `${arg.value.slice(0, MAX_ARGUMENT_LENGTH)}…`
+                : arg.value
+
+            return (
+              <div key={arg.name}>
+                <dt>
+                  {arg.name} <span className={s.type}>{arg.type}</span>
+                </dt>
+                <dd title={arg.value}>
+                  {label && <strong className={s.label}>{label}</strong>}
+                  {value}
+                </dd>
+              </div>
+            )
+          })}
+        </dl>
+      )}
+
+      <dl className={s.summary}>
+        {preview.value && (
+          <div>
+            <dt>Value sent</dt>
+            <dd>{preview.value}</dd>
+          </div>
+        )}
+        <div>
+          <dt>Max network fee</dt>
+          <dd>
+            {formatNumber(Number(preview.fee), 6)} {preview.feeSymbol}
+            {price !== undefined && (
+              <span className={s.usd}>
+                ≈ ${formatNumber(Number(preview.fee) * price, 4)}
+              </span>
+            )}
+          </dd>
+        </div>
+        <div>
+          <dt>Gas limit</dt>
+          <dd>{preview.gasLimit.toString()}</dd>
+        </div>
+      </dl>
+
+      <Message title="Simulation" variant="success">
+        {preview.simulation}
+      </Message>
+
+      <div className={s.actions}>
+        <Button variant="secondary" onClick={reject}>
+          Cancel
+        </Button>
+        <Button icon="hugeicons:pen-tool-03" onClick={confirm}>
+          Confirm and sign
+        </Button>
+      </div>
+    </>
+  )
+}
+
+/**
+ * Shows the decoded transaction the wallet is about to sign and waits for
+ * the user to confirm it, see useTransactionExecutor
+ */
+export const TransactionPreview = () => {
+  const preview = useTransactionPreviewStore((state) => state.preview)
+  const reject = useTransactionPreviewStore((state) => state.reject)
+
+  return (
+    <Modal
+      title="Review transaction"
+      open={!!preview}
+      onClose={reject}
+      responsiveBottom
+    >
+      {preview && <PreviewContent preview={preview} />}
+    </Modal>
+  )
+}
+
+export default TransactionPreview
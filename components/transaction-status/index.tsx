@@ -0,0 +1,78 @@
+import { Icon } from "../icon"
+import { Message } from "../message"
+import { toFeedback } from "@/hooks/useTransactionExecutor"
+import {
+  TransactionStatus as Status,
+  TransactionStep
+} from "@/types/transaction-status"
+import s from "./transaction-status.module.scss"
+
+interface TransactionStatusProps
+  extends Omit<React.HTMLAttributes<HTMLDivElement>, "title"> {
+  title: string
+  status: Status
+}
+
+const STEPS: { step: TransactionStep; label: string }[] = [
+  { step: "simulating", label: "Simulation" },
+  { step: "estimating", label: "Gas estimation" },
+  { step: "reviewing", label: "Review" },
+  { step: "signing", label: "Signature" },
+  { step: "confirming", label: "Confirmation" }
+]
+
+const ORDER: TransactionStep[] = [
+  "idle",
+  "switching-chain",
+  ...STEPS.map(({ step }) => step),
+  "success"
+]
+
+export const TransactionStatus = ({
+  title,
+  status,
+  ...props
+}: TransactionStatusProps) => {
+  if (status.step === "idle") return null
+
+  const feedback = toFeedback(status)
+  const current = ORDER.indexOf(status.step)
+  const showSteps = status.step !== "error" && status.step !== "success"
+
+  return (
+    <Message {...props} title={title} variant={feedback.status}>
+      {showSteps && (
+        <ol className={s.steps}>
+          {STEPS.map(({ step, label }) => {
+            const position = ORDER.indexOf(step)
+            const state =
+              position < current
+                ? "done"
+                : position === current
+                  ? "active"
+                  : "pending"
+
+            return (
+              <li key={step} className={s.step} data-state={state}>
+                <Icon
+                  icon={
+                    state === "done"
+                      ? "hugeicons:checkmark-circle-02"
+                      : state === "active"
+                        ? "svg-spinners:6-dots-rotate"
+                        : "hugeicons:circle"
+                  }
+                />
+                {label}
+                {step === "confirming" &&
+                  (status.requiredConfirmations ?? 1) > 1 &&
+                  ` (${status.confirmations ?? 0}/${status.requiredConfirmations})`}
+              </li>
+            )
+          })}
+        </ol>
+      )}
+      {feedback.message}
+    </Message>
+  )
+}
@@ -15,7 +15,9 @@ export const TransactionsLine = (transaction: TransactionLight) => {
   const isCosmosHash = !transaction.hash?.startsWith("0x")
   let explorerLink = !isCosmosHash ? EXPLORER_URL + "/tx/" + transaction.hash : undefined
 
-  if (transaction.chainId && transaction.type === "BRIDGE_OUT" && transaction.hash) {
+  if (transaction.explorerUrl !== undefined) {
+    explorerLink = transaction.explorerUrl ?? undefined
+  } else if (transaction.chainId && transaction.type === "BRIDGE_OUT" && transaction.hash) {
     const chainConfig = getChainConfig(transaction.chainId)
     explorerLink = chainConfig ? `${chainConfig.explorerUrl}/tx/${transaction.hash}` : undefined
   } else if (transaction.type === "BRIDGE_IN" && transaction.hash) {
@@ -77,6 +79,15 @@ export const TransactionsLine = (transaction: TransactionLight) => {
         )}
       </TableCell>
       <TableCell align="right" className={s.cellRight}>
+        {transaction.href && (
+          <Button
+            icon="hugeicons:view"
+            variant="secondary"
+            border
+            href={transaction.href}
+            title="Details"
+          />
+        )}
         {explorerLink && <Button
           icon="hugeicons:link-square-02"
           variant="secondary"
@@ -19,6 +19,18 @@ export const HELIOS_NETWORK_ID = 42000
 export const RPC_URL = "RPC_URL" // This will be replaced dynamically at runtime
 export const RPC_URL_DEFAULT = "https://testnet1.helioschainlabs.org"
 export const RPC_URL_OLD = "https://helios.ethereum.rpc.sotatek.works"
+// Helios RPC endpoints in order of preference, used for failover.
+// Can be overridden with a comma separated NEXT_PUBLIC_RPC_URLS list.
+export const RPC_ENDPOINTS = env.NEXT_PUBLIC_RPC_URLS
+  ? env.NEXT_PUBLIC_RPC_URLS.split(",")
+      .map((url) => url.trim())
+      .filter(Boolean)
+  : [RPC_URL_DEFAULT]
+// Route the browser RPC traffic through the portal proxy (app/api/rpc)
+export const RPC_PROXY_ENABLED = env.NEXT_PUBLIC_RPC_PROXY === "on"
+export const RPC_PROXY_PATH = "/api/rpc"
+// Optional WebSocket endpoint for live subscriptions, polling is used without it
+export const RPC_WS_URL = env.NEXT_PUBLIC_RPC_WS_URL ?? null
 export const CDN_URL = "https://testnet1-cdn.helioschainlabs.org"
 export const EXPLORER_URL = "https://explorer.helioschainlabs.org"
 
@@ -1,10 +1,12 @@
 export const routes = {
   dashboard: "/",
   bridge: "/bridge",
+  bridgeHistory: "/bridge/history",
   validators: "/validators",
   delegations: "/delegations",
   governance: "/governance",
-  tokenDeployer: "/token-deployer"
+  tokenDeployer: "/token-deployer",
+  approvals: "/approvals"
 }
 
 export default routes
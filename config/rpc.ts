@@ -1,6 +1,7 @@
 "use client"
 
 import { useAppStore } from "@/stores/app"
+import { RPC_ENDPOINTS, RPC_PROXY_ENABLED, RPC_PROXY_PATH } from "./app"
 
 // Default RPC URL as fallback
 const DEFAULT_RPC_URL = "https://testnet1.helioschainlabs.org"
@@ -41,6 +42,21 @@ export const getRpcUrl = () => {
   }
 }
 
+// Function to get every Helios RPC endpoint, the preferred one first
+export const getRpcEndpoints = (): string[] => {
+  const rpcUrl = getRpcUrl()
+
+  // A debug-mode override (mock server, local node) is the only endpoint,
+  // failing over to the public ones would mix their answers with its own
+  if (rpcUrl !== DEFAULT_RPC_URL) return [rpcUrl]
+
+  if (RPC_PROXY_ENABLED) {
+    return [`${window.location.origin}${RPC_PROXY_PATH}`]
+  }
+
+  return [...new Set([rpcUrl, ...RPC_ENDPOINTS])]
+}
+
 // React hook to get the RPC URL
 export const useRpcUrl = () => {
   const { debugMode, rpcUrl, hasHydrated } = useAppStore()
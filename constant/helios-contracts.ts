@@ -237,7 +237,7 @@ export const erc20Abi = [
     name: "Transfer",
     type: "event"
   }
-]
+] as const
 
 export const precompileAbi = [
   {
@@ -256,7 +256,7 @@ export const precompileAbi = [
     stateMutability: "nonpayable",
     type: "function"
   }
-]
+] as const
 export const proposalAbi = [
   {
     inputs: [
@@ -286,7 +286,7 @@ export const proposalAbi = [
     stateMutability: "nonpayable",
     type: "function"
   }
-]
+] as const
 
 export const voteAbi = [
   {
@@ -301,7 +301,32 @@ export const voteAbi = [
     stateMutability: "nonpayable",
     type: "function"
   }
-]
+] as const
+
+export const hyperionProposalAbi = [
+  {
+    inputs: [
+      { internalType: "string", name: "title", type: "string" },
+      { internalType: "string", name: "description", type: "string" },
+      { internalType: "string", name: "msg", type: "string" },
+      {
+        internalType: "uint256",
+        name: "initialDepositAmount",
+        type: "uint256"
+      }
+    ],
+    name: "hyperionProposal",
+    outputs: [{ internalType: "uint64", name: "proposalId", type: "uint64" }],
+    stateMutability: "payable",
+    type: "function"
+  }
+] as const
+
+export const governanceAbi = [
+  ...proposalAbi,
+  ...voteAbi,
+  ...hyperionProposalAbi
+] as const
 
 export const stakingAbi = [
   {
@@ -328,7 +353,7 @@ export const stakingAbi = [
     stateMutability: "nonpayable",
     type: "function"
   }
-]
+] as const
 export const delegateAbi = [
   {
     inputs: [
@@ -398,7 +423,7 @@ export const delegateAbi = [
     stateMutability: "nonpayable",
     type: "function"
   }
-]
+] as const
 export const claimAllRewardsAbi = [
   {
     inputs: [
@@ -424,7 +449,7 @@ export const claimAllRewardsAbi = [
     stateMutability: "nonpayable",
     type: "function"
   }
-]
+] as const
 export const withdrawDelegatorRewardsAbi = [
   {
     inputs: [
@@ -462,7 +487,7 @@ export const withdrawDelegatorRewardsAbi = [
     stateMutability: "nonpayable",
     type: "function"
   }
-]
+] as const
 export const bridgeSendToChainAbi = [
   // Hyperion
   {
@@ -567,7 +592,7 @@ export const bridgeSendToChainAbi = [
     stateMutability: "nonpayable",
     type: "function"
   }
-]
+] as const
 
 export const bridgeSendToHeliosAbi = [
   {
@@ -1352,7 +1377,7 @@ export const bridgeSendToHeliosAbi = [
     stateMutability: "nonpayable",
     type: "function"
   }
-]
+] as const
 
 export const wrapperAbi = [
   {
@@ -1484,4 +1509,4 @@ export const wrapperAbi = [
     type: "function"
   },
   { stateMutability: "payable", type: "receive" }
-]
+] as const
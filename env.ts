@@ -6,7 +6,9 @@ export const env = createEnv({
    * Serverside Environment variables, not available on the client.
    * Will throw if you access these variables on the client.
    */
-  server: {},
+  server: {
+    RPC_PROXY_UPSTREAM_URLS: z.string().optional()
+  },
   /*
    * Environment variables available on the client (and server).
    *
@@ -16,7 +18,11 @@ export const env = createEnv({
     NEXT_PUBLIC_NODE_ENV: z.enum(["development", "production", "test"]),
     NEXT_PUBLIC_BASE_URL: z.string().url().default("http://localhost:3000"),
     NEXT_PUBLIC_INFURA_KEY: z.string(),
-    NEXT_PUBLIC_PROJECT_ID: z.string()
+    NEXT_PUBLIC_PROJECT_ID: z.string(),
+    NEXT_PUBLIC_RPC_URLS: z.string().optional(),
+    NEXT_PUBLIC_RPC_VALIDATION: z.enum(["strict", "tolerant", "off"]).optional(),
+    NEXT_PUBLIC_RPC_WS_URL: z.string().url().optional(),
+    NEXT_PUBLIC_RPC_PROXY: z.enum(["on", "off"]).optional()
   },
   /*
    * Due to how Next.js bundles environment variables on Edge and Client,
@@ -28,6 +34,11 @@ export const env = createEnv({
     NEXT_PUBLIC_NODE_ENV: process.env.NEXT_PUBLIC_NODE_ENV,
     NEXT_PUBLIC_BASE_URL: process.env.NEXT_PUBLIC_BASE_URL,
     NEXT_PUBLIC_INFURA_KEY: process.env.NEXT_PUBLIC_INFURA_KEY,
-    NEXT_PUBLIC_PROJECT_ID: process.env.NEXT_PUBLIC_PROJECT_ID
+    NEXT_PUBLIC_PROJECT_ID: process.env.NEXT_PUBLIC_PROJECT_ID,
+    NEXT_PUBLIC_RPC_URLS: process.env.NEXT_PUBLIC_RPC_URLS,
+    NEXT_PUBLIC_RPC_VALIDATION: process.env.NEXT_PUBLIC_RPC_VALIDATION,
+    NEXT_PUBLIC_RPC_WS_URL: process.env.NEXT_PUBLIC_RPC_WS_URL,
+    NEXT_PUBLIC_RPC_PROXY: process.env.NEXT_PUBLIC_RPC_PROXY,
+    RPC_PROXY_UPSTREAM_URLS: process.env.RPC_PROXY_UPSTREAM_URLS
   }
 })
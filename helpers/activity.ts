@@ -0,0 +1,136 @@
+import { Hex, TransactionReceipt } from "viem"
+import Web3 from "web3"
+import { getChainConfig } from "@/config/chain-config"
+import {
+  Activity,
+  ActivityStatus,
+  selectActivity,
+  useActivityStore
+} from "@/stores/activity"
+import {
+  TransactionDroppedError,
+  TransactionReplacedError,
+  TransactionTimeoutError,
+  toPortalError
+} from "./errors"
+import { WaitForTransactionOptions, waitForTransaction } from "./transactions"
+
+// The speed-up or cancellation sent from the activity center as `hash`
+const findAttempt = (hash: string) =>
+  selectActivity(useActivityStore.getState().activities, hash)?.attempts?.find(
+    (attempt) => attempt.hash === hash
+  )
+
+// Hashes whose confirmation is being awaited in this tab
+const watching = new Set<string>()
+
+/**
+ * Builds the explorer link of a transaction
+ * @param chainId The chain the transaction was sent on
+ * @param hash The transaction hash
+ */
+export function getExplorerTxUrl(chainId: number, hash: string) {
+  const chainConfig = getChainConfig(chainId)
+  return chainConfig ? `${chainConfig.explorerUrl}/tx/${hash}` : null
+}
+
+/**
+ * Creates a read-only provider for a chain, to follow transactions without
+ * the wallet being connected to that chain
+ * @param chainId The chain
+ */
+export function getChainProvider(chainId: number): Web3 | null {
+  const rpcUrl = getChainConfig(chainId)?.rpcUrl
+  return rpcUrl ? new Web3(rpcUrl) : null
+}
+
+const statusOfError = (error: unknown): ActivityStatus =>
+  error instanceof TransactionDroppedError
+    ? "dropped"
+    : error instanceof TransactionReplacedError
+      ? error.reason === "cancelled"
+        ? "cancelled"
+        : "replaced"
+      : error instanceof TransactionTimeoutError
+        ? "timeout"
+        : "failed"
+
+/**
+ * Tells whether the confirmation of a transaction is already awaited
+ * @param hash The transaction hash
+ */
+export const isWatchingTransaction = (hash: string) => watching.has(hash)
+
+/**
+ * Waits for the confirmation of a recorded transaction and keeps its
+ * activity entry up to date
+ * @param web3 A provider of the chain the transaction was sent on
+ * @param activity The recorded activity
+ * @param options Confirmations, timeout and progress callbacks
+ * @returns The transaction receipt
+ */
+export async function watchActivity(
+  web3: Web3,
+  activity: Pick<Activity, "hash" | "chainId">,
+  options: WaitForTransactionOptions = {}
+): Promise<TransactionReceipt> {
+  const { updateActivity } = useActivityStore.getState()
+  let hash = activity.hash
+  watching.add(hash)
+
+  try {
+    const receipt = await waitForTransaction(web3, hash as Hex, {
+      ...options,
+      onReplaced: (replacement) => {
+        // A sped up transaction keeps its entry under the new hash
+        updateActivity(hash, {
+          hash: replacement,
+          explorerUrl: getExplorerTxUrl(activity.chainId, replacement)
+        })
+        watching.delete(hash)
+        hash = replacement
+        watching.add(hash)
+        options.onReplaced?.(replacement)
+      }
+    })
+
+    updateActivity(hash, {
+      status: findAttempt(hash)?.kind === "cancel" ? "cancelled" : "confirmed",
+      blockNumber: receipt.blockNumber.toString()
+    })
+    return receipt
+  } catch (error) {
+    const portalError = toPortalError(error)
+    const replacement =
+      portalError instanceof TransactionReplacedError
+        ? portalError.replacementHash
+        : null
+
+    // An earlier attempt for the same call was mined instead of the one
+    // watched, its receipt tells whether the call went through
+    const minedAttempt = replacement ? findAttempt(replacement) : undefined
+    if (replacement && minedAttempt && minedAttempt.kind !== "cancel") {
+      updateActivity(hash, {
+        hash: replacement,
+        explorerUrl: getExplorerTxUrl(activity.chainId, replacement)
+      })
+      return watchActivity(
+        web3,
+        { hash: replacement, chainId: activity.chainId },
+        options
+      )
+    }
+
+    updateActivity(hash, {
+      status: statusOfError(portalError),
+      error: portalError.message,
+      replacedBy:
+        portalError instanceof TransactionReplacedError
+          ? (portalError.replacementHash ?? undefined)
+          : undefined
+    })
+    throw portalError
+  } finally {
+    watching.delete(hash)
+  }
+}
@@ -0,0 +1,81 @@
+import { HyperionChain } from "@/types/hyperion"
+import { getAddress, isAddress } from "viem"
+import { getChainProvider } from "./activity"
+
+export interface AddressValidation {
+  // The address to send to, checksummed when the chain type has one
+  address: string | null
+  error: string | null
+  // Set when the chain type has no validator, the address is sent as typed
+  unchecked: boolean
+}
+
+type AddressValidator = (value: string) => AddressValidation
+
+const valid = (address: string): AddressValidation => ({
+  address,
+  error: null,
+  unchecked: false
+})
+
+const invalid = (error: string): AddressValidation => ({
+  address: null,
+  error,
+  unchecked: false
+})
+
+// An all lowercase or all uppercase address carries no checksum
+const hasChecksum = (value: string) =>
+  /[a-f]/.test(value.slice(2)) && /[A-F]/.test(value.slice(2))
+
+const validateEvmAddress: AddressValidator = (value) => {
+  if (!isAddress(value, { strict: false })) {
+    return invalid("Not a valid address, expected 0x and 40 hex characters.")
+  }
+  if (hasChecksum(value) && !isAddress(value, { strict: true })) {
+    return invalid("The address checksum does not match, check for a typo.")
+  }
+  return valid(getAddress(value))
+}
+
+// Validators by HyperionChain.chainType
+const ADDRESS_VALIDATORS: Record<string, AddressValidator> = {
+  evm: validateEvmAddress
+}
+
+/**
+ * Validates a destination address for the type of the destination chain.
+ * Chain types without a validator accept any address but are flagged so
+ * the form can ask for a double check.
+ * @param value The address as typed
+ * @param chain The destination chain
+ */
+export function validateDestinationAddress(
+  value: string,
+  chain: Pick<HyperionChain, "chainType">
+): AddressValidation {
+  const address = value.trim()
+  if (!address) return invalid("Enter the address that receives the tokens.")
+
+  const validator = ADDRESS_VALIDATORS[chain.chainType.toLowerCase()]
+  if (!validator) return { address, error: null, unchecked: true }
+  return validator(address)
+}
+
+/**
+ * Tells whether an address holds code on a chain. A contract may not be
+ * able to move the tokens it receives.
+ * @param chainId The chain
+ * @param address The address
+ * @returns False when the chain cannot be reached
+ */
+export async function isContractAddress(
+  chainId: number,
+  address: string
+): Promise<boolean> {
+  const web3 = getChainProvider(chainId)
+  if (!web3) return false
+
+  const code = await web3.eth.getCode(address).catch(() => "0x")
+  return !!code && code !== "0x"
+}
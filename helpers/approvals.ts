@@ -0,0 +1,121 @@
+import { Address, maxUint256 } from "viem"
+import { getChainConfig } from "@/config/chain-config"
+import { HyperionChain } from "@/types/hyperion"
+import { TokenDenom } from "@/types/denom"
+import { getChainProvider } from "./activity"
+import { contracts, readContract } from "./contracts"
+import { fetchAllPages, tokensByChainPages } from "./paginate"
+
+// Allowances above this are shown as unlimited, some tokens lower a max
+// allowance a little on every transfer
+const UNLIMITED_THRESHOLD = maxUint256 / 2n
+
+// A contract allowed to move the tokens of the account on one chain
+export interface BridgeSpender {
+  chainId: number
+  chainName: string
+  address: string
+}
+
+export interface TokenAllowance {
+  chainId: number
+  chainName: string
+  token: string
+  symbol: string
+  decimals: number
+  spender: string
+  amount: bigint
+}
+
+/**
+ * Gets the bridge contracts that receive approvals: the Hyperion module on
+ * Helios and the Hyperion contract of every other chain
+ * @param chains The chains connected by the bridge
+ * @param heliosChainId The chain ID of Helios
+ */
+export function getBridgeSpenders(
+  chains: HyperionChain[],
+  heliosChainId: number
+): BridgeSpender[] {
+  return chains
+    .map((chain) => ({
+      chainId: chain.chainId,
+      chainName: chain.name,
+      address:
+        chain.chainId === heliosChainId
+          ? contracts.bridge.address
+          : chain.hyperionContractAddress
+    }))
+    .filter((spender) => !!spender.address)
+}
+
+/**
+ * Tells whether an allowance is a max approval
+ * @param amount The allowance
+ */
+export const isUnlimitedAllowance = (amount: bigint) =>
+  amount >= UNLIMITED_THRESHOLD
+
+// Address of a bridgeable token on the chain its list was fetched for
+const tokenAddressOn = (token: TokenDenom, chainId: number) =>
+  token.metadata.chainsMetadatas?.find((item) => item.chainId === chainId)
+    ?.contractAddress ?? token.metadata.contract_address
+
+/**
+ * Reads the allowances an account granted to a bridge contract for every
+ * token bridgeable from its chain. Tokens that fail to answer are skipped.
+ * @param owner The account
+ * @param spender The bridge contract and its chain
+ * @returns The allowances above zero
+ */
+export async function fetchBridgeAllowances(
+  owner: string,
+  spender: BridgeSpender
+): Promise<TokenAllowance[]> {
+  const web3 = getChainProvider(spender.chainId)
+  if (!web3) return []
+
+  const tokens = await fetchAllPages(tokensByChainPages(spender.chainId))
+  const addresses = [
+    ...new Set(
+      tokens
+        .map((token) => tokenAddressOn(token, spender.chainId))
+        .filter((address) => address?.startsWith("0x"))
+        .map((address) => address.toLowerCase())
+    )
+  ]
+
+  const allowances = await Promise.all(
+    addresses.map(async (address): Promise<TokenAllowance | null> => {
+      const read = { ...contracts.erc20, address }
+      try {
+        const amount = await readContract(web3, {
+          ...read,
+          functionName: "allowance",
+          args: [owner as Address, spender.address as Address]
+        })
+        if (amount === 0n) return null
+
+        const [symbol, decimals] = await Promise.all([
+          readContract(web3, { ...read, functionName: "symbol", args: [] }),
+          readContract(web3, { ...read, functionName: "decimals", args: [] })
+        ])
+
+        return {
+          chainId: spender.chainId,
+          chainName:
+            getChainConfig(spender.chainId)?.name ?? spender.chainName,
+          token: address,
+          symbol,
+          decimals: Number(decimals),
+          spender: spender.address,
+          amount
+        }
+      } catch {
+        return null
+      }
+    })
+  )
+
+  return allowances.filter((item) => item !== null)
+}
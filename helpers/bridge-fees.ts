@@ -0,0 +1,175 @@
+import { HyperionChain, ValidatorHyperionData } from "@/types/hyperion"
+import {
+  BridgeFeeQuote,
+  BridgeFeeQuotes,
+  BridgeFeeTier,
+  BridgeFeeToken
+} from "@/types/bridge-fee"
+import { FEE_HISTORY_BLOCKS } from "@/utils/gas"
+import { getChainProvider } from "./activity"
+import { fetchAllPages, validatorsPages } from "./paginate"
+import { getValidatorHyperionData } from "./rpc-calls"
+
+// Status of a bonded validator, only those run an orchestrator
+const BONDED_STATUS = 3
+
+// Highest multiplier applied when the destination chain is congested
+const MAX_CONGESTION = 3
+
+export const BRIDGE_FEE_TIERS: BridgeFeeTier[] = [
+  "low",
+  "standard",
+  "priority"
+]
+
+// Minimum fees orchestrators set for one chain, in the bridged token base unit
+export interface HyperionFeeMinimums {
+  txFees: bigint[]
+  batchFees: bigint[]
+}
+
+const median = (values: bigint[]) => {
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+const max = (values: bigint[]) => values.reduce((a, b) => (a > b ? a : b))
+
+/**
+ * Gathers the minimum transaction and batch fees every orchestrator
+ * requires for a chain. x/hyperion compares them with the `erc20_fee` of
+ * each outgoing transfer, an amount of the bridged token, so they are
+ * already in its base unit.
+ * @param data The Hyperion data of each validator
+ * @param hyperionId The Hyperion ID of the chain
+ */
+export function collectFeeMinimums(
+  data: ValidatorHyperionData[],
+  hyperionId: number
+): HyperionFeeMinimums {
+  const entries = data
+    .flatMap((item) => item.orchestrator_hyperion_data)
+    .filter((item) => item.hyperion_id === hyperionId)
+
+  return {
+    txFees: entries.map((item) => BigInt(item.minimum_tx_fee)),
+    batchFees: entries.map((item) => BigInt(item.minimum_batch_fee))
+  }
+}
+
+/**
+ * Gets the Hyperion data of the bonded validators, only those run an
+ * orchestrator. Validators that fail to answer are left out.
+ */
+export async function getOrchestratorsHyperionData(): Promise<
+  ValidatorHyperionData[]
+> {
+  const validators = (await fetchAllPages(validatorsPages)).filter(
+    (validator) => validator.status === BONDED_STATUS && !validator.jailed
+  )
+  const results = await Promise.allSettled(
+    validators.map((validator) =>
+      getValidatorHyperionData(validator.validatorAddress)
+    )
+  )
+
+  return results.flatMap((result) =>
+    result.status === "fulfilled" && result.value ? [result.value] : []
+  )
+}
+
+/**
+ * Computes the fee tiers of a route. Low pays the lowest minimum an
+ * orchestrator accepts, standard the median one and priority enough to
+ * fill a batch alone. Standard and priority follow the destination
+ * congestion.
+ * @param minimums The minimum fees of the orchestrators
+ * @param congestion The congestion multiplier of the destination chain
+ * @returns The amount of each tier, null without orchestrator data
+ */
+export function computeBridgeFeeTiers(
+  { txFees, batchFees }: HyperionFeeMinimums,
+  congestion: number
+): Record<BridgeFeeTier, bigint> | null {
+  if (txFees.length === 0) return null
+
+  const multiplier = BigInt(Math.round(congestion * 100))
+  const low = txFees.reduce((a, b) => (a < b ? a : b))
+  const standard = (median(txFees) * multiplier) / 100n
+  const batchFee = batchFees.length ? median(batchFees) : 0n
+  const priority = (max([max(txFees), batchFee]) * multiplier) / 100n
+
+  return {
+    low,
+    standard: max([standard, low]),
+    priority: max([priority, standard, low])
+  }
+}
+
+/**
+ * Measures how congested a chain is from the base fee of its next block
+ * compared to the median of recent blocks. Chains without a base fee or
+ * that fail to answer count as calm.
+ * @param chainId The chain
+ * @returns A multiplier between 1 and MAX_CONGESTION
+ */
+export async function getCongestion(chainId: number): Promise<number> {
+  const web3 = getChainProvider(chainId)
+  if (!web3) return 1
+
+  try {
+    const history = await web3.eth.getFeeHistory(
+      FEE_HISTORY_BLOCKS,
+      "latest",
+      []
+    )
+    const baseFees = history.baseFeePerGas.map((fee) => BigInt(fee))
+    const next = baseFees.at(-1)
+    const recent = median(baseFees.slice(0, -1))
+    if (!next || !recent) return 1
+
+    const ratio = Number((next * 100n) / recent) / 100
+    return Math.min(Math.max(ratio, 1), MAX_CONGESTION)
+  } catch {
+    return 1
+  }
+}
+
+/**
+ * Quotes the fee tiers of a transfer from Helios to a chain, from the
+ * minimum fees of the bonded orchestrators and the congestion of the chain.
+ * The fee is taken from the bridged token, so it is quoted in its units.
+ * @param chain The destination chain
+ * @param token The bridged token
+ * @param data The Hyperion data of the orchestrators
+ */
+export async function quoteBridgeFees(
+  chain: HyperionChain,
+  token: BridgeFeeToken,
+  data: ValidatorHyperionData[]
+): Promise<BridgeFeeQuotes> {
+  const congestion = await getCongestion(chain.chainId)
+  const amounts = computeBridgeFeeTiers(
+    collectFeeMinimums(data, chain.hyperionId),
+    congestion
+  )
+  if (!amounts) throw new Error(`No orchestrator relays to ${chain.name}`)
+
+  const quote = (tier: BridgeFeeTier): BridgeFeeQuote => ({
+    tier,
+    amount: amounts[tier],
+    token: token.address,
+    decimals: token.decimals,
+    symbol: token.symbol
+  })
+
+  return {
+    hyperionId: chain.hyperionId,
+    tiers: {
+      low: quote("low"),
+      standard: quote("standard"),
+      priority: quote("priority")
+    },
+    congestion
+  }
+}
@@ -0,0 +1,203 @@
+import { HELIOS_NETWORK_ID } from "@/config/app"
+import { HyperionBridgeTx } from "@/types/hyperion"
+import { BridgeTransferState } from "@/types/bridge-transfer"
+import { formatUnits } from "viem"
+import { getBridgeTransferState, getTransferHashes } from "./bridge-lifecycle"
+
+export type BridgeHistoryFormat = "csv" | "json"
+
+export interface BridgeHistoryFilters {
+  direction: "all" | "IN" | "OUT"
+  chainId: number | null
+  // Address of the token on Helios
+  token: string | null
+  status: "all" | BridgeTransferState
+  // Dates as yyyy-mm-dd, both included
+  from: string
+  to: string
+}
+
+export const DEFAULT_BRIDGE_HISTORY_FILTERS: BridgeHistoryFilters = {
+  direction: "all",
+  chainId: null,
+  token: null,
+  status: "all",
+  from: "",
+  to: ""
+}
+
+export interface BridgeHistoryToken {
+  address: string
+  symbol: string
+  decimals: number
+}
+
+// A transfer with what the history shows next to it
+export interface BridgeHistoryEntry {
+  transfer: HyperionBridgeTx
+  state: BridgeTransferState
+  chainName: string
+  token: BridgeHistoryToken | null
+  // Time of the Helios block the transfer was indexed at, in milliseconds
+  timestamp: number | null
+}
+
+/**
+ * Gets the Helios address of the token a transfer moved
+ * @param tx The transfer
+ */
+export const getTransferTokenAddress = (tx: HyperionBridgeTx) =>
+  (tx.direction === "IN"
+    ? tx.receivedToken.contract
+    : tx.sentToken.contract
+  )?.toLowerCase() ?? null
+
+/**
+ * Gets the amount of a transfer, received on Helios for deposits and sent
+ * from Helios for withdrawals
+ * @param tx The transfer
+ */
+export const getTransferAmount = (tx: HyperionBridgeTx) =>
+  tx.direction === "IN" ? tx.receivedToken.amount : tx.sentToken.amount
+
+// Start and end of the day of a yyyy-mm-dd date, in local time
+const dayStart = (date: string) => new Date(`${date}T00:00:00`).getTime()
+const dayEnd = (date: string) => new Date(`${date}T23:59:59.999`).getTime()
+
+/**
+ * Tells whether a history entry passes the filters. Entries without a known
+ * time never pass a date range.
+ * @param entry The entry
+ * @param filters The filters
+ */
+export function matchesBridgeHistoryFilters(
+  entry: BridgeHistoryEntry,
+  { direction, chainId, token, status, from, to }: BridgeHistoryFilters
+): boolean {
+  const { transfer, timestamp } = entry
+
+  if (direction !== "all" && transfer.direction !== direction) return false
+  if (chainId !== null && transfer.chainId !== chainId) return false
+  if (token && getTransferTokenAddress(transfer) !== token.toLowerCase()) {
+    return false
+  }
+  if (status !== "all" && entry.state !== status) return false
+  if ((from || to) && timestamp === null) return false
+  if (from && timestamp! < dayStart(from)) return false
+  if (to && timestamp! > dayEnd(to)) return false
+  return true
+}
+
+/**
+ * Builds the entry of a transfer
+ * @param transfer The transfer
+ * @param chainName The name of the other chain
+ * @param token The token moved, null when unknown
+ * @param timestamp The time of its Helios block
+ */
+export const toBridgeHistoryEntry = (
+  transfer: HyperionBridgeTx,
+  chainName: string,
+  token: BridgeHistoryToken | null,
+  timestamp: number | null
+): BridgeHistoryEntry => ({
+  transfer,
+  state: getBridgeTransferState(transfer.status),
+  chainName,
+  token,
+  timestamp
+})
+
+/**
+ * Flattens an entry into the record exported for accounting, the amount
+ * and the fee in units of the bridged token rather than base units
+ * @param entry The entry
+ */
+export function toBridgeHistoryRecord({
+  transfer,
+  state,
+  chainName,
+  token,
+  timestamp
+}: BridgeHistoryEntry) {
+  const { source, destination } = getTransferHashes(transfer)
+  const isDeposit = transfer.direction === "IN"
+  const fee = isDeposit ? transfer.receivedFee : transfer.sentFee
+  const amount = getTransferAmount(transfer)
+  // Amounts stay in base units when the token is unknown
+  const toUnits = (value: string) =>
+    token ? formatUnits(BigInt(value || "0"), token.decimals) : value
+
+  return {
+    id: transfer.id,
+    hyperionId: transfer.hyperionId,
+    date: timestamp ? new Date(timestamp).toISOString() : "",
+    direction: transfer.direction,
+    fromChainId: isDeposit ? transfer.chainId : HELIOS_NETWORK_ID,
+    toChainId: isDeposit ? HELIOS_NETWORK_ID : transfer.chainId,
+    chain: chainName,
+    status: state,
+    token: token?.symbol ?? "",
+    tokenAddress: getTransferTokenAddress(transfer) ?? "",
+    amount: toUnits(amount),
+    // The fee is taken from the bridged token
+    fee: toUnits(fee.amount),
+    feeToken: token?.symbol ?? "",
+    sender: transfer.sender,
+    destination: transfer.destAddress,
+    sourceTxHash: source.hash ?? "",
+    destinationTxHash: destination.hash ?? "",
+    height: transfer.height
+  }
+}
+
+export type BridgeHistoryRecord = ReturnType<typeof toBridgeHistoryRecord>
+
+// Quotes a CSV value when it holds a separator, a quote or a line break.
+// Text a spreadsheet would read as a formula (token symbols are chosen by
+// anyone) is prefixed with a quote to stay text.
+const toCsvValue = (value: string | number) => {
+  const isFormula = typeof value === "string" && /^[=+\-@\t\r]/.test(value)
+  const text = isFormula ? `'${value}` : String(value)
+  return isFormula || /[",\n\r]/.test(text)
+    ? `"${text.replace(/"/g, '""')}"`
+    : text
+}
+
+/**
+ * Serializes records as CSV, one column per record field
+ * @param records The records
+ */
+export function toCsv(records: BridgeHistoryRecord[]): string {
+  if (records.length === 0) return ""
+  const columns = Object.keys(records[0]) as (keyof BridgeHistoryRecord)[]
+  const lines = records.map((record) =>
+    columns.map((column) => toCsvValue(record[column])).join(",")
+  )
+  return [columns.join(","), ...lines].join("\n")
+}
+
+/**
+ * Downloads the bridge history of an account as a CSV or JSON file
+ * @param entries The entries to export
+ * @param format The file format
+ * @param address The account, used in the file name
+ */
+export function downloadBridgeHistory(
+  entries: BridgeHistoryEntry[],
+  format: BridgeHistoryFormat,
+  address: string
+) {
+  const records = entries.map(toBridgeHistoryRecord)
+  const content =
+    format === "csv" ? toCsv(records) : JSON.stringify(records, null, 2)
+  const blob = new Blob([content], {
+    type: format === "csv" ? "text/csv" : "application/json"
+  })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = `helios-bridge-history-${address.slice(0, 10)}.${format}`
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,259 @@
+import { HELIOS_NETWORK_ID } from "@/config/app"
+import routes from "@/config/routes"
+import { HyperionBridgeTx } from "@/types/hyperion"
+import {
+  BridgeInStage,
+  BridgeOutStage,
+  BridgeStage,
+  BridgeTransferHash,
+  BridgeTransferLifecycle,
+  BridgeTransferState
+} from "@/types/bridge-transfer"
+import { toHex } from "@/utils/number"
+import { isAddress } from "viem"
+import { getExplorerTxUrl } from "./activity"
+import { hyperionAccountTransfersPages, paginateItems } from "./paginate"
+import { getAllHyperionTransferTxs, getBlockByNumber } from "./rpc-calls"
+
+export const BRIDGE_OUT_STAGES: BridgeOutStage[] = [
+  "source-confirmed",
+  "observed",
+  "batched",
+  "executed"
+]
+
+export const BRIDGE_IN_STAGES: BridgeInStage[] = [
+  "source-confirmed",
+  "attested",
+  "minted"
+]
+
+export const BRIDGE_STAGE_LABELS: Record<BridgeStage, string> = {
+  "source-confirmed": "Source transaction confirmed",
+  observed: "Observed by orchestrators",
+  batched: "Added to a batch",
+  executed: "Batch executed on destination",
+  attested: "Attested by orchestrators",
+  minted: "Minted on Helios"
+}
+
+// Pages of the viewer's transfers searched when the link names no account
+const MAX_SEARCHED_PAGES = 5
+
+// Latest transfers of every account searched first
+const LATEST_SEARCHED = 100
+
+/**
+ * Gets the key a Hyperion transfer is tracked under, IDs are per chain
+ * @param tx The transfer
+ */
+export const bridgeTransferKey = (
+  tx: Pick<HyperionBridgeTx, "hyperionId" | "id">
+) => `${tx.hyperionId}:${tx.id}`
+
+/**
+ * Maps the status reported by Hyperion to the state of a transfer
+ * @param status The Hyperion status, such as BRIDGED or FAILED
+ */
+export function getBridgeTransferState(status: string): BridgeTransferState {
+  if (/bridged|complete|success|executed/i.test(status)) return "completed"
+  if (/fail|cancel|refund/i.test(status)) return "failed"
+  return "pending"
+}
+
+// The proof hash of the other chain, empty until Hyperion knows it. Hyperion
+// lists every hash of the proof, the first one is the transfer transaction.
+const proofHash = (tx: HyperionBridgeTx) =>
+  tx.proof?.hashs?.split(",")[0].trim() || null
+
+/**
+ * Lists the stages a transfer went through, from what Hyperion reports:
+ * orchestrators are set once it is observed, the proof hash once a batch
+ * or the deposit is known on the other chain
+ * @param tx The transfer
+ */
+export function getReachedStages(tx: HyperionBridgeTx): BridgeStage[] {
+  const state = getBridgeTransferState(tx.status)
+  const observed = !!tx.proof?.orchestrators || state === "completed"
+
+  if (tx.direction === "IN") {
+    return BRIDGE_IN_STAGES.filter(
+      (stage) =>
+        stage === "source-confirmed" ||
+        (stage === "attested" && observed) ||
+        (stage === "minted" && state === "completed")
+    )
+  }
+
+  const batched =
+    /batch/i.test(tx.status) || !!proofHash(tx) || state === "completed"
+  return BRIDGE_OUT_STAGES.filter(
+    (stage) =>
+      stage === "source-confirmed" ||
+      (stage === "observed" && observed) ||
+      (stage === "batched" && batched) ||
+      (stage === "executed" && state === "completed")
+  )
+}
+
+/**
+ * Gets the transactions of a transfer on both chains. Helios holds the
+ * transaction Hyperion indexed, the proof hash is on the other chain.
+ * @param tx The transfer
+ */
+export function getTransferHashes(tx: HyperionBridgeTx): {
+  source: BridgeTransferHash
+  destination: BridgeTransferHash
+} {
+  const toHash = (chainId: number, hash: string | null) => ({
+    chainId,
+    hash,
+    explorerUrl: hash ? getExplorerTxUrl(chainId, hash) : null
+  })
+  const helios = toHash(HELIOS_NETWORK_ID, tx.txHash || null)
+  const external = toHash(tx.chainId, proofHash(tx))
+
+  return tx.direction === "IN"
+    ? { source: external, destination: helios }
+    : { source: helios, destination: external }
+}
+
+/**
+ * Builds the lifecycle of a transfer shown by the stepper
+ * @param tx The transfer
+ * @param timestamps When each stage was reached, as far as known
+ */
+export function buildBridgeLifecycle(
+  tx: HyperionBridgeTx,
+  timestamps: Partial<Record<BridgeStage, number>> = {}
+): BridgeTransferLifecycle {
+  const direction = tx.direction === "IN" ? "IN" : "OUT"
+  const state = getBridgeTransferState(tx.status)
+  const reached = getReachedStages(tx)
+  const stages: BridgeStage[] =
+    direction === "IN" ? BRIDGE_IN_STAGES : BRIDGE_OUT_STAGES
+
+  const steps = stages.map((stage) => ({
+    stage,
+    label: BRIDGE_STAGE_LABELS[stage],
+    done: reached.includes(stage),
+    timestamp: timestamps[stage]
+  }))
+
+  return {
+    key: bridgeTransferKey(tx),
+    direction,
+    state,
+    steps,
+    current:
+      state === "pending"
+        ? (steps.find((step) => !step.done)?.stage ?? null)
+        : null,
+    ...getTransferHashes(tx)
+  }
+}
+
+/**
+ * Gets the time of the Helios block a transfer was indexed at
+ * @param tx The transfer
+ * @returns The timestamp in milliseconds, null when unknown
+ */
+export async function getTransferBlockTime(
+  tx: HyperionBridgeTx
+): Promise<number | null> {
+  if (!tx.height) return null
+  const block = await getBlockByNumber(toHex(tx.height)).catch(() => null)
+  return block?.timestamp ? Number(block.timestamp) * 1000 : null
+}
+
+/**
+ * Gets the Helios account a transfer is listed under, the sender of a
+ * withdrawal and the destination of a deposit
+ * @param tx The transfer
+ */
+export const getTransferAccount = (
+  tx: Pick<HyperionBridgeTx, "direction" | "sender" | "destAddress">
+) => (tx.direction === "IN" ? tx.destAddress : tx.sender)
+
+/**
+ * Gets the path of the detail page of a transfer. The account is part of
+ * the link so anyone opening it can find the transfer in its history.
+ * @param tx The transfer
+ */
+export const bridgeTransferPath = (
+  tx: Pick<
+    HyperionBridgeTx,
+    "hyperionId" | "id" | "direction" | "sender" | "destAddress"
+  >
+) =>
+  `${routes.bridge}/tx/${tx.hyperionId}-${tx.id}` +
+  `?account=${getTransferAccount(tx)}`
+
+/**
+ * Reads the transfer a detail page is about, from `<hyperionId>-<id>` or a
+ * bare ID matching the transfer of any chain
+ * @param param The route parameter
+ * @param account The account parameter of the link, if any
+ * @returns The query, null when the parameter is not a transfer ID
+ */
+export function parseBridgeTransferParam(
+  param: string,
+  account?: string | null
+): BridgeTransferQuery | null {
+  const match = param.match(/^(?:(\d+)-)?(\d+)$/)
+  if (!match) return null
+
+  return {
+    hyperionId: match[1] !== undefined ? Number(match[1]) : undefined,
+    id: Number(match[2]),
+    account: account && isAddress(account) ? account : undefined
+  }
+}
+
+export interface BridgeTransferQuery {
+  id?: number
+  hyperionId?: number
+  // Hash of the transaction that started the transfer
+  txHash?: string
+  // Account whose transfers list it, from a shared link
+  account?: string
+}
+
+const matchesTransfer =
+  ({ id, hyperionId, txHash }: BridgeTransferQuery) =>
+  (tx: HyperionBridgeTx) =>
+    txHash
+      ? [tx.txHash, ...(tx.proof?.hashs?.split(",") ?? [])].some(
+          (hash) => hash?.trim().toLowerCase() === txHash.toLowerCase()
+        )
+      : tx.id === id &&
+        (hyperionId === undefined || tx.hyperionId === hyperionId)
+
+/**
+ * Finds a Hyperion transfer among the latest ones and the transfers of an
+ * account, there is no RPC method to get one by ID. The whole history of
+ * the account named by the query is searched, only the recent transfers of
+ * the viewer otherwise.
+ * @param query The ID of the transfer or the hash of its transaction
+ * @param viewer The connected account, searched without a query account
+ * @returns The transfer, null when not indexed yet
+ */
+export async function findHyperionTransfer(
+  query: BridgeTransferQuery,
+  viewer?: string
+): Promise<HyperionBridgeTx | null> {
+  const matches = matchesTransfer(query)
+
+  const latest = (await getAllHyperionTransferTxs(LATEST_SEARCHED)) ?? []
+  const found = latest.find(matches)
+  const address = query.account ?? viewer
+  if (found || !address) return found ?? null
+
+  for await (const tx of paginateItems(
+    hyperionAccountTransfersPages(address),
+    { maxPages: query.account ? Infinity : MAX_SEARCHED_PAGES }
+  )) {
+    if (matches(tx)) return tx
+  }
+  return null
+}
@@ -0,0 +1,227 @@
+import {
+  Abi,
+  AbiStateMutability,
+  ContractFunctionArgs,
+  ContractFunctionName,
+  ContractFunctionReturnType,
+  DecodeFunctionResultParameters,
+  EncodeFunctionDataParameters,
+  Hex,
+  decodeFunctionResult,
+  encodeFunctionData
+} from "viem"
+import type Web3 from "web3"
+import {
+  BRIDGE_CONTRACT_ADDRESS,
+  DELEGATE_CONTRACT_ADDRESS,
+  PRECOMPILE_CONTRACT_ADDRESS,
+  PROPOSAL_CONTRACT_ADDRESS,
+  REWARDS_CONTRACT_ADDRESS,
+  bridgeSendToChainAbi,
+  bridgeSendToHeliosAbi,
+  claimAllRewardsAbi,
+  delegateAbi,
+  erc20Abi,
+  governanceAbi,
+  precompileAbi,
+  withdrawDelegatorRewardsAbi,
+  wrapperAbi
+} from "@/constant/helios-contracts"
+import { broadcastTransaction } from "./transactions"
+
+/**
+ * Every contract the portal talks to. Helios precompiles have a fixed
+ * address, the other contracts are deployed per chain or per token and
+ * get their address at call time.
+ */
+export const contracts = {
+  delegate: { abi: delegateAbi, address: DELEGATE_CONTRACT_ADDRESS },
+  rewards: {
+    abi: [...claimAllRewardsAbi, ...withdrawDelegatorRewardsAbi],
+    address: REWARDS_CONTRACT_ADDRESS
+  },
+  governance: { abi: governanceAbi, address: PROPOSAL_CONTRACT_ADDRESS },
+  precompile: { abi: precompileAbi, address: PRECOMPILE_CONTRACT_ADDRESS },
+  bridge: { abi: bridgeSendToChainAbi, address: BRIDGE_CONTRACT_ADDRESS },
+  hyperion: { abi: bridgeSendToHeliosAbi },
+  wrapper: { abi: wrapperAbi },
+  erc20: { abi: erc20Abi }
+} as const
+
+export type ReadMutability = "pure" | "view"
+export type WriteMutability = "nonpayable" | "payable"
+
+export type ContractCallParameters<
+  TAbi extends Abi,
+  TMutability extends AbiStateMutability,
+  TFunctionName extends ContractFunctionName<TAbi, TMutability>
+> = {
+  abi: TAbi
+  address: string
+  functionName: TFunctionName
+  args: ContractFunctionArgs<TAbi, TMutability, TFunctionName>
+  from?: string
+  value?: bigint
+}
+
+export type ContractWriteParameters<
+  TAbi extends Abi,
+  TFunctionName extends ContractFunctionName<TAbi, WriteMutability>
+> = ContractCallParameters<TAbi, WriteMutability, TFunctionName> & {
+  gas?: bigint
+  // Legacy transactions set gasPrice, type 2 transactions the two others
+  gasPrice?: bigint
+  maxFeePerGas?: bigint
+  maxPriorityFeePerGas?: bigint
+}
+
+/**
+ * Encodes the calldata of a contract function
+ * @param params The contract, function and arguments
+ * @returns The calldata
+ */
+export function encodeContractCall<
+  const TAbi extends Abi,
+  TFunctionName extends ContractFunctionName<TAbi>
+>({
+  abi,
+  functionName,
+  args
+}: Pick<
+  ContractCallParameters<
+    TAbi,
+    ReadMutability | WriteMutability,
+    TFunctionName
+  >,
+  "abi" | "functionName" | "args"
+>): Hex {
+  return encodeFunctionData({
+    abi,
+    functionName,
+    args
+  } as EncodeFunctionDataParameters)
+}
+
+async function call(
+  web3: Web3,
+  {
+    abi,
+    address,
+    functionName,
+    args,
+    from,
+    value
+  }: ContractCallParameters<Abi, ReadMutability | WriteMutability, string>
+) {
+  const data = await web3.eth.call({
+    from,
+    to: address,
+    data: encodeContractCall({ abi, functionName, args }),
+    value
+  })
+
+  return decodeFunctionResult({
+    abi,
+    functionName,
+    data: data as Hex
+  } as DecodeFunctionResultParameters)
+}
+
+/**
+ * Reads a view function
+ * @param web3 The provider to read from
+ * @param params The contract, function and arguments
+ * @returns The decoded function result
+ */
+export async function readContract<
+  const TAbi extends Abi,
+  TFunctionName extends ContractFunctionName<TAbi, ReadMutability>
+>(
+  web3: Web3,
+  params: ContractCallParameters<TAbi, ReadMutability, TFunctionName>
+): Promise<ContractFunctionReturnType<TAbi, ReadMutability, TFunctionName>> {
+  return call(
+    web3,
+    params as ContractCallParameters<Abi, ReadMutability, string>
+  ) as Promise<ContractFunctionReturnType<TAbi, ReadMutability, TFunctionName>>
+}
+
+/**
+ * Runs a state changing function without sending it, to catch a revert
+ * before asking the wallet to sign
+ * @param web3 The provider to simulate with
+ * @param params The contract, function, arguments and sender
+ * @returns The result the function would return
+ */
+export async function simulateContract<
+  const TAbi extends Abi,
+  TFunctionName extends ContractFunctionName<TAbi, WriteMutability>
+>(
+  web3: Web3,
+  params: ContractCallParameters<TAbi, WriteMutability, TFunctionName>
+): Promise<ContractFunctionReturnType<TAbi, WriteMutability, TFunctionName>> {
+  return call(
+    web3,
+    params as ContractCallParameters<Abi, WriteMutability, string>
+  ) as Promise<ContractFunctionReturnType<TAbi, WriteMutability, TFunctionName>>
+}
+
+/**
+ * Estimates the gas used by a state changing function
+ * @param web3 The provider to estimate with
+ * @param params The contract, function, arguments and sender
+ * @returns The gas estimate
+ */
+export async function estimateContractGas<
+  const TAbi extends Abi,
+  TFunctionName extends ContractFunctionName<TAbi, WriteMutability>
+>(
+  web3: Web3,
+  {
+    abi,
+    address,
+    functionName,
+    args,
+    from,
+    value
+  }: ContractCallParameters<TAbi, WriteMutability, TFunctionName>
+): Promise<bigint> {
+  return web3.eth.estimateGas({
+    from,
+    to: address,
+    data: encodeContractCall<TAbi, TFunctionName>({ abi, functionName, args }),
+    value
+  })
+}
+
+/**
+ * Sends a transaction calling a state changing function, signed by the
+ * wallet behind the provider. It doesn't wait for the transaction to be
+ * mined, see waitForTransaction in helpers/transactions.
+ * @param web3 The wallet provider
+ * @param params The contract, function, arguments, sender and gas settings
+ * @returns The transaction hash, once the wallet broadcast it
+ */
+export async function writeContract<
+  const TAbi extends Abi,
+  TFunctionName extends ContractFunctionName<TAbi, WriteMutability>
+>(
+  web3: Web3,
+  {
+    abi,
+    address,
+    functionName,
+    args,
+    from,
+    value,
+    ...fees
+  }: ContractWriteParameters<TAbi, TFunctionName>
+): Promise<Hex> {
+  return broadcastTransaction(web3, {
+    from,
+    to: address,
+    data: encodeContractCall<TAbi, TFunctionName>({ abi, functionName, args }),
+    value,
+    ...fees
+  })
+}
@@ -0,0 +1,458 @@
+import { decodeAbiParameters, Hex } from "viem"
+import type { ZodError, ZodIssue } from "zod"
+import { formatGwei } from "@/utils/format"
+import { decodeModuleError, ModuleErrorCode } from "./module-errors"
+
+/**
+ * Base class of every error surfaced by the RPC layer and transaction hooks.
+ * `retryable` tells whether trying the same action again may succeed.
+ */
+export class PortalError extends Error {
+  retryable = false
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options)
+    this.name = "PortalError"
+  }
+}
+
+// The node could not be reached or answered with an invalid HTTP response
+export class TransportError extends PortalError {
+  retryable = true
+  status?: number
+
+  constructor(message: string, options?: { cause?: unknown; status?: number }) {
+    super(message, options)
+    this.name = "TransportError"
+    this.status = options?.status
+  }
+}
+
+// The node answered with a JSON-RPC error object
+export class JsonRpcError extends PortalError {
+  code: number
+  data?: unknown
+
+  constructor(
+    message: string,
+    options: { code: number; data?: unknown; cause?: unknown }
+  ) {
+    super(message, options)
+    this.name = "JsonRpcError"
+    this.code = options.code
+    this.data = options.data
+    // -32005 is a rate limit. Nodes use -32000 for any server error,
+    // reverts and nonce errors included, so only its rate limits and
+    // timeouts are worth another try.
+    this.retryable =
+      options.code === -32005 ||
+      (options.code === -32000 &&
+        /rate limit|too many requests|timeout|timed out/i.test(message))
+  }
+}
+
+// The user declined the request in their wallet
+export class WalletRejectedError extends PortalError {
+  constructor(options?: { cause?: unknown }) {
+    super("Request rejected in your wallet.", options)
+    this.name = "WalletRejectedError"
+  }
+}
+
+// The user closed the transaction preview instead of confirming it
+export class PreviewRejectedError extends PortalError {
+  constructor(options?: { cause?: unknown }) {
+    super("Transaction cancelled before signing.", options)
+    this.name = "PreviewRejectedError"
+  }
+}
+
+// The transaction reverted, during simulation or on chain
+export class RevertError extends PortalError {
+  reason: string | null
+
+  constructor(reason: string | null, options?: { cause?: unknown }) {
+    super(
+      reason ? `Transaction reverted: ${reason}` : "Transaction reverted.",
+      options
+    )
+    this.name = "RevertError"
+    this.reason = reason
+  }
+}
+
+// A Helios precompile reverted with a known Cosmos SDK module error
+export class ModuleError extends RevertError {
+  codespace: string
+  code?: number
+
+  constructor(
+    message: string,
+    options: { codespace: string; code?: number; cause?: unknown }
+  ) {
+    super(message, options)
+    this.name = "ModuleError"
+    this.message = message
+    this.codespace = options.codespace
+    this.code = options.code
+  }
+}
+
+export class InsufficientFundsError extends PortalError {
+  constructor(options?: { cause?: unknown }) {
+    super("Insufficient funds to pay for the transaction and its fees.", options)
+    this.name = "InsufficientFundsError"
+  }
+}
+
+// The wallet nonce is behind the chain, usually after a pending transaction
+export class NonceTooLowError extends PortalError {
+  retryable = true
+
+  constructor(options?: { cause?: unknown }) {
+    super(
+      "Nonce too low: a previous transaction is still pending or your wallet is out of sync.",
+      options
+    )
+    this.name = "NonceTooLowError"
+  }
+}
+
+// A speed-up or cancellation didn't raise the gas price enough for the node
+export class ReplacementUnderpricedError extends PortalError {
+  retryable = true
+
+  constructor(options?: { cause?: unknown }) {
+    super(
+      "The new gas price is too low to replace the pending transaction, pick a faster gas price option.",
+      options
+    )
+    this.name = "ReplacementUnderpricedError"
+  }
+}
+
+// The fees the network asks for are above the cap set in the settings
+export class MaxFeeCapExceededError extends PortalError {
+  retryable = true
+  maxFeePerGas: bigint
+  maxFeeCap: bigint
+
+  constructor(options: {
+    maxFeePerGas: bigint
+    maxFeeCap: bigint
+    cause?: unknown
+  }) {
+    super(
+      `The network asks for up to ${formatGwei(options.maxFeePerGas)} Gwei per gas, above your ${formatGwei(options.maxFeeCap)} Gwei cap. Raise the cap in the settings or try again later.`,
+      options
+    )
+    this.name = "MaxFeeCapExceededError"
+    this.maxFeePerGas = options.maxFeePerGas
+    this.maxFeeCap = options.maxFeeCap
+  }
+}
+
+// The wallet is connected to another chain than the one the action requires
+export class ChainMismatchError extends PortalError {
+  expectedChainId?: number
+  actualChainId?: number
+
+  constructor(options?: {
+    expectedChainId?: number
+    actualChainId?: number
+    cause?: unknown
+  }) {
+    super(
+      options?.expectedChainId
+        ? `Please switch your wallet to the right network (chain ID ${options.expectedChainId}).`
+        : "Your wallet is connected to the wrong network.",
+      options
+    )
+    this.name = "ChainMismatchError"
+    this.expectedChainId = options?.expectedChainId
+    this.actualChainId = options?.actualChainId
+  }
+}
+
+// The user declined switching their wallet to the chain an action needs
+export class ChainSwitchRejectedError extends ChainMismatchError {
+  constructor(options: {
+    expectedChainId: number
+    actualChainId?: number
+    chainName?: string
+    cause?: unknown
+  }) {
+    super(options)
+    const chain = options.chainName ?? `chain ID ${options.expectedChainId}`
+    this.message = `Switching to ${chain} was declined in your wallet, nothing was sent.`
+    this.name = "ChainSwitchRejectedError"
+  }
+}
+
+// The transaction left the mempool without being mined
+export class TransactionDroppedError extends PortalError {
+  retryable = true
+  hash: string
+
+  constructor(hash: string, options?: { cause?: unknown }) {
+    super(
+      "The transaction was dropped by the network, it was not executed.",
+      options
+    )
+    this.name = "TransactionDroppedError"
+    this.hash = hash
+  }
+}
+
+// Another transaction with the same nonce was mined in its place
+export class TransactionReplacedError extends PortalError {
+  hash: string
+  replacementHash: string | null
+  reason: "cancelled" | "replaced"
+
+  constructor(
+    hash: string,
+    options: {
+      replacementHash: string | null
+      reason: "cancelled" | "replaced"
+      cause?: unknown
+    }
+  ) {
+    super(
+      options.reason === "cancelled"
+        ? "The transaction was cancelled from your wallet."
+        : "The transaction was replaced by another one from your wallet.",
+      options
+    )
+    this.name = "TransactionReplacedError"
+    this.hash = hash
+    this.replacementHash = options.replacementHash
+    this.reason = options.reason
+  }
+}
+
+// No receipt was received in time, the transaction may still be mined
+export class TransactionTimeoutError extends PortalError {
+  hash: string
+
+  constructor(hash: string, options?: { cause?: unknown }) {
+    super(
+      "The transaction is taking longer than expected to confirm. Check its status in the explorer.",
+      options
+    )
+    this.name = "TransactionTimeoutError"
+    this.hash = hash
+  }
+}
+
+// A RPC result didn't match the schema of its method
+export class RpcSchemaError extends PortalError {
+  method: string
+  issues: ZodIssue[]
+
+  constructor(method: string, error: ZodError) {
+    const summary = error.issues
+      .slice(0, 3)
+      .map((issue) => `${issue.path.join(".") || "result"}: ${issue.message}`)
+      .join("; ")
+    super(`Unexpected ${method} response (${summary})`)
+    this.name = "RpcSchemaError"
+    this.method = method
+    this.issues = error.issues
+  }
+}
+
+// Solidity Error(string) and Panic(uint256) selectors
+const ERROR_SELECTOR = "0x08c379a0"
+const PANIC_SELECTOR = "0x4e487b71"
+
+const PANIC_REASONS: Record<number, string> = {
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow or underflow",
+  0x12: "division by zero",
+  0x21: "invalid enum value",
+  0x32: "array index out of bounds",
+  0x41: "out of memory"
+}
+
+/**
+ * Decodes a Solidity Error(string) or Panic(uint256) revert payload
+ * @param data The revert data
+ * @returns The revert reason, or null if the payload is not a known one
+ */
+export function decodeRevertData(data: unknown): string | null {
+  if (typeof data !== "string" || !data.startsWith("0x")) return null
+
+  try {
+    const payload = `0x${data.slice(10)}` as Hex
+    if (data.startsWith(ERROR_SELECTOR)) {
+      return decodeAbiParameters([{ type: "string" }], payload)[0]
+    }
+    if (data.startsWith(PANIC_SELECTOR)) {
+      const code = Number(decodeAbiParameters([{ type: "uint256" }], payload)[0])
+      return PANIC_REASONS[code] ?? `panic code ${code}`
+    }
+  } catch {
+    return null
+  }
+
+  return null
+}
+
+/**
+ * Cleans a raw node or wallet message for display
+ * @param message The raw message
+ * @returns The message without the RPC prefix, capitalized and with a period
+ */
+export function formatErrorMessage(message: string): string {
+  let formatted = message
+    .replace(/^.*rpc error: code = \w+ desc = /, "")
+    .trim()
+
+  if (!formatted) return "Transaction failed. Please try again."
+
+  formatted = formatted.charAt(0).toUpperCase() + formatted.slice(1)
+  if (!/[.!?]$/.test(formatted)) formatted += "."
+
+  return formatted
+}
+
+// Walks the nested errors web3, viem and wallets wrap around the root cause
+function collectCauses(error: any): any[] {
+  const causes: any[] = []
+  let current = error
+
+  while (current && typeof current === "object" && causes.length < 6) {
+    causes.push(current)
+    current = current.cause ?? current.innerError ?? current.error
+  }
+
+  return causes
+}
+
+// Codespace and ABCI code of a Cosmos error, when the node sent them as fields
+function findModuleErrorCode(causes: any[]): ModuleErrorCode | null {
+  for (const cause of causes) {
+    for (const source of [cause, cause.data]) {
+      if (
+        typeof source?.codespace === "string" &&
+        source.codespace &&
+        typeof source.code === "number"
+      ) {
+        return { codespace: source.codespace.toLowerCase(), code: source.code }
+      }
+    }
+  }
+  return null
+}
+
+function toModuleError(
+  text: string,
+  cause: unknown,
+  reported?: ModuleErrorCode | null
+): ModuleError | null {
+  const match = decodeModuleError(text, reported)
+  return match ? new ModuleError(match.message, { ...match, cause }) : null
+}
+
+/**
+ * Converts any error thrown by web3, viem, a wallet or the RPC layer into
+ * the matching PortalError
+ * @param error The caught error
+ * @returns The structured error
+ */
+export function toPortalError(error: unknown): PortalError {
+  if (error instanceof PortalError) return error
+  if (typeof error === "string") return toPortalError(new Error(error))
+
+  const causes = collectCauses(error)
+  const messages = causes.flatMap((c) =>
+    [c.data?.message, c.message, c.reason, c.shortMessage].filter(
+      (m): m is string => typeof m === "string" && m.length > 0
+    )
+  )
+  const text = messages.join(" | ")
+  const codes = causes.map((c) => c.code)
+  const moduleCode = findModuleErrorCode(causes)
+
+  if (
+    codes.includes(4001) ||
+    codes.includes("ACTION_REJECTED") ||
+    /user (rejected|denied)/i.test(text)
+  ) {
+    return new WalletRejectedError({ cause: error })
+  }
+
+  if (/insufficient funds/i.test(text)) {
+    return new InsufficientFundsError({ cause: error })
+  }
+
+  if (/nonce too low|invalid nonce/i.test(text)) {
+    return new NonceTooLowError({ cause: error })
+  }
+
+  if (
+    /replacement transaction underpriced|replacement fee too low/i.test(text)
+  ) {
+    return new ReplacementUnderpricedError({ cause: error })
+  }
+
+  if (
+    codes.includes(4901) ||
+    /chain ?id mismatch|does not match the target chain|switch to helios/i.test(
+      text
+    )
+  ) {
+    return new ChainMismatchError({ cause: error })
+  }
+
+  // Revert payloads can be nested at any level, as a string or in data.data
+  for (const cause of causes) {
+    const reason =
+      decodeRevertData(cause.data) ?? decodeRevertData(cause.data?.data)
+    // A revert reason can itself be the error of a precompile module
+    if (reason) {
+      return (
+        toModuleError(reason, error, moduleCode) ??
+        new RevertError(reason, { cause: error })
+      )
+    }
+  }
+
+  // Precompiles forward module errors as plain RPC messages
+  const moduleError = toModuleError(text, error, moduleCode)
+  if (moduleError) return moduleError
+
+  const revertMatch = text.match(/execution reverted:?\s*([^|]*)/i)
+  if (revertMatch) {
+    return new RevertError(revertMatch[1].trim() || null, { cause: error })
+  }
+
+  const rpcCause = causes.find((c) => typeof c.code === "number")
+  const message = formatErrorMessage(messages[0] ?? "")
+
+  if (
+    error instanceof TypeError ||
+    /failed to fetch|network ?error|timeout/i.test(text)
+  ) {
+    return new TransportError(message, { cause: error })
+  }
+
+  if (rpcCause) {
+    return new JsonRpcError(message, {
+      code: rpcCause.code,
+      data: rpcCause.data,
+      cause: error
+    })
+  }
+
+  return new PortalError(message, { cause: error })
+}
+
+/**
+ * Tells whether an action that failed with this error may succeed if retried
+ * @param error The caught error
+ */
+export function isRetryableError(error: unknown): boolean {
+  return toPortalError(error).retryable
+}
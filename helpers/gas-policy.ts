@@ -0,0 +1,77 @@
+import { parseGwei } from "viem"
+import type Web3 from "web3"
+import { GasPriceOption, useAppStore } from "@/stores/app"
+import { TransactionFees } from "@/types/fee"
+import { getFeeEstimates } from "@/lib/utils/gas"
+import { getMaxGasPrice } from "@/utils/gas"
+import { MaxFeeCapExceededError } from "./errors"
+
+export interface GasPolicy {
+  option: GasPriceOption
+  // Highest max fee per gas accepted, in wei
+  maxFeeCap: bigint | null
+}
+
+/**
+ * Parses a fee cap typed in the settings
+ * @param value The cap in Gwei
+ * @returns The cap in wei, or null when empty or invalid
+ */
+export function parseMaxFeeCap(value: string | undefined): bigint | null {
+  if (!value?.trim()) return null
+  try {
+    const cap = parseGwei(value.trim())
+    return cap > 0n ? cap : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Gets the gas settings transactions on a network are sent with: the
+ * network override of the settings where set, the global ones otherwise
+ * @param chainId The network
+ */
+export function getGasPolicy(chainId: number): GasPolicy {
+  const { gasPriceOption, maxFeeCap, gasPolicyOverrides } =
+    useAppStore.getState()
+  const override = gasPolicyOverrides[chainId]
+
+  return {
+    option: override?.option ?? gasPriceOption,
+    maxFeeCap: parseMaxFeeCap(override?.maxFeeCap || maxFeeCap)
+  }
+}
+
+/**
+ * Checks fees against the cap of the gas policy
+ * @param maxFeePerGas The highest price per gas the transaction may pay
+ * @param policy The gas policy of the network
+ * @throws MaxFeeCapExceededError when the fees are above the cap
+ */
+export function assertBelowMaxFeeCap(maxFeePerGas: bigint, policy: GasPolicy) {
+  if (policy.maxFeeCap !== null && maxFeePerGas > policy.maxFeeCap) {
+    throw new MaxFeeCapExceededError({
+      maxFeePerGas,
+      maxFeeCap: policy.maxFeeCap
+    })
+  }
+}
+
+/**
+ * Gets the fees of a transaction following the gas policy of its network,
+ * every write of the portal is priced here
+ * @param provider A web3 provider of the network
+ * @param chainId The network
+ * @returns The fees of the option picked for the network
+ * @throws MaxFeeCapExceededError when the fees are above the cap
+ */
+export async function resolveTransactionFees(
+  provider: Web3,
+  chainId: number
+): Promise<TransactionFees> {
+  const policy = getGasPolicy(chainId)
+  const fees = (await getFeeEstimates(provider))[policy.option]
+  assertBelowMaxFeeCap(getMaxGasPrice(fees), policy)
+  return fees
+}
@@ -1,9 +1,10 @@
-import { useAppStore } from "@/stores/app"
+import { HELIOS_NETWORK_ID } from "@/config/app"
 import { calculateAdjustedGasPrice } from "@/utils/gas"
+import { getGasPolicy } from "./gas-policy"
 import { getGasPrice } from "./rpc-calls"
 
 /**
- * Gets the adjusted gas price based on the user's selected gas price option
+ * Gets the Helios gas price adjusted with the option of its gas policy
  * @returns The adjusted gas price as a string
  */
 export async function getAdjustedGasPrice(): Promise<string> {
@@ -17,18 +18,10 @@ export async function getAdjustedGasPrice(): Promise<string> {
       return "20000000000" // 20 Gwei as a fallback
     }
 
-    // Get the user's selected gas price option from the store
-    const { gasPriceOption, debugMode } = useAppStore.getState()
-
-    // Only apply gas price adjustments in debug mode
-    if (!debugMode) {
-      return baseGasPrice
-    }
-
     // Calculate the adjusted gas price
     const adjustedGasPrice = calculateAdjustedGasPrice(
       baseGasPrice,
-      gasPriceOption
+      getGasPolicy(HELIOS_NETWORK_ID).option
     )
 
     // Return the adjusted gas price as a string
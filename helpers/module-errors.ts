@@ -0,0 +1,196 @@
+/**
+ * Errors of the Cosmos SDK modules behind the Helios precompiles. They are
+ * decoded from the codespace and ABCI code the module registered them with
+ * when the node reports them. Otherwise the node only forwards the text,
+ * in the RPC message ("rpc error: code = Internal desc = ...") or as an
+ * Error(string) revert payload, and the description is matched instead.
+ */
+
+export interface ModuleErrorMatch {
+  // Module that raised the error, like staking or gov
+  codespace: string
+  // ABCI code of the error, when the node reports it
+  code?: number
+  message: string
+}
+
+export interface ModuleErrorCode {
+  codespace: string
+  code: number
+}
+
+// Messages by codespace and ABCI code, as registered by each module: the
+// Cosmos SDK for staking, distribution and gov (same codes in v0.47 and
+// v0.50), the Evmos module for erc20 and the Injective Peggy module
+// Hyperion is derived from
+const MODULE_ERROR_CODES: Record<string, Record<number, string>> = {
+  staking: {
+    3: "This validator doesn't exist.",
+    7:
+      "The validator is jailed, it can't receive delegations until it is unjailed.",
+    19: "You have no delegation on this validator.",
+    22:
+      "Insufficient delegation: the amount is higher than what you delegated to this validator.",
+    24:
+      "Insufficient delegation: the amount is higher than what you delegated to this validator.",
+    27:
+      "Too many undelegations are pending with this validator, wait for one to complete."
+  },
+  distribution: {
+    5: "There are no rewards to claim for this delegation.",
+    6: "This validator doesn't exist, it has no rewards to distribute."
+  },
+  gov: {
+    2: "This proposal doesn't exist.",
+    3: "This proposal is not in its voting period.",
+    7: "This vote option is not valid.",
+    15: "The proposal metadata is too long.",
+    16: "The initial deposit is below the minimum required for proposals."
+  },
+  hyperion: {
+    8: "This token or network is not supported by the bridge.",
+    12: "The amount exceeds what the bridged token can represent.",
+    14: "The destination address is not valid for this network."
+  },
+  erc20: {
+    4: "This token is not registered on Helios.",
+    5: "A token with this denom already exists, choose another denom."
+  }
+}
+
+// Fallback for nodes that only forward the description of the error
+const MODULE_ERRORS: {
+  codespace: string
+  pattern: RegExp
+  message: string
+}[] = [
+  // Staking, behind the delegate precompile
+  {
+    codespace: "staking",
+    pattern: /validator does not exist|no validator found/i,
+    message: "This validator doesn't exist."
+  },
+  {
+    codespace: "staking",
+    pattern: /validator (for this address )?is (currently )?jailed|validator jailed/i,
+    message:
+      "The validator is jailed, it can't receive delegations until it is unjailed."
+  },
+  {
+    codespace: "staking",
+    pattern:
+      /not enough delegation shares|insufficient delegation|invalid shares amount|invalid shares/i,
+    message:
+      "Insufficient delegation: the amount is higher than what you delegated to this validator."
+  },
+  {
+    codespace: "staking",
+    pattern: /no delegation for \(address, validator\) tuple|no delegation found/i,
+    message: "You have no delegation on this validator."
+  },
+  {
+    codespace: "staking",
+    pattern: /too many unbonding delegation entries/i,
+    message:
+      "Too many undelegations are pending with this validator, wait for one to complete."
+  },
+  {
+    codespace: "staking",
+    pattern: /(below|less than) (the )?min(imum)? delegation/i,
+    message: "The amount is below the minimum delegation of this validator."
+  },
+  {
+    codespace: "staking",
+    pattern: /invalid coin denomination|denom .*not (whitelisted|allowed)/i,
+    message: "This token can't be delegated."
+  },
+
+  // Distribution, behind the rewards precompile
+  {
+    codespace: "distribution",
+    pattern: /no delegation distribution info/i,
+    message: "There are no rewards to claim for this delegation."
+  },
+  {
+    codespace: "distribution",
+    pattern: /no validator distribution info/i,
+    message: "This validator doesn't exist, it has no rewards to distribute."
+  },
+
+  // Governance, behind the governance precompile
+  {
+    codespace: "gov",
+    pattern: /inactive proposal|not in (the )?voting period/i,
+    message: "This proposal is not in its voting period."
+  },
+  {
+    codespace: "gov",
+    pattern: /unknown proposal|proposal (\d+ )?(does not|doesn't) exist/i,
+    message: "This proposal doesn't exist."
+  },
+  {
+    codespace: "gov",
+    pattern: /invalid vote option/i,
+    message: "This vote option is not valid."
+  },
+  {
+    codespace: "gov",
+    pattern: /minimum deposit is too small|initial deposit .*too (low|small)/i,
+    message: "The initial deposit is below the minimum required for proposals."
+  },
+  {
+    codespace: "gov",
+    pattern: /metadata too long/i,
+    message: "The proposal metadata is too long."
+  },
+
+  // ERC20 module, behind the token deployment precompile
+  {
+    codespace: "erc20",
+    pattern:
+      /(denom|token pair|coin metadata) .*already (exists|registered)/i,
+    message: "A token with this denom already exists, choose another denom."
+  },
+  {
+    codespace: "erc20",
+    pattern: /invalid denom/i,
+    message: "The token denom is not valid."
+  }
+]
+
+/**
+ * Reads the codespace and ABCI code a node wrote in an error message, as
+ * "codespace: staking, code: 7" or in a JSON payload
+ * @param text The message or reason
+ */
+export function parseModuleErrorCode(text: string): ModuleErrorCode | null {
+  const match = text.match(
+    /codespace"?\s*[:=]?\s*"?(\w+)"?\s*,?\s*"?code"?\s*[:=]?\s*(\d+)/i
+  )
+  return match ? { codespace: match[1].toLowerCase(), code: +match[2] } : null
+}
+
+/**
+ * Recognizes the error of a Cosmos SDK module, from its codespace and code
+ * first and from its description when they are unknown
+ * @param text The node message or revert reason
+ * @param reported The codespace and code the node reported alongside
+ * @returns The module and a clear message, or null if the error is unknown
+ */
+export function decodeModuleError(
+  text: string,
+  reported?: ModuleErrorCode | null
+): ModuleErrorMatch | null {
+  const code = reported ?? parseModuleErrorCode(text)
+  const message = code && MODULE_ERROR_CODES[code.codespace]?.[code.code]
+  if (code && message) return { ...code, message }
+
+  const known = MODULE_ERRORS.find(({ pattern }) => pattern.test(text))
+  if (!known) return null
+
+  return {
+    codespace: code?.codespace ?? known.codespace,
+    code: code?.code,
+    message: known.message
+  }
+}
@@ -0,0 +1,145 @@
+import { toHex } from "@/utils/number"
+import {
+  getAccountTransactionsByPageAndSize,
+  getBlocksByPageAndSize,
+  getHyperionAccountTransferTxsByPageAndSize,
+  getListTransactionsByPageAndSize,
+  getProposalsByPageAndSize,
+  getTokensBalance,
+  getTokensByChainIdAndPageAndSize,
+  getTokensByPageAndSize,
+  getTransactionsByPageAndSize,
+  getValidatorsByPageAndSize
+} from "./rpc-calls"
+import { Block } from "@/types/block"
+import { TokenDenom } from "@/types/denom"
+import { HyperionBridgeTx } from "@/types/hyperion"
+import { Proposal } from "@/types/proposal"
+import { Token, TokenBalance } from "@/types/token"
+import { Transaction } from "@/types/transaction"
+import { Validator } from "@/types/validator"
+
+/**
+ * Fetches one page of a *ByPageAndSize RPC method
+ * @param page The page number, starting at 1
+ * @param size The page size
+ */
+export type PageFetcher<T> = (page: number, size: number) => Promise<T[]>
+
+export interface PaginateOptions {
+  pageSize?: number
+  startPage?: number
+  maxPages?: number
+}
+
+export const DEFAULT_PAGE_SIZE = 50
+
+/**
+ * Iterates over the pages of a paginated RPC method until a page comes back
+ * shorter than the page size
+ * @param fetchPage The page fetcher
+ * @param options The page size, first page and maximum number of pages
+ */
+export async function* paginate<T>(
+  fetchPage: PageFetcher<T>,
+  {
+    pageSize = DEFAULT_PAGE_SIZE,
+    startPage = 1,
+    maxPages = Infinity
+  }: PaginateOptions = {}
+): AsyncGenerator<T[], void, undefined> {
+  for (let page = startPage; page < startPage + maxPages; page++) {
+    const items = await fetchPage(page, pageSize)
+    if (items.length > 0) yield items
+    if (items.length < pageSize) return
+  }
+}
+
+/**
+ * Iterates item by item over a paginated RPC method
+ * @param fetchPage The page fetcher
+ * @param options The page size, first page and maximum number of pages
+ */
+export async function* paginateItems<T>(
+  fetchPage: PageFetcher<T>,
+  options?: PaginateOptions
+): AsyncGenerator<T, void, undefined> {
+  for await (const items of paginate(fetchPage, options)) {
+    yield* items
+  }
+}
+
+/**
+ * Loads every page of a paginated RPC method
+ * @param fetchPage The page fetcher
+ * @param options The page size, first page and maximum number of pages
+ * @returns All the items, in page order
+ */
+export async function fetchAllPages<T>(
+  fetchPage: PageFetcher<T>,
+  options?: PaginateOptions
+): Promise<T[]> {
+  const all: T[] = []
+  for await (const items of paginate(fetchPage, options)) {
+    all.push(...items)
+  }
+  return all
+}
+
+// Page fetchers of the paginated Helios RPC methods
+
+export const tokensBalancePages =
+  (address: string): PageFetcher<TokenBalance> =>
+  async (page, size) =>
+    (await getTokensBalance(address, toHex(page), toHex(size)))?.Balances ?? []
+
+export const accountTransactionsPages =
+  (address: string): PageFetcher<Transaction> =>
+  async (page, size) =>
+    (await getAccountTransactionsByPageAndSize(
+      address,
+      toHex(page),
+      toHex(size)
+    )) ?? []
+
+export const transactionsPages: PageFetcher<Transaction> = async (
+  page,
+  size
+) => (await getTransactionsByPageAndSize(toHex(page), toHex(size))) ?? []
+
+export const listTransactionsPages: PageFetcher<Transaction> = async (
+  page,
+  size
+) => (await getListTransactionsByPageAndSize(toHex(page), toHex(size))) ?? []
+
+export const blocksPages =
+  (includeTransactionFull = false): PageFetcher<Block> =>
+  async (page, size) =>
+    (await getBlocksByPageAndSize(page, size, includeTransactionFull)) ?? []
+
+export const tokensPages: PageFetcher<Token> = async (page, size) =>
+  (await getTokensByPageAndSize(toHex(page), toHex(size))) ?? []
+
+export const tokensByChainPages =
+  (chainId: number): PageFetcher<TokenDenom> =>
+  async (page, size) =>
+    (await getTokensByChainIdAndPageAndSize(
+      chainId,
+      toHex(page),
+      toHex(size)
+    )) ?? []
+
+export const validatorsPages: PageFetcher<Validator> = async (page, size) =>
+  (await getValidatorsByPageAndSize(toHex(page), toHex(size))) ?? []
+
+export const proposalsPages: PageFetcher<Proposal> = async (page, size) =>
+  (await getProposalsByPageAndSize(toHex(page), toHex(size))) ?? []
+
+export const hyperionAccountTransfersPages =
+  (address: string): PageFetcher<HyperionBridgeTx> =>
+  async (page, size) =>
+    (await getHyperionAccountTransferTxsByPageAndSize(
+      address,
+      toHex(page),
+      toHex(size)
+    )) ?? []
@@ -1,34 +1,279 @@
-import { RPC_URL_DEFAULT } from "@/config/app"
-import { getRpcUrl } from "@/config/rpc"
-
-async function request<T>(method: string, params: any[]): Promise<T | null> {
-  // Get the dynamic RPC URL based on debug mode
-  const rpcUrl = typeof window !== "undefined" ? getRpcUrl() : RPC_URL_DEFAULT
-
-  const response = await fetch(rpcUrl, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json"
-    },
-    body: JSON.stringify({
-      jsonrpc: "2.0",
-      method,
-      params,
-      id: 1
+import { getRpcEndpoints } from "@/config/rpc"
+import {
+  getOrderedEndpoints,
+  reportEndpointFailure,
+  reportEndpointSuccess
+} from "./rpc-health"
+import { validateRpcResult } from "./rpc-schemas"
+import { isRetryableError, JsonRpcError, TransportError } from "./errors"
+import {
+  findReplayEntry,
+  getFixtureMode,
+  recordFixtureEntries
+} from "./rpc-fixtures"
+import { RpcFixtureEntry } from "@/stores/rpc-fixtures"
+
+// Maximum number of calls sent in a single JSON-RPC batch
+const MAX_BATCH_SIZE = 50
+// Minimum number of attempts across endpoints before giving up
+const MIN_ATTEMPTS = 3
+// Delay before the first retry, doubled on each attempt
+const RETRY_BASE_DELAY = 250
+// Time after which an endpoint is considered unresponsive
+const REQUEST_TIMEOUT = 10_000
+
+interface RpcPayload {
+  jsonrpc: "2.0"
+  method: string
+  params: any[]
+  id: number
+}
+
+interface RpcResponse {
+  jsonrpc: "2.0"
+  id: number | null
+  result?: any
+  error?: { code: number; message: string; data?: any }
+}
+
+interface PendingCall {
+  payload: RpcPayload
+  resolve: (value: any) => void
+  reject: (reason: any) => void
+}
+
+let nextId = 1
+let queue: PendingCall[] = []
+let flushScheduled = false
+
+// Promises of identical calls (same method and params) not yet settled
+const inFlight = new Map<string, Promise<any>>()
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Posts a JSON-RPC body to one endpoint
+ * @param rpcUrl The RPC endpoint
+ * @param body The single call or batch to send
+ * @returns The parsed JSON response
+ */
+async function post(rpcUrl: string, body: RpcPayload | RpcPayload[]) {
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT)
+
+  try {
+    const response = await fetch(rpcUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify(body),
+      signal: controller.signal
     })
-  })
 
-  if (!response.ok) {
-    throw new Error(`${method} call failed.`)
+    if (!response.ok) {
+      throw new TransportError(`HTTP ${response.status}`, {
+        status: response.status
+      })
+    }
+
+    return (await response.json()) as RpcResponse | RpcResponse[]
+  } catch (error) {
+    if (error instanceof TransportError) throw error
+    if (controller.signal.aborted) {
+      throw new TransportError(`No response after ${REQUEST_TIMEOUT / 1000}s`)
+    }
+    throw new TransportError(
+      error instanceof Error ? error.message : "Network error",
+      { cause: error }
+    )
+  } finally {
+    clearTimeout(timeout)
+  }
+}
+
+/**
+ * Posts a JSON-RPC body to the healthiest endpoint, failing over to the
+ * next ones with an exponential backoff when the transport fails.
+ * On the server, calls go through the RPC proxy and share its cache.
+ * @param body The single call or batch to send
+ * @returns The parsed JSON response
+ */
+async function postWithFailover(body: RpcPayload | RpcPayload[]) {
+  if (typeof window === "undefined") {
+    const { proxyRpc } = await import("./rpc-proxy")
+    return (await proxyRpc(body)) as RpcResponse | RpcResponse[]
+  }
+
+  // Get the dynamic RPC endpoints based on debug mode
+  const endpoints = getOrderedEndpoints(getRpcEndpoints())
+  const attempts = Math.max(MIN_ATTEMPTS, endpoints.length)
+  let lastError: unknown
+
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    const rpcUrl = endpoints[attempt % endpoints.length]
+
+    if (attempt > 0) {
+      await wait(RETRY_BASE_DELAY * 2 ** (attempt - 1))
+    }
+
+    const start = Date.now()
+    try {
+      const data = await post(rpcUrl, body)
+      reportEndpointSuccess(rpcUrl, Date.now() - start)
+      return data
+    } catch (error) {
+      reportEndpointFailure(rpcUrl, error)
+      lastError = error
+    }
+  }
+
+  throw lastError
+}
+
+/**
+ * Sends a list of calls to the node, as a single object when there is only
+ * one call and as a JSON-RPC 2.0 batch array otherwise. Calls answered with
+ * a retryable error (rate limit, timeout) are sent again with a backoff.
+ * @param calls The calls to send
+ * @param attempt The number of times these calls were already sent
+ */
+async function sendBatch(calls: PendingCall[], attempt = 0) {
+  const payloads = calls.map((call) => call.payload)
+  const isBatch = payloads.length > 1
+
+  let data: RpcResponse | RpcResponse[]
+  try {
+    data = await postWithFailover(isBatch ? payloads : payloads[0])
+  } catch (error) {
+    const methods = [...new Set(payloads.map((p) => p.method))].join(", ")
+    calls.forEach((call) =>
+      call.reject(new TransportError(`${methods} call failed.`, { cause: error }))
+    )
+    return
   }
 
-  const data = await response.json()
+  const responses = Array.isArray(data) ? data : [data]
+  const byId = new Map(responses.map((res) => [res.id, res]))
+  const recorded: RpcFixtureEntry[] = []
+  const retries: PendingCall[] = []
+
+  for (const call of calls) {
+    // A single non-batched call may be answered with a null id on error
+    const res =
+      byId.get(call.payload.id) ?? (!isBatch ? responses[0] : undefined)
+    const error = res?.error
+      ? new JsonRpcError(res.error.message, {
+          code: res.error.code,
+          data: res.error.data
+        })
+      : null
+
+    if (error && isRetryableError(error) && attempt < MIN_ATTEMPTS - 1) {
+      retries.push(call)
+      continue
+    }
+
+    if (res) {
+      const { method, params } = call.payload
+      recorded.push(
+        res.error
+          ? { method, params, error: res.error }
+          : { method, params, result: res.result ?? null }
+      )
+    }
+
+    if (!res) {
+      call.reject(new TransportError(`${call.payload.method} call failed.`))
+    } else if (error) {
+      call.reject(error)
+    } else {
+      try {
+        call.resolve(validateRpcResult(call.payload.method, res.result ?? null))
+      } catch (error) {
+        call.reject(error)
+      }
+    }
+  }
+
+  if (getFixtureMode() === "record") recordFixtureEntries(recorded)
+
+  if (retries.length > 0) {
+    await wait(RETRY_BASE_DELAY * 2 ** attempt)
+    await sendBatch(retries, attempt + 1)
+  }
+}
+
+/**
+ * Answers a call with the response recorded in the replayed fixture
+ * @param method The JSON-RPC method
+ * @param params The method parameters
+ */
+async function replay<T>(method: string, params: any[]): Promise<T | null> {
+  const entry = findReplayEntry(method, params)
+
+  if (!entry) {
+    throw new JsonRpcError(`No recorded response for ${method}`, {
+      code: -32601
+    })
+  }
+  if (entry.error) {
+    throw new JsonRpcError(entry.error.message, {
+      code: entry.error.code,
+      data: entry.error.data
+    })
+  }
+  return validateRpcResult(method, entry.result ?? null)
+}
+
+function flush() {
+  flushScheduled = false
+  const calls = queue
+  queue = []
+
+  for (let i = 0; i < calls.length; i += MAX_BATCH_SIZE) {
+    sendBatch(calls.slice(i, i + MAX_BATCH_SIZE))
+  }
+}
+
+/**
+ * Calls a JSON-RPC method on the Helios node.
+ * Calls made within the same tick are sent together as one batch, and
+ * identical calls still in flight share the same response. The batch goes
+ * to the healthiest configured endpoint, with failover to the others, and
+ * each result is validated against the schema of its method.
+ * In debug mode, calls can be recorded into a fixture or replayed from one.
+ * @param method The JSON-RPC method
+ * @param params The method parameters
+ * @returns The call result, or null when the node returns none
+ */
+function request<T>(method: string, params: any[]): Promise<T | null> {
+  if (getFixtureMode() === "replay") return replay<T>(method, params)
+
+  const key = `${method}|${JSON.stringify(params)}`
+
+  const existing = inFlight.get(key)
+  if (existing) return existing
+
+  const promise = new Promise<T | null>((resolve, reject) => {
+    queue.push({
+      payload: { jsonrpc: "2.0", method, params, id: nextId++ },
+      resolve,
+      reject
+    })
+  }).finally(() => {
+    inFlight.delete(key)
+  })
+
+  inFlight.set(key, promise)
 
-  if (data.error) {
-    throw new Error(data.error.message)
+  if (!flushScheduled) {
+    flushScheduled = true
+    // Wait for the current task to end so every call it triggers is batched
+    setTimeout(flush, 0)
   }
 
-  return data.result ?? null
+  return promise
 }
 
 export { request }
@@ -6,8 +6,13 @@ import { Proposal } from "@/types/proposal"
 import { Transaction, TransactionLast } from "@/types/transaction"
 import { Validator, ValidatorWithAssetsCommission, ValidatorWithDelegationCommission } from "@/types/validator"
 import { WhitelistedAsset } from "@/types/whitelistedAsset"
-import { HyperionBridgeTx, HyperionChain } from "@/types/hyperion"
+import {
+  HyperionBridgeTx,
+  HyperionChain,
+  ValidatorHyperionData
+} from "@/types/hyperion"
 import { TokenDenom } from "@/types/denom"
+import { FeeHistory } from "@/types/fee"
 import { toHex } from "viem"
 
 export const getTokenBalance = (
@@ -95,11 +100,21 @@ export const getAllWhitelistedAssets = () =>
 
 export const getLatestBlockNumber = () => request<string>("eth_blockNumber", [])
 
-export const getBlockByNumber = (blockNumber: string) =>
-  request<Block>("eth_getBlockByNumber", [blockNumber, false])
+export const getBlockByNumber = (
+  blockNumber: string,
+  includeTransactionFull = false
+) =>
+  request<Block>("eth_getBlockByNumber", [blockNumber, includeTransactionFull])
 
 export const getGasPrice = () => request<string>("eth_gasPrice", [])
 
+export const getFeeHistory = (blockCount: number, percentiles: number[]) =>
+  request<FeeHistory>("eth_feeHistory", [
+    toHex(blockCount),
+    "latest",
+    percentiles
+  ])
+
 export const getHyperionChains = () =>
   request<HyperionChain[]>("eth_getHyperionChains", [])
 
@@ -145,5 +160,8 @@ export const getLastTransactions = (size: string) =>
 export const getAccountLastTransactions = (address: string) =>
   request<TransactionLast[]>("eth_getAccountLastTransactionsInfo", [address])
 
-export const getAllHyperionTransferTxs = async () =>
-  request<HyperionBridgeTx[]>("eth_getAllHyperionTransferTxs", [toHex(10)])
+export const getAllHyperionTransferTxs = async (size = 10) =>
+  request<HyperionBridgeTx[]>("eth_getAllHyperionTransferTxs", [toHex(size)])
+
+export const getValidatorHyperionData = (address: string) =>
+  request<ValidatorHyperionData>("eth_getValidatorHyperionData", [address])
@@ -0,0 +1,136 @@
+import { z } from "zod"
+import { useAppStore } from "@/stores/app"
+import {
+  RpcFixture,
+  RpcFixtureEntry,
+  RpcFixtureMode,
+  useRpcFixturesStore
+} from "@/stores/rpc-fixtures"
+
+const fixtureSchema = z.object({
+  version: z.literal(1),
+  createdAt: z.string(),
+  endpoint: z.string().nullable(),
+  entries: z.array(
+    z.object({
+      method: z.string(),
+      params: z.array(z.any()),
+      result: z.any().optional(),
+      error: z
+        .object({ code: z.number(), message: z.string(), data: z.any() })
+        .optional()
+    })
+  )
+})
+
+const entryKey = (method: string, params: any[]) =>
+  `${method}|${JSON.stringify(params)}`
+
+// Position of the next response to replay for each call
+let replayCursors = new Map<string, number>()
+let replayIndex: Map<string, RpcFixtureEntry[]> | null = null
+let indexedFixture: RpcFixture | null = null
+
+/**
+ * Gets the fixture mode in effect, capture and replay only run in debug mode
+ */
+export function getFixtureMode(): RpcFixtureMode {
+  if (typeof window === "undefined" || !useAppStore.getState().debugMode) {
+    return "off"
+  }
+  return useRpcFixturesStore.getState().mode
+}
+
+/**
+ * Records calls and the raw responses the node returned for them
+ * @param entries The recorded calls
+ */
+export function recordFixtureEntries(entries: RpcFixtureEntry[]) {
+  if (entries.length > 0) useRpcFixturesStore.getState().addRecorded(entries)
+}
+
+/**
+ * Finds the recorded response of a call in the replayed fixture. When the
+ * same call was recorded several times (polling), the responses are served
+ * in order and the last one is repeated.
+ * @param method The JSON-RPC method
+ * @param params The method parameters
+ * @returns The recorded entry, or null when the call was never recorded
+ */
+export function findReplayEntry(
+  method: string,
+  params: any[]
+): RpcFixtureEntry | null {
+  const fixture = useRpcFixturesStore.getState().replayFixture
+  if (!fixture) return null
+
+  if (indexedFixture !== fixture || !replayIndex) {
+    replayIndex = new Map()
+    replayCursors = new Map()
+    indexedFixture = fixture
+    for (const entry of fixture.entries) {
+      const key = entryKey(entry.method, entry.params)
+      replayIndex.set(key, [...(replayIndex.get(key) ?? []), entry])
+    }
+  }
+
+  const key = entryKey(method, params)
+  const entries = replayIndex.get(key)
+  if (!entries) return null
+
+  const cursor = replayCursors.get(key) ?? 0
+  replayCursors.set(key, cursor + 1)
+  return entries[Math.min(cursor, entries.length - 1)]
+}
+
+/**
+ * Builds a fixture file from the recorded calls
+ * @param entries The recorded calls
+ * @param endpoint The endpoint the calls were recorded from
+ */
+export function createFixture(
+  entries: RpcFixtureEntry[],
+  endpoint: string | null
+): RpcFixture {
+  return {
+    version: 1,
+    createdAt: new Date().toISOString(),
+    endpoint,
+    entries
+  }
+}
+
+/**
+ * Parses a fixture file
+ * @param content The file content
+ * @returns The fixture
+ * @throws When the content is not a valid fixture
+ */
+export function parseFixture(content: string): RpcFixture {
+  let data: unknown
+  try {
+    data = JSON.parse(content)
+  } catch {
+    throw new Error("The fixture file is not valid JSON")
+  }
+
+  const parsed = fixtureSchema.safeParse(data)
+  if (!parsed.success) throw new Error("The file is not a RPC fixture")
+  return parsed.data as RpcFixture
+}
+
+/**
+ * Downloads a fixture as a JSON file
+ * @param fixture The fixture to download
+ */
+export function downloadFixture(fixture: RpcFixture) {
+  const blob = new Blob([JSON.stringify(fixture, null, 2)], {
+    type: "application/json"
+  })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = `helios-rpc-fixture-${fixture.createdAt.replace(/[:.]/g, "-")}.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,96 @@
+import { RpcEndpointHealth, useRpcStore } from "@/stores/rpc"
+
+// Latency assumed for endpoints that have not been used yet
+const UNKNOWN_LATENCY = 500
+// Penalty in milliseconds per position in the configured list
+const PREFERENCE_PENALTY = 200
+
+/**
+ * Scores an endpoint from its latency and error rate, lower is better
+ * @param health The endpoint health, if any was recorded
+ * @param index The endpoint position in the configured list
+ * @returns The endpoint score
+ */
+export function getEndpointScore(
+  health: RpcEndpointHealth | undefined,
+  index: number
+): number {
+  const latency = health?.latency ?? UNKNOWN_LATENCY
+  const errorRate = health?.errorRate ?? 0
+
+  return latency * (1 + errorRate * 4) + index * PREFERENCE_PENALTY
+}
+
+/**
+ * Orders endpoints by health: available endpoints by score first, then
+ * the ones cooling down after failures, soonest available first
+ * @param urls The configured endpoints, preferred first
+ * @returns The endpoints in the order they should be tried
+ */
+export function getOrderedEndpoints(urls: string[]): string[] {
+  const { endpoints } = useRpcStore.getState()
+  const now = Date.now()
+
+  const scored = urls.map((url, index) => ({
+    url,
+    score: getEndpointScore(endpoints[url], index),
+    cooldownUntil: endpoints[url]?.cooldownUntil ?? 0
+  }))
+
+  const available = scored
+    .filter((e) => e.cooldownUntil <= now)
+    .sort((a, b) => a.score - b.score)
+  const coolingDown = scored
+    .filter((e) => e.cooldownUntil > now)
+    .sort((a, b) => a.cooldownUntil - b.cooldownUntil)
+
+  return [...available, ...coolingDown].map((e) => e.url)
+}
+
+/**
+ * Records a successful call and marks the endpoint as active, keeping
+ * track of why the previous active endpoint was left
+ * @param url The endpoint that answered
+ * @param latency The call duration in milliseconds
+ */
+export function reportEndpointSuccess(url: string, latency: number) {
+  const { activeUrl, endpoints, recordSuccess, setActive } =
+    useRpcStore.getState()
+
+  recordSuccess(url, latency)
+
+  if (activeUrl === url) return
+
+  const previous = activeUrl ? endpoints[activeUrl] : undefined
+  let reason: string | null = null
+  if (previous?.consecutiveFailures) {
+    reason = `${getEndpointName(previous.url)} failed: ${previous.lastError}`
+  } else if (previous) {
+    reason = `${getEndpointName(previous.url)} was slower`
+  }
+
+  setActive(url, reason)
+}
+
+/**
+ * Records a failed call on an endpoint
+ * @param url The endpoint that failed
+ * @param error The transport error
+ */
+export function reportEndpointFailure(url: string, error: unknown) {
+  const message = error instanceof Error ? error.message : String(error)
+  useRpcStore.getState().recordFailure(url, message)
+}
+
+/**
+ * Returns a short display name for an endpoint
+ * @param url The endpoint URL
+ * @returns The endpoint host, or the URL itself if it can't be parsed
+ */
+export function getEndpointName(url: string): string {
+  try {
+    return new URL(url).host
+  } catch {
+    return url
+  }
+}
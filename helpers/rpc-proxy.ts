@@ -0,0 +1,271 @@
+import { env } from "@/env"
+import { RPC_ENDPOINTS } from "@/config/app"
+import { TransportError } from "./errors"
+
+export interface RpcProxyCall {
+  jsonrpc: "2.0"
+  id: number | string | null
+  method: string
+  params?: any[]
+}
+
+export interface RpcProxyResponse {
+  jsonrpc: "2.0"
+  id: number | string | null
+  result?: any
+  error?: { code: number; message: string; data?: any }
+}
+
+// Time to live of a cached result in milliseconds, 0 to never cache it
+type CachePolicy = number | ((params: any[], result: any) => number)
+
+const SECOND = 1000
+const MINUTE = 60 * SECOND
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+
+// Maximum number of results kept in the cache
+const MAX_CACHE_ENTRIES = 1000
+// Time after which an upstream is considered unresponsive
+const UPSTREAM_TIMEOUT = 10_000
+// Largest batch accepted, the portal client never sends more (request.ts)
+const MAX_BATCH_SIZE = 50
+
+const INVALID_REQUEST = -32600
+const METHOD_NOT_ALLOWED = -32601
+
+const isBlockTag = (value: unknown) =>
+  value === "latest" || value === "pending" || value === "safe"
+
+/**
+ * Cache policy of every Helios method the portal reads, the keys also
+ * make the proxy allowlist. Shared reads are cached, account-specific
+ * and head-of-chain reads are not.
+ */
+export const RPC_CACHE_POLICIES: Record<string, CachePolicy> = {
+  eth_blockNumber: 0,
+  eth_gasPrice: 0,
+  eth_getTokenBalance: 0,
+  eth_getAccountTokensBalanceByPageAndSize: 0,
+  eth_getDelegation: 0,
+  eth_getDelegations: 0,
+  eth_getAccountTransactionsByPageAndSize: 0,
+  eth_getAccountLastTransactionsInfo: 0,
+  eth_getHyperionAccountTransferTxsByPageAndSize: 0,
+  eth_getCosmosAddress: DAY,
+  eth_getCosmosValoperAddress: DAY,
+  eth_getTokenDetails: 5 * MINUTE,
+  eth_getTokensByPageAndSize: 5 * MINUTE,
+  eth_getTokensByChainIdAndPageAndSize: 5 * MINUTE,
+  eth_getHyperionChains: 5 * MINUTE,
+  eth_getAllWhitelistedAssets: 5 * MINUTE,
+  eth_getValidatorHyperionData: MINUTE,
+  eth_getValidatorsByPageAndSize: 30 * SECOND,
+  eth_getValidator: 30 * SECOND,
+  eth_getValidatorWithHisDelegationAndCommission: 30 * SECOND,
+  eth_getValidatorWithHisAssetsAndCommission: 30 * SECOND,
+  eth_getActiveValidatorCount: 30 * SECOND,
+  eth_getProposalsByPageAndSize: 30 * SECOND,
+  eth_getProposalsCount: 30 * SECOND,
+  // Finished proposals don't change anymore
+  eth_getProposal: (_, result) =>
+    result?.status === "VOTING_PERIOD" || result?.status === "DEPOSIT_PERIOD"
+      ? 10 * SECOND
+      : DAY,
+  // Past blocks are final, the head is not
+  eth_getBlockByNumber: ([block]) => (isBlockTag(block) ? 0 : HOUR),
+  eth_getBlocksByPageAndSize: 5 * SECOND,
+  eth_getTransactionsByPageAndSize: 5 * SECOND,
+  eth_listTransactions: 5 * SECOND,
+  eth_getLastTransactionsInfo: 5 * SECOND,
+  eth_getAllHyperionTransferTxs: 5 * SECOND
+}
+
+// Standard read methods forwarded without caching
+const UNCACHED_METHODS = [
+  "eth_chainId",
+  "net_version",
+  "eth_getBalance",
+  "eth_getTransactionCount",
+  "eth_getTransactionByHash",
+  "eth_getTransactionReceipt",
+  "eth_call",
+  "eth_estimateGas",
+  "eth_feeHistory",
+  "eth_maxPriorityFeePerGas"
+]
+
+const cache = new Map<string, { result: any; expiresAt: number }>()
+
+/**
+ * Tells whether the proxy forwards a method
+ * @param method The JSON-RPC method
+ */
+export function isMethodAllowed(method: string): boolean {
+  return method in RPC_CACHE_POLICIES || UNCACHED_METHODS.includes(method)
+}
+
+/**
+ * Gets how long a result can be served from the cache
+ * @param method The JSON-RPC method
+ * @param params The method parameters
+ * @param result The result returned by the node
+ * @returns The time to live in milliseconds, 0 when it must not be cached
+ */
+export function getCacheTtl(method: string, params: any[], result: any) {
+  const policy = RPC_CACHE_POLICIES[method] ?? 0
+  return typeof policy === "function" ? policy(params, result) : policy
+}
+
+/**
+ * Gets the nodes the proxy forwards to, RPC_PROXY_UPSTREAM_URLS when set
+ */
+export function getRpcUpstreams(): string[] {
+  const upstreams = env.RPC_PROXY_UPSTREAM_URLS?.split(",")
+    .map((url) => url.trim())
+    .filter(Boolean)
+  return upstreams?.length ? upstreams : RPC_ENDPOINTS
+}
+
+const cacheKey = (method: string, params: any[]) =>
+  `${method}|${JSON.stringify(params)}`
+
+function readCache(key: string) {
+  const entry = cache.get(key)
+  if (!entry) return undefined
+  if (entry.expiresAt <= Date.now()) {
+    cache.delete(key)
+    return undefined
+  }
+  return entry.result
+}
+
+function writeCache(key: string, result: any, ttl: number) {
+  if (ttl <= 0 || result === null || result === undefined) return
+  // Maps keep insertion order, so the first key is the oldest entry
+  if (cache.size >= MAX_CACHE_ENTRIES) {
+    cache.delete(cache.keys().next().value!)
+  }
+  cache.set(key, { result, expiresAt: Date.now() + ttl })
+}
+
+/**
+ * Posts calls to the upstream nodes, trying each one in order
+ * @param calls The calls to forward
+ * @returns The node responses
+ */
+async function postUpstream(calls: RpcProxyCall[]) {
+  const body = calls.length === 1 ? calls[0] : calls
+  let lastError: unknown
+
+  for (const upstream of getRpcUpstreams()) {
+    try {
+      const response = await fetch(upstream, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(UPSTREAM_TIMEOUT),
+        cache: "no-store"
+      })
+      if (!response.ok) {
+        throw new TransportError(`HTTP ${response.status}`, {
+          status: response.status
+        })
+      }
+      const data = (await response.json()) as
+        | RpcProxyResponse
+        | RpcProxyResponse[]
+      return Array.isArray(data) ? data : [data]
+    } catch (error) {
+      lastError = error
+    }
+  }
+
+  throw new TransportError("No upstream RPC node answered", {
+    cause: lastError
+  })
+}
+
+const errorResponse = (
+  id: RpcProxyCall["id"],
+  code: number,
+  message: string
+): RpcProxyResponse => ({ jsonrpc: "2.0", id, error: { code, message } })
+
+/**
+ * Answers a JSON-RPC call or batch: empty or oversized batches are refused
+ * as a whole, calls outside the allowlist are refused, cached results are
+ * served directly and the remaining calls are forwarded upstream as one
+ * batch
+ * @param payload The single call or batch received
+ * @returns The responses, in the shape of the payload
+ * @throws TransportError when no upstream node answers
+ */
+export async function proxyRpc(
+  payload: RpcProxyCall | RpcProxyCall[]
+): Promise<RpcProxyResponse | RpcProxyResponse[]> {
+  const calls = Array.isArray(payload) ? payload : [payload]
+  if (calls.length === 0 || calls.length > MAX_BATCH_SIZE) {
+    return errorResponse(
+      null,
+      INVALID_REQUEST,
+      `batches must hold between 1 and ${MAX_BATCH_SIZE} calls`
+    )
+  }
+
+  const responses = new Map<RpcProxyCall, RpcProxyResponse>()
+  const forwarded: RpcProxyCall[] = []
+
+  for (const call of calls) {
+    if (!call || typeof call.method !== "string") {
+      responses.set(
+        call,
+        errorResponse(call?.id ?? null, INVALID_REQUEST, "invalid request")
+      )
+    } else if (!isMethodAllowed(call.method)) {
+      responses.set(
+        call,
+        errorResponse(
+          call.id,
+          METHOD_NOT_ALLOWED,
+          `the method ${call.method} is not available through the portal`
+        )
+      )
+    } else {
+      const result = readCache(cacheKey(call.method, call.params ?? []))
+      if (result !== undefined) {
+        responses.set(call, { jsonrpc: "2.0", id: call.id, result })
+      } else {
+        forwarded.push(call)
+      }
+    }
+  }
+
+  if (forwarded.length > 0) {
+    // Calls are numbered by position upstream, client ids may repeat or be
+    // null and would not tell the responses apart
+    const upstreamResponses = await postUpstream(
+      forwarded.map((call, index) => ({ ...call, id: index }))
+    )
+    const byIndex = new Map(upstreamResponses.map((res) => [res.id, res]))
+
+    for (const [index, call] of forwarded.entries()) {
+      const res =
+        byIndex.get(index) ??
+        (forwarded.length === 1 ? upstreamResponses[0] : undefined) ??
+        errorResponse(call.id, -32603, "no response from the node")
+      const params = call.params ?? []
+      if (!res.error) {
+        writeCache(
+          cacheKey(call.method, params),
+          res.result,
+          getCacheTtl(call.method, params, res.result)
+        )
+      }
+      responses.set(call, { ...res, id: call.id })
+    }
+  }
+
+  const ordered = calls.map((call) => responses.get(call)!)
+  return Array.isArray(payload) ? ordered : ordered[0]
+}
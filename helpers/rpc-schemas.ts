@@ -0,0 +1,408 @@
+import { z } from "zod"
+import { env } from "@/env"
+import { RpcSchemaError } from "./errors"
+import { Block } from "@/types/block"
+import { Delegation } from "@/types/delegation"
+import { TokenDenom } from "@/types/denom"
+import { FeeHistory } from "@/types/fee"
+import {
+  HyperionBridgeTx,
+  HyperionChain,
+  ValidatorHyperionData
+} from "@/types/hyperion"
+import { Proposal } from "@/types/proposal"
+import { Token, TokenMetadataResponse, TokensBalance } from "@/types/token"
+import { Transaction, TransactionLast } from "@/types/transaction"
+import {
+  Validator,
+  ValidatorWithAssetsCommission,
+  ValidatorWithDelegationCommission
+} from "@/types/validator"
+import { WhitelistedAsset } from "@/types/whitelistedAsset"
+
+// Objects keep the fields the node returns on top of the declared ones
+const object = <T extends z.ZodRawShape>(shape: T) =>
+  z.object(shape).passthrough()
+
+const amountSchema = object({
+  denom: z.string(),
+  amount: z.string()
+})
+
+const commissionSchema = object({
+  commission_rates: object({
+    rate: z.string(),
+    max_rate: z.string(),
+    max_change_rate: z.string()
+  }),
+  update_time: z.string()
+})
+
+const validatorSchema: z.ZodType<Validator> = object({
+  apr: z.string(),
+  commission: commissionSchema,
+  description: object({
+    moniker: z.string(),
+    details: z.string().optional(),
+    security_contract: z.string().optional(),
+    website: z.string().optional()
+  }),
+  jailed: z.boolean(),
+  minDelegation: z.string(),
+  minSelfDelegation: z.string(),
+  moniker: z.string(),
+  shares: z.string(),
+  status: z.number(),
+  unbondingHeight: z.number(),
+  unbondingIds: z.array(z.string()).nullable(),
+  unbondingOnHoldRefCount: z.number(),
+  unbondingTime: z.string(),
+  validatorAddress: z.string(),
+  delegationAuthorization: z.boolean(),
+  totalBoost: z.string(),
+  boostPercentage: z.string()
+})
+
+const delegationAssetSchema = object({
+  denom: z.string(),
+  baseAmount: z.string(),
+  amount: z.string(),
+  weightedAmount: z.string(),
+  contractAddress: z.string()
+})
+
+const delegationSchema: z.ZodType<Delegation> = object({
+  validatorAddress: z.string(),
+  shares: z.string(),
+  assets: z.array(delegationAssetSchema),
+  rewards: object({
+    denom: z.string(),
+    amount: z.string(),
+    contractAddress: z.string()
+  }),
+  totalBoost: z.string()
+})
+
+const transactionSchema: z.ZodType<Transaction> = object({
+  blockHash: z.string(),
+  blockNumber: z.string(),
+  from: z.string(),
+  gas: z.string(),
+  gasPrice: z.string(),
+  maxFeePerGas: z.string().optional(),
+  maxPriorityFeePerGas: z.string().optional(),
+  hash: z.string(),
+  input: z.string(),
+  nonce: z.string(),
+  to: z.string().nullable(),
+  transactionIndex: z.string(),
+  value: z.string(),
+  type: z.string(),
+  accessList: z
+    .array(object({ address: z.string(), storageKeys: z.array(z.string()) }))
+    .optional(),
+  chainId: z.string(),
+  v: z.string(),
+  r: z.string(),
+  s: z.string()
+})
+
+const transactionLastSchema: z.ZodType<TransactionLast> = object({
+  RawTransaction: transactionSchema,
+  ParsedInfo: object({
+    amount: z.string().optional(),
+    denom: z.string().optional(),
+    contractAddress: z.string().optional(),
+    type: z.enum([
+      "BRIDGE_OUT",
+      "BRIDGE_IN",
+      "GOV_VOTE",
+      "STAKE_IN",
+      "STAKE_OUT",
+      "DEPOSIT",
+      "WITHDRAW",
+      "UNKNOWN"
+    ])
+  })
+})
+
+const blockSchema: z.ZodType<Block> = object({
+  baseFeePerGas: z.string(),
+  difficulty: z.string(),
+  extraData: z.string(),
+  gasLimit: z.string(),
+  gasUsed: z.string(),
+  hash: z.string(),
+  logsBloom: z.string(),
+  miner: z.string(),
+  mixHash: z.string(),
+  nonce: z.string(),
+  number: z.string(),
+  parentHash: z.string(),
+  receiptsRoot: z.string(),
+  sha3Uncles: z.string(),
+  size: z.string(),
+  stateRoot: z.string(),
+  timestamp: z.string(),
+  totalDifficulty: z.string(),
+  transactions: z.union([z.array(z.string()), z.array(transactionSchema)]),
+  transactionsRoot: z.string(),
+  uncles: z.array(z.string())
+})
+
+const tallyResultSchema = object({
+  yes_count: z.string(),
+  abstain_count: z.string(),
+  no_count: z.string(),
+  no_with_veto_count: z.string()
+})
+
+const proposalSchema: z.ZodType<Proposal> = object({
+  details: z.array(
+    object({
+      assets: z.array(
+        object({
+          denom: z.string(),
+          contract_address: z.string(),
+          chain_id: z.string()
+        })
+      ),
+      type: z.string()
+    })
+  ),
+  finalTallyResult: tallyResultSchema,
+  currentTallyResult: tallyResultSchema.optional(),
+  id: z.number(),
+  metadata: z.string(),
+  minDeposit: z.array(amountSchema),
+  options: z.array(object({ option: z.number(), weight: z.string() })),
+  proposer: z.string(),
+  status: z.string(),
+  statusCode: z.number(),
+  submitTime: z.string(),
+  summary: z.string(),
+  title: z.string(),
+  totalDeposit: z.array(amountSchema),
+  votingEndTime: z.string(),
+  votingStartTime: z.string()
+})
+
+const tokenMetadataSchema = object({
+  description: z.string(),
+  denomUnits: z.array(
+    object({ denom: z.string(), exponent: z.number().optional() })
+  ),
+  base: z.string(),
+  display: z.string(),
+  name: z.string(),
+  symbol: z.string(),
+  decimals: z.number(),
+  logo: z.string(),
+  contract_address: z.string(),
+  chainsMetadatas: z.array(
+    object({
+      chainId: z.number(),
+      symbol: z.string(),
+      decimals: z.number(),
+      contractAddress: z.string(),
+      isOriginated: z.boolean()
+    })
+  )
+})
+
+const tokenDetailSchema: z.ZodType<TokenMetadataResponse> = object({
+  metadata: tokenMetadataSchema,
+  holdersCount: z.number(),
+  total_supply: z.string()
+})
+
+const tokenDenomSchema: z.ZodType<TokenDenom> = tokenDetailSchema
+
+const tokensBalanceSchema: z.ZodType<TokensBalance> = object({
+  Balances: z.array(
+    object({
+      address: z.string(),
+      balance: z.string(),
+      balanceUI: z.string(),
+      decimals: z.number(),
+      denom: z.string(),
+      description: z.string(),
+      symbol: z.string()
+    })
+  ),
+  TotalCount: z.number()
+})
+
+const tokenSchema: z.ZodType<Token> = object({
+  address: z.string(),
+  enabled: z.boolean(),
+  owner: z.number(),
+  symbol: z.string()
+})
+
+const whitelistedAssetSchema: z.ZodType<WhitelistedAsset> = object({
+  denom: z.string(),
+  baseWeight: z.number(),
+  chainId: z.string(),
+  decimals: z.number(),
+  metadata: z.string(),
+  contractAddress: z.string(),
+  totalShares: z.string(),
+  networkPercentageSecurisation: z.string()
+})
+
+const hyperionChainSchema: z.ZodType<HyperionChain> = object({
+  hyperionContractAddress: z.string(),
+  chainId: z.number(),
+  name: z.string(),
+  chainType: z.string(),
+  logo: z.string(),
+  hyperionId: z.number(),
+  paused: z.boolean()
+})
+
+const hyperionTokenAmountSchema = object({
+  contract: z.string().optional(),
+  amount: z.string()
+})
+
+const hyperionBridgeTxSchema: z.ZodType<HyperionBridgeTx> = object({
+  hyperionId: z.number(),
+  id: z.number(),
+  height: z.number(),
+  sender: z.string(),
+  destAddress: z.string(),
+  receivedToken: hyperionTokenAmountSchema,
+  sentToken: hyperionTokenAmountSchema,
+  receivedFee: object({ amount: z.string() }),
+  sentFee: object({ amount: z.string() }),
+  status: z.string(),
+  direction: z.string(),
+  chainId: z.number(),
+  proof: object({ orchestrators: z.string(), hashs: z.string() }),
+  txHash: z.string(),
+  index: z.number().optional()
+})
+
+const validatorHyperionDataSchema: z.ZodType<ValidatorHyperionData> = object({
+  orchestrator: z.string(),
+  orchestrator_hyperion_data: z.array(
+    object({
+      hyperion_id: z.number(),
+      minimum_tx_fee: z.string(),
+      minimum_batch_fee: z.string(),
+      total_slash_amount: z.string(),
+      tx_out_transfered: z.number(),
+      tx_in_transfered: z.number(),
+      batch_created: z.number(),
+      batch_confirmed: z.number(),
+      fee_collected: z.string(),
+      external_data_tx_fee_collected: z.string()
+    })
+  )
+})
+
+/**
+ * Expected result of every Helios RPC method used by the portal
+ */
+export const rpcSchemas: Record<string, z.ZodTypeAny> = {
+  eth_getTokenBalance: z.string(),
+  eth_getAccountTokensBalanceByPageAndSize: tokensBalanceSchema,
+  eth_getTokenDetails: tokenDetailSchema,
+  eth_getBlocksByPageAndSize: z.array(blockSchema),
+  eth_getCosmosAddress: z.string(),
+  eth_getCosmosValoperAddress: z.string(),
+  eth_getDelegation: delegationSchema,
+  eth_getDelegations: z.array(delegationSchema),
+  eth_getProposal: proposalSchema,
+  eth_getProposalsByPageAndSize: z.array(proposalSchema),
+  eth_getProposalsCount: z.string(),
+  eth_getTokensByPageAndSize: z.array(tokenSchema),
+  eth_getAccountTransactionsByPageAndSize: z.array(transactionSchema),
+  eth_getTransactionsByPageAndSize: z.array(transactionSchema),
+  eth_listTransactions: z.array(transactionSchema),
+  eth_getValidatorsByPageAndSize: z.array(validatorSchema),
+  eth_getActiveValidatorCount: z.number(),
+  eth_getAllWhitelistedAssets: z.array(whitelistedAssetSchema),
+  eth_blockNumber: z.string(),
+  eth_getBlockByNumber: blockSchema,
+  eth_gasPrice: z.string(),
+  eth_feeHistory: object({
+    oldestBlock: z.string(),
+    baseFeePerGas: z.array(z.string()),
+    gasUsedRatio: z.array(z.number()),
+    reward: z.array(z.array(z.string())).optional()
+  }) satisfies z.ZodType<FeeHistory>,
+  eth_getHyperionChains: z.array(hyperionChainSchema),
+  eth_getTokensByChainIdAndPageAndSize: z.array(tokenDenomSchema),
+  eth_getHyperionAccountTransferTxsByPageAndSize: z.array(
+    hyperionBridgeTxSchema
+  ),
+  eth_getValidator: validatorSchema,
+  eth_getValidatorWithHisDelegationAndCommission: object({
+    validator: validatorSchema,
+    delegation: object({
+      validatorAddress: z.string(),
+      shares: z.string(),
+      assets: z.array(
+        delegationAssetSchema.extend({
+          price: z.number(),
+          logo: z.string().optional(),
+          color: z.string().optional()
+        })
+      ),
+      rewards: amountSchema
+    }),
+    commission: amountSchema
+  }) satisfies z.ZodType<ValidatorWithDelegationCommission>,
+  eth_getValidatorWithHisAssetsAndCommission: object({
+    validator: validatorSchema,
+    assets: z.array(
+      object({
+        baseAmount: z.string(),
+        denom: z.string(),
+        weightedAmount: z.string(),
+        contractAddress: z.string()
+      })
+    ),
+    commission: amountSchema
+  }) satisfies z.ZodType<ValidatorWithAssetsCommission>,
+  eth_getLastTransactionsInfo: z.array(transactionLastSchema),
+  eth_getAccountLastTransactionsInfo: z.array(transactionLastSchema),
+  eth_getAllHyperionTransferTxs: z.array(hyperionBridgeTxSchema),
+  eth_getValidatorHyperionData: validatorHyperionDataSchema
+}
+
+/**
+ * Validation mode for RPC results:
+ * - strict: a result that doesn't match its schema throws
+ * - tolerant: the mismatch is logged and the raw result is used
+ * - off: results are not validated
+ */
+export type RpcValidationMode = "strict" | "tolerant" | "off"
+
+export const RPC_VALIDATION_MODE: RpcValidationMode =
+  env.NEXT_PUBLIC_RPC_VALIDATION ??
+  (env.NEXT_PUBLIC_NODE_ENV === "production" ? "tolerant" : "strict")
+
+/**
+ * Validates a RPC result against the schema of its method
+ * @param method The JSON-RPC method
+ * @param result The raw result returned by the node
+ * @returns The validated result
+ */
+export function validateRpcResult<T>(method: string, result: T): T {
+  const schema = rpcSchemas[method]
+  if (!schema || result === null || RPC_VALIDATION_MODE === "off") {
+    return result
+  }
+
+  const parsed = schema.safeParse(result)
+  if (parsed.success) return parsed.data
+
+  const error = new RpcSchemaError(method, parsed.error)
+  if (RPC_VALIDATION_MODE === "strict") throw error
+
+  console.warn(error.message, error.issues)
+  return result
+}
@@ -0,0 +1,178 @@
+import { RPC_WS_URL } from "@/config/app"
+import { useRpcStore } from "@/stores/rpc"
+
+export interface LogFilter {
+  address?: string | string[]
+  topics?: (string | string[] | null)[]
+}
+
+export type SubscriptionParams = ["newHeads"] | ["logs", LogFilter]
+
+type Listener = (data: any) => void
+
+interface Subscription {
+  params: SubscriptionParams
+  listeners: Set<Listener>
+  id: string | null
+}
+
+// Delay before reconnecting, doubled on each failed attempt
+const RECONNECT_BASE_DELAY = 1000
+const RECONNECT_MAX_DELAY = 30_000
+
+let socket: WebSocket | null = null
+let nextId = 1
+let reconnectAttempts = 0
+let reconnectTimeout: ReturnType<typeof setTimeout> | null = null
+
+// Subscriptions by params, shared by every listener with the same params
+const subscriptions = new Map<string, Subscription>()
+// Subscriptions by node subscription id
+const subscriptionsById = new Map<string, Subscription>()
+// eth_subscribe calls waiting for their subscription id
+const pendingSubscribes = new Map<number, Subscription>()
+
+const setStatus = useRpcStore.getState().setWsStatus
+
+function send(method: string, params: any[]) {
+  const id = nextId++
+  socket?.send(JSON.stringify({ jsonrpc: "2.0", id, method, params }))
+  return id
+}
+
+function sendSubscribe(subscription: Subscription) {
+  const id = send("eth_subscribe", subscription.params)
+  pendingSubscribes.set(id, subscription)
+}
+
+function handleMessage(event: MessageEvent) {
+  let data: any
+  try {
+    data = JSON.parse(event.data)
+  } catch {
+    return
+  }
+
+  // Answer to an eth_subscribe call
+  const pending = pendingSubscribes.get(data.id)
+  if (pending) {
+    pendingSubscribes.delete(data.id)
+    if (data.error) {
+      console.error("eth_subscribe failed:", data.error.message)
+      return
+    }
+    // The subscription may have been dropped while waiting for its id
+    if (subscriptions.get(JSON.stringify(pending.params)) !== pending) {
+      send("eth_unsubscribe", [data.result])
+      return
+    }
+    pending.id = data.result
+    subscriptionsById.set(data.result, pending)
+    return
+  }
+
+  if (data.method === "eth_subscription") {
+    const subscription = subscriptionsById.get(data.params?.subscription)
+    subscription?.listeners.forEach((listener) => listener(data.params.result))
+  }
+}
+
+function scheduleReconnect() {
+  if (reconnectTimeout || subscriptions.size === 0) return
+
+  const delay = Math.min(
+    RECONNECT_BASE_DELAY * 2 ** reconnectAttempts,
+    RECONNECT_MAX_DELAY
+  )
+  reconnectAttempts++
+  reconnectTimeout = setTimeout(() => {
+    reconnectTimeout = null
+    connect()
+  }, delay)
+}
+
+function connect() {
+  if (!RPC_WS_URL || socket || typeof window === "undefined") return
+
+  setStatus("connecting")
+  const ws = new WebSocket(RPC_WS_URL)
+  socket = ws
+
+  ws.onopen = () => {
+    reconnectAttempts = 0
+    setStatus("open")
+    // Subscriptions are lost with the previous connection, so renew them all
+    subscriptions.forEach(sendSubscribe)
+  }
+  ws.onmessage = handleMessage
+  ws.onclose = () => {
+    if (socket !== ws) return
+    socket = null
+    subscriptionsById.clear()
+    pendingSubscribes.clear()
+    subscriptions.forEach((subscription) => (subscription.id = null))
+    setStatus("closed")
+    scheduleReconnect()
+  }
+  ws.onerror = () => ws.close()
+}
+
+function disconnect() {
+  if (reconnectTimeout) {
+    clearTimeout(reconnectTimeout)
+    reconnectTimeout = null
+  }
+  const ws = socket
+  socket = null
+  ws?.close()
+  setStatus("closed")
+}
+
+/**
+ * Tells whether live subscriptions are configured
+ */
+export function isSubscriptionAvailable(): boolean {
+  return !!RPC_WS_URL && typeof window !== "undefined"
+}
+
+/**
+ * Subscribes to a node event stream over the WebSocket transport.
+ * Listeners with the same params share one node subscription, and
+ * subscriptions are renewed automatically after a reconnection.
+ * @param params The eth_subscribe params, newHeads or logs with a filter
+ * @param listener Called with each pushed result
+ * @returns A function that removes the listener
+ */
+export function subscribe(
+  params: SubscriptionParams,
+  listener: Listener
+): () => void {
+  if (!isSubscriptionAvailable()) return () => {}
+
+  const key = JSON.stringify(params)
+  let subscription = subscriptions.get(key)
+
+  if (!subscription) {
+    subscription = { params, listeners: new Set(), id: null }
+    subscriptions.set(key, subscription)
+    if (socket?.readyState === WebSocket.OPEN) sendSubscribe(subscription)
+  }
+
+  subscription.listeners.add(listener)
+  connect()
+
+  const current = subscription
+  return () => {
+    current.listeners.delete(listener)
+    if (current.listeners.size > 0) return
+
+    subscriptions.delete(key)
+    if (current.id) {
+      subscriptionsById.delete(current.id)
+      if (socket?.readyState === WebSocket.OPEN) {
+        send("eth_unsubscribe", [current.id])
+      }
+    }
+    if (subscriptions.size === 0) disconnect()
+  }
+}
@@ -0,0 +1,187 @@
+import {
+  Abi,
+  AbiFunction,
+  AbiParameter,
+  Hex,
+  decodeFunctionData,
+  formatUnits,
+  isAddress,
+  toFunctionSelector
+} from "viem"
+import { getChainConfig } from "@/config/chain-config"
+import { HELIOS_NETWORK_ID } from "@/config/app"
+import { TransactionFees } from "@/types/fee"
+import {
+  PreviewArgument,
+  TransactionPreview,
+  TransactionPreviewHints
+} from "@/types/transaction-preview"
+import { getMaxGasPrice } from "@/utils/gas"
+import { contracts } from "./contracts"
+
+const CONTRACT_NAMES: Record<keyof typeof contracts, string> = {
+  delegate: "Staking",
+  rewards: "Distribution",
+  governance: "Governance",
+  precompile: "ERC20 factory",
+  bridge: "Hyperion bridge",
+  hyperion: "Hyperion bridge",
+  wrapper: "Wrapped token",
+  erc20: "ERC20 token"
+}
+
+type ContractName = keyof typeof contracts
+
+// Generic ERC20 functions like approve are named after the token before the
+// wrapped token contract which has them too
+const registry = (
+  Object.entries(contracts) as [ContractName, { abi: Abi; address?: string }][]
+).sort(([a], [b]) => Number(b === "erc20") - Number(a === "erc20"))
+
+// The precompiles are known by address, the other contracts by the ABI
+// their function selector belongs to
+function identifyContract(address: string, data: Hex) {
+  const selector = data.slice(0, 10)
+  const byAddress = registry.find(
+    ([, contract]) =>
+      contract.address?.toLowerCase() === address.toLowerCase() &&
+      hasSelector(contract.abi, selector)
+  )
+  if (byAddress) return byAddress
+
+  return registry.find(
+    ([, contract]) => !contract.address && hasSelector(contract.abi, selector)
+  )
+}
+
+const hasSelector = (abi: Abi, selector: string) =>
+  abi.some(
+    (item) =>
+      item.type === "function" && toFunctionSelector(item) === selector
+  )
+
+const stringify = (value: unknown): string =>
+  typeof value === "bigint"
+    ? value.toString()
+    : Array.isArray(value)
+      ? `[${value.map(stringify).join(", ")}]`
+      : value !== null && typeof value === "object"
+        ? `{ ${Object.entries(value)
+            .map(([key, item]) => `${key}: ${stringify(item)}`)
+            .join(", ")} }`
+        : String(value)
+
+// A bytes32 holding an address padded with zeros, like Hyperion destinations
+const unpadAddress = (value: string) =>
+  /^0x0{24}[0-9a-f]{40}$/i.test(value) ? `0x${value.slice(26)}` : null
+
+function formatArgument(
+  input: AbiParameter,
+  value: unknown,
+  hints: TransactionPreviewHints
+): PreviewArgument {
+  const name = input.name || input.type
+  const amount = hints.amounts?.[name]
+
+  if (amount && typeof value === "bigint") {
+    return {
+      name,
+      type: input.type,
+      value: [formatUnits(value, amount.decimals), amount.symbol]
+        .filter(Boolean)
+        .join(" ")
+    }
+  }
+
+  if (typeof value === "string") {
+    const address = isAddress(value) ? value : unpadAddress(value)
+    if (address) {
+      return { name, type: input.type, value, address }
+    }
+  }
+
+  return { name, type: input.type, value: stringify(value) }
+}
+
+/**
+ * Formats the result of a simulated call
+ * @param result The decoded return value
+ */
+export function formatSimulationResult(result: unknown): string {
+  if (result === undefined || result === null) return "Succeeded"
+  if (result === true) return "Succeeded, the call returns true"
+  return `Succeeded, the call returns ${stringify(result)}`
+}
+
+/**
+ * Builds the human readable preview of a transaction from its calldata,
+ * decoded against the ABIs of the contract registry
+ * @param params The call, its chain, gas limit, fees and simulated result
+ * @param hints How to format token amounts
+ * @returns The preview shown before signing
+ */
+export function buildTransactionPreview(
+  {
+    chainId,
+    address,
+    data,
+    value,
+    gasLimit,
+    fees,
+    simulation
+  }: {
+    chainId: number
+    address: string
+    data: Hex
+    value?: bigint
+    gasLimit: bigint
+    fees: TransactionFees
+    simulation: unknown
+  },
+  hints: TransactionPreviewHints = {}
+): TransactionPreview {
+  const chain = getChainConfig(chainId)
+  const feeSymbol =
+    chain?.token ?? (chainId === HELIOS_NETWORK_ID ? "HLS" : "ETH")
+  const fee = formatUnits(gasLimit * getMaxGasPrice(fees), 18)
+  const contract = identifyContract(address, data)
+
+  if (!contract) {
+    return {
+      chainId,
+      contractName: "Unknown contract",
+      contractAddress: address,
+      functionName: data.slice(0, 10),
+      args: [{ name: "calldata", type: "bytes", value: data }],
+      value: value ? `${formatUnits(value, 18)} ${feeSymbol}` : undefined,
+      gasLimit,
+      fee,
+      feeSymbol,
+      simulation: formatSimulationResult(simulation)
+    }
+  }
+
+  const [name, { abi }] = contract
+  const decoded = decodeFunctionData({ abi, data })
+  const item = abi.find(
+    (entry): entry is AbiFunction =>
+      entry.type === "function" &&
+      entry.name === decoded.functionName &&
+      toFunctionSelector(entry) === data.slice(0, 10)
+  )
+
+  return {
+    chainId,
+    contractName: CONTRACT_NAMES[name],
+    contractAddress: address,
+    functionName: decoded.functionName,
+    args: (item?.inputs ?? []).map((input, index) =>
+      formatArgument(input, decoded.args?.[index], hints)
+    ),
+    value: value ? `${formatUnits(value, 18)} ${feeSymbol}` : undefined,
+    gasLimit,
+    fee,
+    feeSymbol,
+    simulation: formatSimulationResult(simulation)
+  }
+}
@@ -0,0 +1,364 @@
+import { Hex, TransactionReceipt } from "viem"
+import type Web3 from "web3"
+import { TransactionFees } from "@/types/fee"
+import {
+  MaxFeeCapExceededError,
+  PortalError,
+  RevertError,
+  TransactionDroppedError,
+  TransactionReplacedError,
+  TransactionTimeoutError,
+  toPortalError
+} from "./errors"
+
+export const DEFAULT_CONFIRMATIONS = 1
+export const DEFAULT_TRANSACTION_TIMEOUT = 3 * 60_000
+
+const DEFAULT_POLLING_INTERVAL = 2_000
+// Time a transaction can be unknown to the node before it counts as dropped
+const DEFAULT_DROP_TIMEOUT = 60_000
+// Number of recent blocks searched for the transaction replacing ours
+const REPLACEMENT_SEARCH_DEPTH = 20n
+// Gas price increase nodes require to replace a pending transaction, in percent
+const REPLACEMENT_PRICE_BUMP = 10n
+// Gas used by a plain transfer, which is what a cancellation sends
+const TRANSFER_GAS = 21_000n
+
+export interface WaitForTransactionOptions {
+  // Blocks mined on top of the transaction block, itself included
+  confirmations?: number
+  timeout?: number
+  pollingInterval?: number
+  dropTimeout?: number
+  onConfirmation?: (confirmations: number) => void
+  // The wallet sped the transaction up, the replacement is awaited instead
+  onReplaced?: (hash: Hex) => void
+}
+
+interface SentTransaction {
+  hash: string
+  from: string
+  to?: string | null
+  input: string
+  value: bigint
+  nonce: bigint
+}
+
+export type ReplacementKind = "speed-up" | "cancel"
+
+export interface ReplaceTransactionOptions {
+  kind: ReplacementKind
+  // Raised to the minimum increase the node accepts when lower
+  fees: TransactionFees
+  // Highest max fee per gas accepted once raised
+  maxFeeCap?: bigint | null
+}
+
+export interface BroadcastParameters {
+  from?: string
+  // Left out to deploy a contract
+  to?: string
+  data?: Hex
+  value?: bigint
+  nonce?: bigint
+  gas?: bigint
+  gasPrice?: bigint
+  maxFeePerGas?: bigint
+  maxPriorityFeePerGas?: bigint
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+const sameAddress = (a?: string | null, b?: string | null) =>
+  !!a && !!b && a.toLowerCase() === b.toLowerCase()
+
+function toSentTransaction(tx: any): SentTransaction {
+  return {
+    hash: tx.hash,
+    from: tx.from,
+    to: tx.to,
+    input: tx.input ?? tx.data ?? "0x",
+    value: BigInt(tx.value ?? 0),
+    nonce: BigInt(tx.nonce)
+  }
+}
+
+/**
+ * Sends a transaction signed by the wallet behind the provider, without
+ * waiting for it to be mined
+ * @param web3 The wallet provider
+ * @param tx The transaction
+ * @returns The transaction hash, once the wallet broadcast it
+ */
+export function broadcastTransaction(
+  web3: Web3,
+  tx: BroadcastParameters
+): Promise<Hex> {
+  return new Promise((resolve, reject) => {
+    const sending = web3.eth.sendTransaction(tx)
+    sending.on("transactionHash", (hash) => resolve(hash as Hex))
+    // Only the errors raised before the hash matter, a rejection after it
+    // is a no-op
+    sending.catch(reject)
+  })
+}
+
+/**
+ * Gets the reason a mined transaction reverted by replaying it on the state
+ * of its block
+ * @param web3 The provider of the chain the transaction was mined on
+ * @param hash The transaction hash
+ * @param blockNumber The block the transaction was mined in
+ * @returns The decoded revert reason, or null when none is available
+ */
+export async function getRevertReason(
+  web3: Web3,
+  hash: string,
+  blockNumber: bigint
+): Promise<string | null> {
+  try {
+    const tx = await web3.eth.getTransaction(hash)
+    if (!tx) return null
+    const { from, to, input, value } = toSentTransaction(tx)
+    if (!to) return null
+    await web3.eth.call({ from, to, data: input, value }, blockNumber)
+    return null
+  } catch (error) {
+    const portalError = toPortalError(error)
+    return portalError instanceof RevertError ? portalError.reason : null
+  }
+}
+
+/**
+ * Finds the mined transaction that used the same sender and nonce
+ * @param web3 The provider of the chain
+ * @param tx The replaced transaction
+ * @param fromBlock The block the search doesn't go below
+ */
+async function findReplacement(
+  web3: Web3,
+  tx: SentTransaction,
+  fromBlock: bigint
+): Promise<SentTransaction | null> {
+  const latest = await web3.eth.getBlockNumber()
+  const lowest =
+    latest - fromBlock > REPLACEMENT_SEARCH_DEPTH
+      ? latest - REPLACEMENT_SEARCH_DEPTH
+      : fromBlock
+
+  for (let number = latest; number >= lowest; number--) {
+    const block = await web3.eth.getBlock(number, true)
+    for (const candidate of block?.transactions ?? []) {
+      if (typeof candidate === "string") continue
+      const mined = toSentTransaction(candidate)
+      if (sameAddress(mined.from, tx.from) && mined.nonce === tx.nonce) {
+        return mined
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Polls the receipt of a transaction until it has enough confirmations.
+ * A sped up transaction (same call, higher fees) is followed to its
+ * replacement, any other outcome is thrown as an error.
+ * @param web3 The provider of the chain the transaction was sent on
+ * @param hash The transaction hash
+ * @param options Confirmations, timeout and progress callbacks
+ * @returns The receipt of the transaction, or of its replacement
+ * @throws RevertError when the transaction reverted, with its decoded reason
+ * @throws TransactionReplacedError when the nonce was used by another call
+ * @throws TransactionDroppedError when the node forgot the transaction
+ * @throws TransactionTimeoutError when no receipt arrived in time
+ */
+export async function waitForTransaction(
+  web3: Web3,
+  hash: Hex,
+  {
+    confirmations = DEFAULT_CONFIRMATIONS,
+    timeout = DEFAULT_TRANSACTION_TIMEOUT,
+    pollingInterval = DEFAULT_POLLING_INTERVAL,
+    dropTimeout = DEFAULT_DROP_TIMEOUT,
+    onConfirmation,
+    onReplaced
+  }: WaitForTransactionOptions = {}
+): Promise<TransactionReceipt> {
+  const deadline = Date.now() + timeout
+  const startBlock = await web3.eth.getBlockNumber()
+  let currentHash = hash
+  let sent: SentTransaction | null = null
+  let lastSeenAt = Date.now()
+  let reported = 0
+
+  while (Date.now() < deadline) {
+    const receipt = await web3.eth.getTransactionReceipt(currentHash)
+
+    if (receipt) {
+      if (Number(receipt.status) === 0) {
+        const reason = await getRevertReason(
+          web3,
+          currentHash,
+          receipt.blockNumber
+        )
+        throw new RevertError(reason)
+      }
+
+      const latest = await web3.eth.getBlockNumber()
+      const current = Math.min(
+        Number(latest - receipt.blockNumber) + 1,
+        confirmations
+      )
+      if (current > reported) {
+        reported = current
+        onConfirmation?.(current)
+      }
+      if (current >= confirmations) {
+        // web3 formats hashes as hex strings and numbers as bigints, like viem
+        return receipt as unknown as TransactionReceipt
+      }
+    } else {
+      const pending = await web3.eth.getTransaction(currentHash)
+
+      if (pending) {
+        sent = toSentTransaction(pending)
+        lastSeenAt = Date.now()
+      } else if (sent) {
+        const nonce = await web3.eth.getTransactionCount(sent.from, "latest")
+
+        if (nonce > sent.nonce) {
+          const replacement = await findReplacement(web3, sent, startBlock)
+          const isSpeedUp =
+            replacement &&
+            sameAddress(replacement.to, sent.to) &&
+            replacement.input === sent.input &&
+            replacement.value === sent.value
+
+          if (isSpeedUp) {
+            currentHash = replacement.hash as Hex
+            sent = replacement
+            onReplaced?.(currentHash)
+            continue
+          }
+
+          const isCancel =
+            replacement &&
+            sameAddress(replacement.to, replacement.from) &&
+            replacement.value === 0n
+          throw new TransactionReplacedError(currentHash, {
+            replacementHash: replacement?.hash ?? null,
+            reason: isCancel ? "cancelled" : "replaced"
+          })
+        }
+      }
+
+      if (!pending && Date.now() - lastSeenAt > dropTimeout) {
+        throw new TransactionDroppedError(currentHash)
+      }
+    }
+
+    await sleep(pollingInterval)
+  }
+
+  throw new TransactionTimeoutError(currentHash)
+}
+
+// The replacement fee, at least the minimum increase over the replaced one
+const bumpFee = (fee: bigint, previousFee: bigint) => {
+  const minimum = (previousFee * (100n + REPLACEMENT_PRICE_BUMP)) / 100n + 1n
+  return fee > minimum ? fee : minimum
+}
+
+/**
+ * Sends a new transaction with the nonce of a pending one, so that only one
+ * of them is mined. A speed-up repeats the same call, a cancellation sends
+ * nothing to the sender itself. The replacement has the type of the
+ * transaction it replaces.
+ * @param web3 The wallet provider, connected to the chain of the transaction
+ * @param hash The pending transaction
+ * @param options The kind of replacement and its fees
+ * @returns The hash and max gas price of the replacement, and the max gas
+ * price of the transaction it replaces
+ */
+export async function replaceTransaction(
+  web3: Web3,
+  hash: string,
+  { kind, fees, maxFeeCap }: ReplaceTransactionOptions
+): Promise<{ hash: Hex; gasPrice: bigint; previousGasPrice: bigint }> {
+  const tx: any = await web3.eth.getTransaction(hash)
+
+  if (!tx) {
+    throw new PortalError(
+      "The transaction is unknown to the network, it can't be replaced."
+    )
+  }
+  if (tx.blockNumber !== undefined && tx.blockNumber !== null) {
+    throw new PortalError(
+      "The transaction is already confirmed, it can't be replaced."
+    )
+  }
+
+  const sent = toSentTransaction(tx)
+  const maxFeePerGas =
+    fees.type === "eip1559" ? fees.maxFeePerGas : fees.gasPrice
+  const maxPriorityFeePerGas =
+    fees.type === "eip1559" ? fees.maxPriorityFeePerGas : fees.gasPrice
+
+  let feeParameters: Pick<
+    BroadcastParameters,
+    "gasPrice" | "maxFeePerGas" | "maxPriorityFeePerGas"
+  >
+  let previousGasPrice: bigint
+
+  if (tx.maxFeePerGas !== undefined && tx.maxFeePerGas !== null) {
+    previousGasPrice = BigInt(tx.maxFeePerGas)
+    feeParameters = {
+      maxFeePerGas: bumpFee(maxFeePerGas, previousGasPrice),
+      maxPriorityFeePerGas: bumpFee(
+        maxPriorityFeePerGas,
+        BigInt(tx.maxPriorityFeePerGas ?? 0)
+      )
+    }
+  } else {
+    previousGasPrice = BigInt(tx.gasPrice ?? 0)
+    feeParameters = { gasPrice: bumpFee(maxFeePerGas, previousGasPrice) }
+  }
+
+  const replacementGasPrice =
+    feeParameters.maxFeePerGas ?? feeParameters.gasPrice ?? 0n
+  if (maxFeeCap && replacementGasPrice > maxFeeCap) {
+    throw new MaxFeeCapExceededError({
+      maxFeePerGas: replacementGasPrice,
+      maxFeeCap
+    })
+  }
+
+  const replacementHash = await broadcastTransaction(
+    web3,
+    kind === "speed-up"
+      ? {
+          from: sent.from,
+          to: sent.to ?? undefined,
+          data: sent.input as Hex,
+          value: sent.value,
+          nonce: sent.nonce,
+          gas: BigInt(tx.gas),
+          ...feeParameters
+        }
+      : {
+          from: sent.from,
+          to: sent.from,
+          value: 0n,
+          nonce: sent.nonce,
+          gas: TRANSFER_GAS,
+          ...feeParameters
+        }
+  )
+
+  return {
+    hash: replacementHash,
+    gasPrice: replacementGasPrice,
+    previousGasPrice
+  }
+}
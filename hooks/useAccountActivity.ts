@@ -0,0 +1,47 @@
+import { useEffect } from "react"
+import { useQueryClient } from "@tanstack/react-query"
+import { useAccount } from "wagmi"
+import { getBlockByNumber } from "@/helpers/rpc-calls"
+import { isSubscriptionAvailable, subscribe } from "@/helpers/subscriptions"
+import { BlockHeader } from "@/types/block"
+import { Transaction } from "@/types/transaction"
+
+/**
+ * Watches new blocks for transactions sent from or to the connected account
+ * and invalidates the queries holding its balances and history
+ */
+export const useAccountActivity = () => {
+  const { address } = useAccount()
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    if (!address || !isSubscriptionAvailable()) return
+
+    const account = address.toLowerCase()
+
+    return subscribe(["newHeads"], async (head: BlockHeader) => {
+      try {
+        const block = await getBlockByNumber(head.number, true)
+        const transactions = (block?.transactions ?? []) as Transaction[]
+        const isInvolved = transactions.some(
+          (tx) =>
+            typeof tx === "object" &&
+            (tx.from?.toLowerCase() === account ||
+              tx.to?.toLowerCase() === account)
+        )
+
+        if (!isInvolved) return
+
+        await queryClient.invalidateQueries({
+          queryKey: ["delegations", address]
+        })
+        await queryClient.invalidateQueries({ queryKey: ["whitelistedAssets"] })
+        await queryClient.invalidateQueries({
+          queryKey: ["accountLastTxs", address]
+        })
+      } catch (error) {
+        console.error("Error checking block activity:", error)
+      }
+    })
+  }, [address, queryClient])
+}
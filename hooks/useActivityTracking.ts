@@ -0,0 +1,42 @@
+import { useQueryClient } from "@tanstack/react-query"
+import { useEffect } from "react"
+import { useAccount } from "wagmi"
+import {
+  getChainProvider,
+  isWatchingTransaction,
+  watchActivity
+} from "@/helpers/activity"
+import { selectAccountActivities, useActivityStore } from "@/stores/activity"
+
+/**
+ * Resumes the confirmation tracking of the pending transactions of the
+ * connected account, after a reload or once the modal that sent them is gone
+ */
+export const useActivityTracking = () => {
+  const { address } = useAccount()
+  const queryClient = useQueryClient()
+  const activities = useActivityStore((state) => state.activities)
+
+  useEffect(() => {
+    const pending = selectAccountActivities(activities, address).filter(
+      (activity) =>
+        activity.status === "pending" && !isWatchingTransaction(activity.hash)
+    )
+
+    for (const activity of pending) {
+      const web3 = getChainProvider(activity.chainId)
+      if (!web3) continue
+
+      watchActivity(web3, activity)
+        .then(() =>
+          Promise.all(
+            (activity.invalidate ?? []).map((queryKey) =>
+              queryClient.invalidateQueries({ queryKey })
+            )
+          )
+        )
+        // The outcome is recorded on the activity
+        .catch(() => {})
+    }
+  }, [activities, address, queryClient])
+}
@@ -0,0 +1,102 @@
+import { useMutation, useQuery } from "@tanstack/react-query"
+import { useAccount } from "wagmi"
+import { Address, formatUnits } from "viem"
+import { secondsToMilliseconds } from "date-fns"
+import { HELIOS_NETWORK_ID } from "@/config/app"
+import {
+  TokenAllowance,
+  fetchBridgeAllowances,
+  getBridgeSpenders
+} from "@/helpers/approvals"
+import { contracts } from "@/helpers/contracts"
+import { useChains } from "./useChains"
+import { useTransactionExecutor } from "./useTransactionExecutor"
+
+/**
+ * Lists the ERC20 allowances the connected account granted to the bridge
+ * contracts of every chain, and revokes or changes them
+ */
+export const useApprovals = () => {
+  const { address } = useAccount()
+  const { chains } = useChains()
+  const executor = useTransactionExecutor()
+
+  const spenders = getBridgeSpenders(chains, HELIOS_NETWORK_ID)
+
+  const qAllowances = useQuery({
+    queryKey: ["bridgeAllowances", address, spenders.map((s) => s.address)],
+    queryFn: async () =>
+      (
+        await Promise.all(
+          spenders.map((spender) => fetchBridgeAllowances(address!, spender))
+        )
+      ).flat(),
+    enabled: !!address && spenders.length > 0,
+    refetchInterval: secondsToMilliseconds(60)
+  })
+
+  const approveMutation = useMutation({
+    mutationFn: async ({
+      allowance,
+      amount
+    }: {
+      allowance: TokenAllowance
+      amount: bigint
+    }) => {
+      const readableAmount = formatUnits(amount, allowance.decimals)
+
+      return executor.execute(
+        {
+          ...contracts.erc20,
+          address: allowance.token,
+          functionName: "approve",
+          args: [allowance.spender as Address, amount]
+        },
+        {
+          chainId: allowance.chainId,
+          invalidate: [["bridgeAllowances", address]],
+          activity: {
+            type: "approve",
+            title:
+              amount === 0n
+                ? `Revoke ${allowance.symbol} allowance`
+                : `Set ${allowance.symbol} allowance to ${readableAmount}`,
+            params: {
+              token: allowance.token,
+              spender: allowance.spender,
+              amount: amount.toString()
+            }
+          },
+          preview: {
+            amounts: {
+              _value: {
+                decimals: allowance.decimals,
+                symbol: allowance.symbol
+              }
+            }
+          },
+          successMessage: () =>
+            amount === 0n
+              ? `${allowance.symbol} allowance revoked`
+              : `${allowance.symbol} allowance updated`
+        }
+      )
+    }
+  })
+
+  return {
+    allowances: qAllowances.data || [],
+    isLoading: qAllowances.isLoading,
+    revoke: (allowance: TokenAllowance) =>
+      approveMutation.mutateAsync({ allowance, amount: 0n }),
+    adjust: (allowance: TokenAllowance, amount: bigint) =>
+      approveMutation.mutateAsync({ allowance, amount }),
+    // The allowance being changed
+    pending: approveMutation.isPending
+      ? approveMutation.variables?.allowance
+      : undefined,
+    status: executor.status,
+    feedback: executor.feedback,
+    resetFeedback: executor.reset
+  }
+}
@@ -7,18 +7,23 @@ import { formatCurrency } from "@/lib/utils/number"
 import { fromHex, fromWeiToEther, secondsToMilliseconds } from "@/utils/number"
 import { fetchCGTokenData } from "@/utils/price"
 import { useQuery } from "@tanstack/react-query"
+import { useLiveBlock } from "./useLiveBlock"
 
 export const useBlockInfo = () => {
+  // Live heads replace polling when the WebSocket transport is available
+  const { head, previousHead, isLive } = useLiveBlock()
+
   const qBlockNumber = useQuery({
     queryKey: ["blockNumber"],
     queryFn: getLatestBlockNumber,
-    refetchInterval: secondsToMilliseconds(30)
+    refetchInterval: isLive ? false : secondsToMilliseconds(30),
+    enabled: !isLive
   })
 
   const qBlockData = useQuery({
     queryKey: ["blockData", qBlockNumber.data],
     queryFn: () => getBlockByNumber(qBlockNumber.data ?? "latest"),
-    enabled: !!qBlockNumber.data
+    enabled: !!qBlockNumber.data && !isLive
   })
 
   const qPreviousBlockData = useQuery({
@@ -33,7 +38,7 @@ export const useBlockInfo = () => {
           : "latest"
         ).toString()
       ),
-    enabled: !!qBlockNumber.data,
+    enabled: !!qBlockNumber.data && !isLive,
     refetchInterval: false
   })
 
@@ -48,24 +53,30 @@ export const useBlockInfo = () => {
     queryFn: getGasPrice
   })
 
+  const lastBlock = isLive ? head : qBlockData.data
+  const previousBlock = isLive ? previousHead : qPreviousBlockData.data
+
   let blockTime = 0
-  if (qBlockData.data && qPreviousBlockData.data) {
-    const currentBlockTimestamp = parseInt(qBlockData.data.timestamp)
-    const previousBlockTimestamp = parseInt(qPreviousBlockData.data.timestamp)
+  if (lastBlock && previousBlock) {
+    const currentBlockTimestamp = parseInt(lastBlock.timestamp)
+    const previousBlockTimestamp = parseInt(previousBlock.timestamp)
     const timeDifference = currentBlockTimestamp - previousBlockTimestamp
     blockTime = timeDifference
   }
 
+  const lastBlockNumber = isLive ? head?.number : qBlockNumber.data
+
   const gasPriceInETH = qGasPrice.data ? fromWeiToEther(qGasPrice.data) : "0"
   const heliosPrice = qHeliosPrice.data?.["helios"]?.price ?? 0
   const gasPriceInUSD = parseFloat(gasPriceInETH) * heliosPrice
 
   return {
-    lastBlockNumber: qBlockNumber.data ? fromHex(qBlockNumber.data) : 0,
+    lastBlockNumber: lastBlockNumber ? fromHex(lastBlockNumber) : 0,
     blockTime,
-    lastBlockTimestamp: qBlockData.data?.timestamp,
+    lastBlockTimestamp: lastBlock?.timestamp,
     gasPrice: gasPriceInETH,
     gasPriceUSD: formatCurrency(gasPriceInUSD),
+    isLive,
     isLoading:
       qBlockNumber.isLoading ||
       qBlockData.isLoading ||
@@ -1,42 +1,45 @@
-import { useState } from "react"
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
-import { useAccount, useChainId } from "wagmi"
-import { getErrorMessage } from "@/utils/string"
-import { useWeb3Provider } from "./useWeb3Provider"
+import { useAccount } from "wagmi"
+import { useChainGuard } from "./useChainGuard"
+import { useTransactionExecutor } from "./useTransactionExecutor"
 import { ethers } from "ethers"
+import { contracts, readContract } from "@/helpers/contracts"
 import {
-  BRIDGE_CONTRACT_ADDRESS,
-  bridgeSendToChainAbi,
-  bridgeSendToHeliosAbi,
-  erc20Abi
-} from "@/constant/helios-contracts"
-import {
-  getAllHyperionTransferTxs,
-  getHyperionAccountTransferTxsByPageAndSize,
-  getTokensByChainIdAndPageAndSize
-} from "@/helpers/rpc-calls"
-import { toHex, TransactionReceipt } from "viem"
+  fetchAllPages,
+  hyperionAccountTransfersPages,
+  tokensByChainPages
+} from "@/helpers/paginate"
+import { getAllHyperionTransferTxs } from "@/helpers/rpc-calls"
+import { Address, Hex, maxUint256 } from "viem"
 import { secondsToMilliseconds } from "date-fns"
 import { getChainConfig } from "@/config/chain-config"
-import { getBestGasPrice } from "@/lib/utils/gas"
 import { useTokenRegistry } from "./useTokenRegistry"
 import { TransactionLight } from "@/types/transaction"
-import { Feedback } from "@/types/feedback"
-import { HELIOS_NETWORK_ID, HELIOS_TOKEN_ADDRESS } from "@/config/app"
+import { HyperionBridgeTx } from "@/types/hyperion"
+import { HELIOS_NETWORK_ID } from "@/config/app"
 import { useChains } from "./useChains"
+import { usePaginatedQuery } from "./usePaginatedQuery"
+import { BridgeFeeQuote } from "@/types/bridge-fee"
+import {
+  bridgeTransferPath,
+  getBridgeTransferState,
+  getTransferHashes
+} from "@/helpers/bridge-lifecycle"
+import { useAppStore } from "@/stores/app"
 
 export const useBridge = () => {
   const { address } = useAccount()
-  const web3Provider = useWeb3Provider()
+  const { ensureChain } = useChainGuard()
+  const executor = useTransactionExecutor()
   const { chains } = useChains()
-  const chainId = useChainId()
   const queryClient = useQueryClient()
   const { getTokenByAddress } = useTokenRegistry()
+  const approvalMode = useAppStore((state) => state.approvalMode)
 
   // const [txHashInProgress, setTxHashInProgress] = useState("")
 
   const enrichHyperionTransaction = async (
-    tx: any
+    tx: HyperionBridgeTx
   ): Promise<TransactionLight> => {
     const contractAddress =
       tx.direction === "IN" ? tx.receivedToken.contract : tx.sentToken.contract
@@ -49,13 +52,10 @@ export const useBridge = () => {
       token,
       amount:
         tx.direction === "IN" ? tx.receivedToken.amount : tx.sentToken.amount,
-      hash: tx?.proof?.hashs,
-      status:
-        tx.status === "BRIDGED"
-          ? "completed"
-          : tx.status === "FAILED"
-          ? "failed"
-          : "pending",
+      hash: tx.txHash,
+      explorerUrl: getTransferHashes(tx).source.explorerUrl,
+      href: bridgeTransferPath(tx),
+      status: getBridgeTransferState(tx.status),
       chainId: tx.chainId,
       chainName: chains.find((chain) => chain.chainId === tx.chainId)?.name,
       chainLogo: chains.find((chain) => chain.chainId === tx.chainId)?.logo
@@ -78,59 +78,106 @@ export const useBridge = () => {
       Promise.all(qAllHyperionTxs.data!.map(enrichHyperionTransaction))
   })
 
-  const qAccountHyperionTxs = useQuery({
-    queryKey: ["hyperionBridgeTxs"],
-    queryFn: () =>
-      getHyperionAccountTransferTxsByPageAndSize(address!, toHex(1), toHex(10)),
+  const qAccountHyperionTxs = usePaginatedQuery({
+    queryKey: ["hyperionBridgeTxs", address],
+    fetchPage: hyperionAccountTransfersPages(address!),
+    pageSize: 10,
     enabled: !!address,
     refetchInterval: secondsToMilliseconds(60)
   })
 
   const enrichedAccountHyperionTxs = useQuery({
-    queryKey: ["enrichedHyperionTxs", qAccountHyperionTxs.data],
-    enabled: !!qAccountHyperionTxs.data,
+    queryKey: ["enrichedHyperionTxs", qAccountHyperionTxs.items],
+    enabled: qAccountHyperionTxs.items.length > 0,
     queryFn: async () =>
-      Promise.all(qAccountHyperionTxs.data!.map(enrichHyperionTransaction))
-  })
-
-  const [feedback, setFeedback] = useState<Feedback>({
-    status: "primary",
-    message: ""
+      Promise.all(qAccountHyperionTxs.items.map(enrichHyperionTransaction))
   })
-  const resetFeedback = () => {
-    setFeedback({
-      status: "primary",
-      message: ""
-    })
-    // setTxHashInProgress("")
-  }
 
   const loadTokensByChain = async (chainId: number) => {
     return queryClient.fetchQuery({
       queryKey: ["tokensByChain", chainId],
-      queryFn: () =>
-        getTokensByChainIdAndPageAndSize(chainId, toHex(1), toHex(10))
+      queryFn: () => fetchAllPages(tokensByChainPages(chainId))
     })
   }
 
+  /**
+   * Approves the spender when its allowance is lower than the amount, for
+   * that amount or without limit depending on the approval mode. The
+   * wallet is switched first so the allowance is read on the token chain.
+   * @param tokenAddress The ERC20 token
+   * @param spender The bridge contract spending the tokens
+   * @param amount The amount the spender needs
+   * @param chainId The chain the token lives on
+   */
+  const ensureAllowance = async (
+    tokenAddress: string,
+    spender: Address,
+    amount: bigint,
+    chainId: number
+  ) => {
+    if (!address) throw new Error("No wallet connected")
+    const web3Provider = await ensureChain(chainId)
+    const token = { ...contracts.erc20, address: tokenAddress }
+
+    const currentAllowance = await readContract(web3Provider, {
+      ...token,
+      functionName: "allowance",
+      args: [address, spender]
+    })
+    if (currentAllowance >= amount) return
+
+    const approval = approvalMode === "unlimited" ? maxUint256 : amount
+    await executor.execute(
+      { ...token, functionName: "approve", args: [spender, approval] },
+      {
+        chainId,
+        activity: {
+          type: "approve",
+          title: "Approve token for the bridge",
+          params: {
+            token: tokenAddress,
+            spender,
+            amount:
+              approvalMode === "unlimited" ? "unlimited" : amount.toString()
+          }
+        },
+        messages: { simulating: "Approving token..." },
+        successMessage: (receipt) => {
+          const chainConfig = getChainConfig(chainId)
+          const explorerLink = chainConfig
+            ? `${chainConfig.explorerUrl}/tx/${receipt.transactionHash}`
+            : receipt.transactionHash
+
+          return (
+            <>
+              Tokens approved. Tx:{" "}
+              <a href={explorerLink} target="_blank" rel="noopener noreferrer">
+                <strong>{receipt.transactionHash}</strong>
+              </a>
+            </>
+          )
+        }
+      }
+    )
+  }
+
   // 🟡 sendToChain
   const sendToChain = async (
     chainId: number,
     receiverAddress: string,
     tokenAddress: string,
     readableAmount: string,
-    readableFees: string,
+    fee: BridgeFeeQuote,
     decimals: number
   ) => {
     const amount = ethers.parseUnits(readableAmount, decimals)
-    // const fees = ethers.parseUnits(readableFees, decimals)
-    const fees = ethers.parseEther(readableFees)
     return sendToChainMutation.mutateAsync({
       chainId,
       receiverAddress,
       tokenAddress,
       amount,
-      fees
+      fee,
+      decimals
     })
   }
   const sendToChainMutation = useMutation({
@@ -139,147 +186,74 @@ export const useBridge = () => {
       receiverAddress,
       tokenAddress,
       amount,
-      fees
+      fee,
+      decimals
     }: {
       chainId: number
       receiverAddress: string
       tokenAddress: string
       amount: bigint
-      fees: bigint
+      fee: BridgeFeeQuote
+      decimals: number
     }) => {
-      if (!web3Provider || !address) throw new Error("No wallet connected")
-
-      try {
-        const tokenContract = new web3Provider.eth.Contract(
-          erc20Abi as any,
-          tokenAddress
-        )
-
-        const bestGasPrice = await getBestGasPrice(web3Provider)
-        const currentAllowanceStr: string = await tokenContract.methods
-          .allowance(address, BRIDGE_CONTRACT_ADDRESS)
-          .call()
-        const currentAllowance = BigInt(currentAllowanceStr)
-        // const totalAmount = amount + fees
-        const totalAmount =
-          tokenAddress === HELIOS_TOKEN_ADDRESS ? amount + fees : amount
-
-        if (currentAllowance < totalAmount) {
-          setFeedback({
-            status: "primary",
-            message: "Approving token..."
-          })
-          const approveTx = await tokenContract.methods
-            .approve(BRIDGE_CONTRACT_ADDRESS, totalAmount.toString())
-            .send({
-              from: address,
-              gas: "1500000", // approve gas limit
-              gasPrice: bestGasPrice.toString()
-            })
-
-          const chainConfig = getChainConfig(chainId)
-          const explorerLink = chainConfig
-            ? `${chainConfig.explorerUrl}/tx/${approveTx.transactionHash}`
-            : approveTx.transactionHash
-
-          setFeedback({
-            status: "primary",
-            message: (
-              <>
-                Tokens approved. Tx:{" "}
-                <a href={explorerLink} target="_blank">
-                  <strong>{approveTx.transactionHash}</strong>
-                </a>
-                .
-              </>
-            )
-          })
-        } else {
-          setFeedback({
-            status: "primary",
-            message: "Token already approved for sufficient amount."
-          })
-        }
-
-        const contract = new web3Provider.eth.Contract(
-          bridgeSendToChainAbi,
-          BRIDGE_CONTRACT_ADDRESS
-        )
-
-        setFeedback({
-          status: "primary",
-          message: "Simulating cross-chain transaction..."
-        })
-
-        // simulate the transaction
-        const resultOfSimulation = await contract.methods
-          .sendToChain(chainId, receiverAddress, tokenAddress, amount.toString(), fees.toString())
-          .call({
-            from: address
-          })
-
-        if (!resultOfSimulation) {
-          throw new Error("Error during simulation, please try again later")
-        }
-
-        setFeedback({
-          status: "primary",
-          message: "Estimating gas..."
-        })
-
-        // estimate the gas
-        const gasEstimate = await contract.methods
-          .sendToChain(chainId, receiverAddress, tokenAddress, amount.toString(), fees.toString())
-          .estimateGas({
-            from: address
-          })
-        setFeedback({
-          status: "primary",
-          message: "Sending cross-chain transaction..."
-        })
-        // add 20% to the gas estimation to be safe
-        const gasLimit = (gasEstimate * 120n) / 100n
-
-        // send the transaction
-        const receipt = await new Promise<TransactionReceipt>((resolve, reject) => {
-          web3Provider.eth.sendTransaction({
-            from: address,
-            to: BRIDGE_CONTRACT_ADDRESS,
-            data: contract.methods.sendToChain(chainId, receiverAddress, tokenAddress, amount.toString(), fees.toString()).encodeABI(),
-            gas: gasLimit.toString()
-          }).then((tx) => {
-            resolve(tx as any)
-          }).catch((error) => {
-            console.log("error", error)
-            reject(error)
-          })
-        })
-
-        setFeedback({
-          status: "primary",
-          message: `Transaction sent (hash: ${receipt.transactionHash}), waiting for confirmation...`
-        })
-
-        setFeedback({
-          status: "success",
-          message: (
+      if (fee.token.toLowerCase() !== tokenAddress.toLowerCase()) {
+        throw new Error("The bridge fee was quoted for another token")
+      }
+      const fees = fee.amount
+      // The fee is taken from the bridged token, on top of the amount
+      const totalAmount = amount + fees
+      await ensureAllowance(
+        tokenAddress,
+        contracts.bridge.address,
+        totalAmount,
+        HELIOS_NETWORK_ID
+      )
+
+      return executor.execute(
+        {
+          ...contracts.bridge,
+          functionName: "sendToChain",
+          args: [
+            BigInt(chainId),
+            receiverAddress,
+            tokenAddress as Address,
+            amount,
+            fees
+          ]
+        },
+        {
+          messages: {
+            simulating: "Simulating cross-chain transaction...",
+            signing: "Sending cross-chain transaction..."
+          },
+          invalidate: [["hyperionBridgeTxs", address]],
+          activity: {
+            type: "bridge-out",
+            title: `Bridge to ${getChainConfig(chainId)?.name ?? chainId}`,
+            params: {
+              token: tokenAddress,
+              receiver: receiverAddress,
+              amount: amount.toString(),
+              fees: fees.toString(),
+              feeTier: fee.tier,
+              chainId: String(chainId)
+            }
+          },
+          preview: {
+            amounts: {
+              amount: { decimals },
+              bridgeFee: { decimals: fee.decimals, symbol: fee.symbol }
+            }
+          },
+          successMessage: (receipt) => (
             <>
               Transaction confirmed in block{" "}
               <strong>#{receipt.blockNumber}</strong>. It will be available in a
               few minutes.
             </>
           )
-        })
-
-        return receipt
-      } catch (error: unknown) {
-        console.log("error catched", error)
-        setFeedback({
-          status: "danger",
-          message: getErrorMessage(error) || "Error during sendToChain"
-        })
-        throw error
-      }
+        }
+      )
     }
   })
 
@@ -289,18 +263,17 @@ export const useBridge = () => {
     receiverAddress: string,
     tokenAddress: string,
     readableAmount: string,
-    readableFees: string,
     decimals: number
   ) => {
+    // Deposits to Helios carry no bridge fee
     const amount = ethers.parseUnits(readableAmount, decimals)
-    // const fees = ethers.parseUnits(readableFees, decimals)
-    // const amountWithFees = amount + fees
 
     return sendToHeliosMutation.mutateAsync({
       fromChainId,
       receiverAddress,
       tokenAddress,
-      amountWithFees: amount
+      amountWithFees: amount,
+      decimals
     })
   }
 
@@ -309,156 +282,83 @@ export const useBridge = () => {
       fromChainId,
       receiverAddress,
       tokenAddress,
-      amountWithFees
+      amountWithFees,
+      decimals
     }: {
       fromChainId: number
       receiverAddress: string
       tokenAddress: string
       amountWithFees: bigint
+      decimals: number
     }) => {
-      if (!web3Provider || !address) throw new Error("No wallet connected")
-
-      try {
-        const tokenContract = new web3Provider.eth.Contract(
-          erc20Abi as any,
-          tokenAddress
-        )
-        const chainContractAddress = chains.find(
-          (chain) => chain.chainId === chainId
-        )?.hyperionContractAddress
-        if (!chainContractAddress) return
-
-        const bestGasPrice = await getBestGasPrice(web3Provider)
-        const currentAllowanceStr: string = await tokenContract.methods
-          .allowance(address, chainContractAddress)
-          .call()
-        const currentAllowance = BigInt(currentAllowanceStr)
-
-        if (currentAllowance < amountWithFees) {
-          setFeedback({
-            status: "primary",
-            message: "Approving token..."
-          })
-          const approveTx = await tokenContract.methods
-            .approve(chainContractAddress, amountWithFees.toString())
-            .send({
-              from: address,
-              gas: "1500000", // approve gas limit
-              gasPrice: bestGasPrice.toString()
-            })
-
-          const chainConfig = getChainConfig(fromChainId)
-          const explorerLink = chainConfig
-            ? `${chainConfig.explorerUrl}/tx/${approveTx.transactionHash}`
-            : approveTx.transactionHash
-
-          setFeedback({
-            status: "primary",
-            message: (
-              <>
-                Tokens approved. Tx:{" "}
-                <a
-                  href={explorerLink}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                >
-                  <strong>{approveTx.transactionHash}</strong>
-                </a>
-              </>
-            )
-          })
-        } else {
-          setFeedback({
-            status: "primary",
-            message: "Token already approved for sufficient amount."
-          })
-        }
-
-        const destinationBytes32 = ethers.zeroPadValue(receiverAddress, 32)
-
-        const hyperionContract = new web3Provider.eth.Contract(
-          bridgeSendToHeliosAbi,
-          chainContractAddress
-        )
+      const chainContractAddress = chains.find(
+        (chain) => chain.chainId === fromChainId
+      )?.hyperionContractAddress as Address | undefined
+      if (!chainContractAddress) {
+        throw new Error("No bridge contract on the source chain")
+      }
 
-        // simulate the transaction
-        const resultOfSimulation = await hyperionContract.methods
-          .sendToHelios(
-            tokenAddress,
-            destinationBytes32,
-            amountWithFees.toString(),
+      await ensureAllowance(
+        tokenAddress,
+        chainContractAddress,
+        amountWithFees,
+        fromChainId
+      )
+
+      const destinationBytes32 = ethers.zeroPadValue(receiverAddress, 32)
+
+      // sendToHelios returns nothing, a revert is the only failure
+      return executor.execute(
+        {
+          ...contracts.hyperion,
+          address: chainContractAddress,
+          functionName: "sendToHelios",
+          args: [
+            tokenAddress as Address,
+            destinationBytes32 as Hex,
+            amountWithFees,
             ""
-          )
-          .call({
-            from: address
-          })
-
-        if (!resultOfSimulation) {
-          throw new Error("Error during simulation, please try again later")
-        }
-
-        setFeedback({
-          status: "primary",
-          message: "Estimating gas..."
-        })
-
-        // estimate the gas
-        const gasEstimate = await hyperionContract.methods
-          .sendToHelios(tokenAddress, destinationBytes32, amountWithFees.toString(), "")
-          .estimateGas({
-            from: address
-          })
-        setFeedback({
-          status: "primary",
-          message: "Sending cross-chain transaction..."
-        })
-        // add 20% to the gas estimation to be safe
-        const gasLimit = (gasEstimate * 120n) / 100n
-
-        // send the transaction
-        const receipt = await new Promise<TransactionReceipt>((resolve, reject) => {
-          web3Provider.eth.sendTransaction({
-            from: address,
-            to: chainContractAddress,
-            data: hyperionContract.methods.sendToHelios(tokenAddress, destinationBytes32, amountWithFees.toString(), "").encodeABI(),
-            gas: gasLimit.toString()
-          }).then((tx) => {
-            resolve(tx as any)
-          }).catch((error) => {
-            reject(error)
-          })
-        })
-
-        setFeedback({
-          status: "success",
-          message: (
+          ]
+        },
+        {
+          chainId: fromChainId,
+          messages: { signing: "Sending cross-chain transaction..." },
+          invalidate: [["hyperionBridgeTxs", address]],
+          activity: {
+            type: "bridge-in",
+            title: "Bridge to Helios",
+            params: {
+              token: tokenAddress,
+              receiver: receiverAddress,
+              amount: amountWithFees.toString(),
+              chainId: String(fromChainId)
+            }
+          },
+          preview: { amounts: { _amount: { decimals } } },
+          successMessage: (receipt) => (
             <>
               Tokens sent to Helios in block{" "}
               <strong>#{receipt.blockNumber}</strong>. It will be available in a
               few minutes.
             </>
           )
-        })
-
-        return receipt
-      } catch (error: unknown) {
-        setFeedback({
-          status: "danger",
-          message: getErrorMessage(error) || "Error during sendToHelios"
-        })
-        throw error
-      }
+        }
+      )
     }
   })
 
   return {
     lastBridgeTxs: enrichedAllHyperionTxs.data || [],
     lastAccountBridgeTxs: enrichedAccountHyperionTxs.data || [],
+    hasMoreAccountBridgeTxs: qAccountHyperionTxs.hasNextPage,
+    loadMoreAccountBridgeTxs: qAccountHyperionTxs.fetchNextPage,
+    isLoadingMoreAccountBridgeTxs: qAccountHyperionTxs.isFetchingNextPage,
     sendToChain,
     loadTokensByChain,
     sendToHelios,
-    feedback,
-    resetFeedback,
+    status: executor.status,
+    feedback: executor.feedback,
+    resetFeedback: executor.reset,
     isLoading: sendToChainMutation.isPending || sendToHeliosMutation.isPending
   }
 }
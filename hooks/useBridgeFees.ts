@@ -0,0 +1,45 @@
+import { useQuery } from "@tanstack/react-query"
+import { minutesToMilliseconds, secondsToMilliseconds } from "date-fns"
+import {
+  getOrchestratorsHyperionData,
+  quoteBridgeFees
+} from "@/helpers/bridge-fees"
+import { BridgeFeeToken } from "@/types/bridge-fee"
+import { HyperionChain } from "@/types/hyperion"
+
+/**
+ * Quotes the fee tiers of a transfer from Helios to a chain
+ * @param chain The destination chain, nothing is quoted without one
+ * @param token The bridged token, the fee is quoted in its units
+ */
+export const useBridgeFees = (
+  chain?: HyperionChain | null,
+  token?: BridgeFeeToken | null
+) => {
+  // Orchestrators rarely change their minimums, one fetch serves every route
+  const qOrchestrators = useQuery({
+    queryKey: ["orchestratorsHyperionData"],
+    queryFn: getOrchestratorsHyperionData,
+    staleTime: minutesToMilliseconds(5)
+  })
+
+  const qQuotes = useQuery({
+    queryKey: [
+      "bridgeFees",
+      chain?.hyperionId,
+      token?.address.toLowerCase(),
+      token?.decimals,
+      qOrchestrators.dataUpdatedAt
+    ],
+    queryFn: () => quoteBridgeFees(chain!, token!, qOrchestrators.data!),
+    enabled: !!chain && !!token && !!qOrchestrators.data,
+    staleTime: secondsToMilliseconds(30),
+    refetchInterval: secondsToMilliseconds(60)
+  })
+
+  return {
+    quotes: qQuotes.data,
+    isLoading: qOrchestrators.isLoading || qQuotes.isLoading,
+    error: qOrchestrators.error ?? qQuotes.error
+  }
+}
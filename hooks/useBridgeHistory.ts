@@ -0,0 +1,149 @@
+import { useMutation, useQueries, useQueryClient } from "@tanstack/react-query"
+import { useMemo } from "react"
+import { useAccount } from "wagmi"
+import { secondsToMilliseconds } from "date-fns"
+import { HELIOS_NETWORK_ID } from "@/config/app"
+import { getChainConfig } from "@/config/chain-config"
+import {
+  BridgeHistoryFilters,
+  BridgeHistoryFormat,
+  BridgeHistoryToken,
+  downloadBridgeHistory,
+  getTransferTokenAddress,
+  matchesBridgeHistoryFilters,
+  toBridgeHistoryEntry
+} from "@/helpers/bridge-history"
+import { getTransferBlockTime } from "@/helpers/bridge-lifecycle"
+import {
+  fetchAllPages,
+  hyperionAccountTransfersPages
+} from "@/helpers/paginate"
+import { HyperionBridgeTx } from "@/types/hyperion"
+import { useChains } from "./useChains"
+import { usePaginatedQuery } from "./usePaginatedQuery"
+import { useTokenRegistry } from "./useTokenRegistry"
+
+const HISTORY_PAGE_SIZE = 20
+
+/**
+ * Loads the bridge history of the connected account page by page and
+ * filters what is loaded. Exports go through every page so they are not
+ * limited to what was scrolled.
+ * @param filters The filters of the history
+ */
+export const useBridgeHistory = (filters: BridgeHistoryFilters) => {
+  const { address } = useAccount()
+  const { chains } = useChains()
+  const { getTokenByAddress } = useTokenRegistry()
+  const queryClient = useQueryClient()
+
+  const qTransfers = usePaginatedQuery({
+    queryKey: ["bridgeHistory", address],
+    fetchPage: hyperionAccountTransfersPages(address!),
+    pageSize: HISTORY_PAGE_SIZE,
+    enabled: !!address,
+    refetchInterval: secondsToMilliseconds(60)
+  })
+  const transfers = qTransfers.items
+
+  // Same key as useBridgeTransfer, the block of a transfer never changes
+  const blockTimeQuery = (tx: HyperionBridgeTx) => ({
+    queryKey: ["bridgeTransferBlockTime", tx.hyperionId, tx.id],
+    queryFn: () => getTransferBlockTime(tx),
+    staleTime: Infinity
+  })
+
+  const tokenQuery = (tokenAddress: string) => ({
+    queryKey: ["bridgeHistoryToken", tokenAddress],
+    queryFn: async (): Promise<BridgeHistoryToken | null> => {
+      const token = await getTokenByAddress(tokenAddress, HELIOS_NETWORK_ID)
+      return token
+        ? {
+            address: tokenAddress,
+            symbol: token.display.symbol.toUpperCase(),
+            decimals: token.functionnal.decimals
+          }
+        : null
+    },
+    staleTime: Infinity
+  })
+
+  const tokenAddresses = useMemo(
+    () => [
+      ...new Set(
+        transfers.flatMap((tx) => getTransferTokenAddress(tx) ?? [])
+      )
+    ],
+    [transfers]
+  )
+
+  const qBlockTimes = useQueries({ queries: transfers.map(blockTimeQuery) })
+  const qTokens = useQueries({ queries: tokenAddresses.map(tokenQuery) })
+
+  const tokens = qTokens.flatMap((query) => query.data ?? [])
+
+  const chainName = (chainId: number) =>
+    chains.find((chain) => chain.chainId === chainId)?.name ??
+    getChainConfig(chainId)?.name ??
+    `Chain ${chainId}`
+
+  const tokenOf = (tx: HyperionBridgeTx, list: BridgeHistoryToken[]) =>
+    list.find((token) => token.address === getTransferTokenAddress(tx)) ??
+    null
+
+  const entries = transfers
+    .map((tx, index) =>
+      toBridgeHistoryEntry(
+        tx,
+        chainName(tx.chainId),
+        tokenOf(tx, tokens),
+        qBlockTimes[index]?.data ?? null
+      )
+    )
+    .filter((entry) => matchesBridgeHistoryFilters(entry, filters))
+
+  const exportMutation = useMutation({
+    mutationFn: async (format: BridgeHistoryFormat) => {
+      if (!address) throw new Error("No wallet connected")
+
+      const all = await fetchAllPages(hyperionAccountTransfersPages(address))
+      const exported = await Promise.all(
+        all.map(async (tx) => {
+          const tokenAddress = getTransferTokenAddress(tx)
+          const [timestamp, token] = await Promise.all([
+            queryClient.fetchQuery(blockTimeQuery(tx)),
+            tokenAddress
+              ? queryClient.fetchQuery(tokenQuery(tokenAddress))
+              : null
+          ])
+          return toBridgeHistoryEntry(
+            tx,
+            chainName(tx.chainId),
+            token,
+            timestamp
+          )
+        })
+      )
+
+      downloadBridgeHistory(
+        exported.filter((entry) => matchesBridgeHistoryFilters(entry, filters)),
+        format,
+        address
+      )
+    }
+  })
+
+  return {
+    entries,
+    tokens,
+    loadedCount: transfers.length,
+    hasNextPage: qTransfers.hasNextPage,
+    fetchNextPage: qTransfers.fetchNextPage,
+    isFetchingNextPage: qTransfers.isFetchingNextPage,
+    isLoading: qTransfers.isLoading,
+    error: qTransfers.error,
+    exportHistory: exportMutation.mutate,
+    isExporting: exportMutation.isPending,
+    exportError: exportMutation.error
+  }
+}
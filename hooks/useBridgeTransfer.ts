@@ -0,0 +1,80 @@
+import { useQuery } from "@tanstack/react-query"
+import { useEffect, useMemo } from "react"
+import { useAccount } from "wagmi"
+import { secondsToMilliseconds } from "date-fns"
+import {
+  BridgeTransferQuery,
+  bridgeTransferKey,
+  buildBridgeLifecycle,
+  findHyperionTransfer,
+  getBridgeTransferState,
+  getReachedStages,
+  getTransferBlockTime
+} from "@/helpers/bridge-lifecycle"
+import { useBridgeTransfersStore } from "@/stores/bridge-transfers"
+
+// Time between two checks of a transfer that is not final yet
+const POLL_INTERVAL = secondsToMilliseconds(15)
+
+/**
+ * Follows a Hyperion transfer through its lifecycle, polling until it is
+ * bridged or failed. The time each stage is first seen is kept so the
+ * stepper can show it after a reload. Without an account in the query,
+ * the transfer is searched among the connected account's.
+ * @param query The ID of the transfer or the hash of its transaction
+ */
+export const useBridgeTransfer = (query: BridgeTransferQuery | null) => {
+  const { address } = useAccount()
+  const timestamps = useBridgeTransfersStore((state) => state.timestamps)
+  const recordStages = useBridgeTransfersStore((state) => state.recordStages)
+
+  const viewer = query?.account ? undefined : address
+
+  const qTransfer = useQuery({
+    queryKey: ["bridgeTransfer", query, viewer],
+    queryFn: () => findHyperionTransfer(query!, viewer),
+    enabled: !!query && (query.id !== undefined || !!query.txHash),
+    refetchInterval: (q) =>
+      q.state.data && getBridgeTransferState(q.state.data.status) !== "pending"
+        ? false
+        : POLL_INTERVAL
+  })
+
+  const transfer = qTransfer.data ?? null
+
+  const qBlockTime = useQuery({
+    queryKey: ["bridgeTransferBlockTime", transfer?.hyperionId, transfer?.id],
+    queryFn: () => getTransferBlockTime(transfer!),
+    enabled: !!transfer,
+    staleTime: Infinity
+  })
+
+  useEffect(() => {
+    // Waits for the block time, the first stage would be stamped with now
+    if (!transfer || qBlockTime.isPending) return
+    // The transfer was indexed on Helios when its first stage was reached
+    const blockTime = qBlockTime.data ?? undefined
+    recordStages(bridgeTransferKey(transfer), getReachedStages(transfer), {
+      "source-confirmed": transfer.direction === "OUT" ? blockTime : undefined,
+      attested: transfer.direction === "IN" ? blockTime : undefined
+    })
+  }, [transfer, qBlockTime.data, qBlockTime.isPending, recordStages])
+
+  const lifecycle = useMemo(
+    () =>
+      transfer
+        ? buildBridgeLifecycle(
+            transfer,
+            timestamps[bridgeTransferKey(transfer)]
+          )
+        : null,
+    [transfer, timestamps]
+  )
+
+  return {
+    transfer,
+    lifecycle,
+    isLoading: qTransfer.isLoading,
+    error: qTransfer.error
+  }
+}
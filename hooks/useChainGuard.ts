@@ -0,0 +1,66 @@
+import { useCallback } from "react"
+import { useConfig, useSwitchChain } from "wagmi"
+import { getAccount, getWalletClient } from "wagmi/actions"
+import Web3 from "web3"
+import { getChainConfig } from "@/config/chain-config"
+import {
+  ChainMismatchError,
+  ChainSwitchRejectedError,
+  WalletRejectedError,
+  toPortalError
+} from "@/helpers/errors"
+
+/**
+ * Makes sure the wallet is on the chain an action needs before anything is
+ * signed. The switch is awaited and the provider is created again for the
+ * new chain, since the one of the previous render still targets the old one.
+ */
+export const useChainGuard = () => {
+  const config = useConfig()
+  const { switchChainAsync } = useSwitchChain()
+
+  /**
+   * Switches the wallet to the chain when needed
+   * @param chainId The chain the action must be sent on
+   * @param onSwitch Called before the wallet is asked to switch
+   * @returns A provider connected to the wallet on that chain
+   */
+  const ensureChain = useCallback(
+    async (chainId: number, onSwitch?: () => void): Promise<Web3> => {
+      // Read at call time, the chain of the last render can be outdated
+      const { chainId: actualChainId, isConnected } = getAccount(config)
+      if (!isConnected) throw new Error("No wallet connected")
+
+      if (actualChainId !== chainId) {
+        onSwitch?.()
+        try {
+          await switchChainAsync({ chainId })
+        } catch (error) {
+          const options = {
+            expectedChainId: chainId,
+            actualChainId,
+            chainName: getChainConfig(chainId)?.name,
+            cause: error
+          }
+          throw toPortalError(error) instanceof WalletRejectedError
+            ? new ChainSwitchRejectedError(options)
+            : new ChainMismatchError(options)
+        }
+
+        // Some wallets resolve the request without switching
+        if (getAccount(config).chainId !== chainId) {
+          throw new ChainMismatchError({
+            expectedChainId: chainId,
+            actualChainId: getAccount(config).chainId
+          })
+        }
+      }
+
+      const walletClient = await getWalletClient(config, { chainId })
+      return new Web3(walletClient.transport)
+    },
+    [config, switchChainAsync]
+  )
+
+  return { ensureChain }
+}
@@ -1,23 +1,13 @@
 "use client"
 
-import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { useMutation } from "@tanstack/react-query"
 import { useState, useCallback } from "react"
-import { useAccount, useWalletClient, usePublicClient } from "wagmi"
-import { parseUnits, encodeFunctionData } from "viem"
+import { useAccount } from "wagmi"
+import { parseUnits, TransactionReceipt } from "viem"
 import { toast } from "sonner"
-import {
-  PRECOMPILE_CONTRACT_ADDRESS,
-  precompileAbi
-} from "@/constant/helios-contracts"
-import { HELIOS_NETWORK_ID } from "@/config/app"
-import { getErrorMessage } from "@/utils/string"
-import { Feedback } from "@/types/feedback"
-
-interface TransactionReceipt {
-  transactionHash: string
-  logs: any[]
-  [key: string]: any
-}
+import { contracts } from "@/helpers/contracts"
+import { toPortalError, WalletRejectedError } from "@/helpers/errors"
+import { useTransactionExecutor } from "./useTransactionExecutor"
 
 export type TokenParams = {
   name: string
@@ -42,19 +32,9 @@ export type DeployedToken = {
 
 export const useCreateToken = () => {
   const { address } = useAccount()
-  const { data: walletClient } = useWalletClient()
-  const publicClient = usePublicClient()
-  const queryClient = useQueryClient()
-  const [feedback, setFeedback] = useState<Feedback>({
-    status: "primary",
-    message: ""
-  })
+  const executor = useTransactionExecutor()
   const [deployedToken, setDeployedToken] = useState<DeployedToken | null>(null)
 
-  const resetFeedback = () => {
-    setFeedback({ status: "primary", message: "" })
-  }
-
   const validateTokenParams = useCallback((params: TokenParams): boolean => {
     // Check name
     if (!params.name.trim()) {
@@ -143,9 +123,9 @@ export const useCreateToken = () => {
         // Look for the log that contains the contract address
         // The precompile adds a log with the contract address in the data field
         const createLog = receipt.logs.find(
-          (log: any) =>
+          (log) =>
             log.address.toLowerCase() ===
-            PRECOMPILE_CONTRACT_ADDRESS.toLowerCase()
+            contracts.precompile.address.toLowerCase()
         )
 
         if (createLog && createLog.data && createLog.data !== "0x") {
@@ -202,400 +182,91 @@ export const useCreateToken = () => {
 
   const createTokenMutation = useMutation({
     mutationFn: async (params: TokenParams) => {
-      if (!walletClient || !publicClient || !address) {
-        throw new Error("Wallet not connected")
-      }
+      // Ensure decimals is a valid number between 0 and 18
+      const decimals = Math.min(
+        Math.max(parseInt(params.decimals) || 18, 0),
+        18
+      )
 
-      // Check if we're on the correct network
-      const chainId = await publicClient.getChainId()
-      console.log("Current chain ID:", chainId, "Expected:", HELIOS_NETWORK_ID)
+      // Format total supply with the correct number of decimals
+      const totalSupplyWei = parseUnits(params.totalSupply, decimals)
+      const logoBase64 = params.logoBase64 || ""
+      const name = params.name.trim()
+      const symbol = params.symbol.trim()
+      const denom = params.denom.trim()
 
-      if (chainId !== HELIOS_NETWORK_ID) {
-        throw new Error(
-          `Please switch to Helios network (Chain ID: ${HELIOS_NETWORK_ID})`
-        )
+      if (!name || !symbol || !denom) {
+        throw new Error("Name, symbol, and denom cannot be empty")
       }
 
-      try {
-        // Ensure decimals is a valid number between 0 and 18
-        const decimals = Math.min(
-          Math.max(parseInt(params.decimals) || 18, 0),
-          18
-        )
-
-        // Format total supply with the correct number of decimals
-        const totalSupplyWei = parseUnits(params.totalSupply, decimals)
-
-        // Trim the logo if it's too large (optional)
-        const logoBase64 = params.logoBase64 || ""
-
-        console.log("Deployment parameters:", {
-          name: params.name,
-          symbol: params.symbol,
-          denom: params.denom,
-          totalSupply: totalSupplyWei.toString(),
-          decimals: decimals,
-          logoBase64Length: logoBase64.length
-        })
-
-        setFeedback({
-          status: "primary",
-          message: "Preparing transaction..."
-        })
-
-        // Validate parameters before encoding
-        const name = params.name.trim()
-        const symbol = params.symbol.trim()
-        const denom = params.denom.trim()
-
-        if (!name || !symbol || !denom) {
-          throw new Error("Name, symbol, and denom cannot be empty")
-        }
-
-        if (decimals < 0 || decimals > 18) {
-          throw new Error("Decimals must be between 0 and 18")
-        }
-
-        // Prepare the arguments with proper types
-        const args = [
-          name,
-          symbol,
-          denom,
-          totalSupplyWei,
-          decimals, // This should be uint8
-          logoBase64
-        ]
-
-        console.log("Function arguments:", {
-          name,
-          symbol,
-          denom,
-          totalSupply: totalSupplyWei.toString(),
-          decimals,
-          logoBase64Length: logoBase64.length
-        })
-
-        // Encode the function data
-        const data = encodeFunctionData({
-          abi: precompileAbi,
-          functionName: "createErc20",
-          args: args
-        })
-
-        console.log("Encoded data:", data)
-
-        // Check if the precompile contract exists
-        try {
-          const code = await publicClient.getCode({
-            address: PRECOMPILE_CONTRACT_ADDRESS as `0x${string}`
-          })
-          console.log("Precompile contract code:", code)
-        } catch (error) {
-          console.warn("Could not get precompile contract code:", error)
-        }
-
-        setFeedback({
-          status: "primary",
-          message: "Simulating transaction..."
-        })
-
-        toast.info("Simulating transaction to validate parameters...")
-
-        // Simulate the transaction first to catch errors early
-        try {
-          await publicClient.call({
-            account: address,
-            to: PRECOMPILE_CONTRACT_ADDRESS as `0x${string}`,
-            data: data
-          })
-          console.log("Transaction simulation successful")
-          toast.success("Transaction simulation successful!")
-        } catch (simulationError: any) {
-          console.warn(
-            "Transaction simulation failed:",
-            simulationError.message
-          )
-
-          // Check for specific errors that should stop execution
-          if (
-            simulationError.message?.includes(
-              "denom metadata already registered"
-            )
-          ) {
-            throw new Error(
-              "Denom metadata already registered, choose a unique base denomination"
-            )
-          }
-
-          if (simulationError.message?.includes("circuit breaker")) {
-            throw new Error(
-              "Network is currently overloaded. Please try again in a few moments."
-            )
-          }
-
-          // Check for other validation errors
-          if (
-            simulationError.message?.includes("name cannot be empty") ||
-            simulationError.message?.includes("symbol cannot be empty") ||
-            simulationError.message?.includes("denom cannot be empty") ||
-            simulationError.message?.includes("cannot contain spaces") ||
-            simulationError.message?.includes("length exceeds") ||
-            simulationError.message?.includes(
-              "total supply must be greater than zero"
-            ) ||
-            simulationError.message?.includes("decimals cannot exceed")
-          ) {
-            // Extract the actual error message from the RPC error format
-            const descMatch = simulationError.message.match(/desc = (.+?):/)
-            if (descMatch) {
-              throw new Error(descMatch[1])
-            }
-
-            // Fallback: try to extract from other common error formats
-            const match = simulationError.message.match(
-              /execution reverted: (.+)/
-            )
-            const actualError = match ? match[1] : simulationError.message
-            throw new Error(actualError)
-          }
-
-          // For other simulation errors, warn but continue with gas estimation
-          toast.warning("Simulation failed, proceeding with gas estimation...")
-          console.log(
-            "Continuing with gas estimation despite simulation failure"
-          )
-        }
-
-        setFeedback({
-          status: "primary",
-          message: "Estimating gas..."
-        })
-
-        toast.info("Estimating gas for token deployment...")
-
-        // Estimate gas with better error handling and longer timeout for slow networks
-        let gasEstimate
-        let intermediateTimeout: NodeJS.Timeout | null = null
-
-        try {
-          console.log("Estimating gas with params:", {
-            account: address,
-            to: PRECOMPILE_CONTRACT_ADDRESS,
-            data: data
-          })
-
-          // Use a longer timeout for gas estimation since the network can be slow
-          const estimationPromise = publicClient.estimateGas({
-            account: address,
-            to: PRECOMPILE_CONTRACT_ADDRESS as `0x${string}`,
-            data: data
-          })
-
-          // Add intermediate feedback for long gas estimation
-          intermediateTimeout = setTimeout(() => {
-            setFeedback({
-              status: "primary",
-              message: "Network is slow, still estimating gas... Please wait."
-            })
-            toast.info("Network is slow, still estimating gas... Please wait.")
-          }, 30000) // Show message after 30 seconds
-
-          // Add a timeout wrapper with increased timeout for slow networks
-          const timeoutPromise = new Promise((_, reject) => {
-            setTimeout(() => reject(new Error("Gas estimation timeout")), 60000) // 60 second timeout
-          })
-
-          gasEstimate = (await Promise.race([
-            estimationPromise,
-            timeoutPromise
-          ])) as bigint
-
-          // Clear the intermediate timeout since estimation completed
-          if (intermediateTimeout) clearTimeout(intermediateTimeout)
-          console.log("Gas estimate:", gasEstimate)
-          toast.success("Gas estimation completed successfully!")
-        } catch (error: any) {
-          // Clear the intermediate timeout in case of error
-          if (intermediateTimeout) clearTimeout(intermediateTimeout)
-          console.warn(
-            "Gas estimation failed, using default gas limit:",
-            error.message
-          )
-
-          // Most validation errors should have been caught during simulation
-          // Only handle network-specific errors here
-
-          // Show user-friendly message for network issues
-          if (
-            error.message?.includes("timeout") ||
-            error.message?.includes("took too long")
-          ) {
-            setFeedback({
-              status: "primary",
-              message: "Network is slow, using estimated gas limit..."
-            })
-            toast.warning("Network is slow...")
-          } else if (error.message?.includes("Missing or invalid parameters")) {
-            // This can happen during gas estimation but the transaction might still work
-            setFeedback({
-              status: "primary",
-              message: "Using estimated gas limit..."
-            })
-            toast.info("Using estimated gas limit...")
-          }
-
-          // Use a reasonable default gas limit for token creation if estimation fails
-          gasEstimate = BigInt(800000) // Increased default gas limit
-        }
-
-        // Add 20% buffer to gas estimate
-        const gasLimit = (gasEstimate * 120n) / 100n
-
-        // Small delay to let network stabilize if there were issues
-        if (gasEstimate === BigInt(800000)) {
-          toast.info(
-            "Proceeding with default gas limit due to network issues..."
-          )
-          await new Promise((resolve) => setTimeout(resolve, 1000))
-        }
+      toast.info("Please confirm the transaction in your wallet...")
 
-        setFeedback({
-          status: "primary",
-          message: "Waiting for wallet confirmation..."
-        })
-
-        // Show toast before wallet confirmation
-        toast.info("Please confirm the transaction in your wallet...")
-
-        // Send the transaction with user rejection handling
-        let txHash
-        try {
-          txHash = await walletClient.sendTransaction({
-            account: address,
-            to: PRECOMPILE_CONTRACT_ADDRESS as `0x${string}`,
-            data: data,
-            gas: gasLimit
-          })
-        } catch (error: any) {
-          // Handle user rejection
-          if (
-            error.message?.includes("User rejected") ||
-            error.message?.includes("user rejected") ||
-            error.message?.includes("User denied") ||
-            error.message?.includes("user denied") ||
-            error.code === 4001 ||
-            error.code === "ACTION_REJECTED"
-          ) {
-            throw new Error("User rejected the request")
+      let receipt
+      try {
+        receipt = await executor.execute(
+          {
+            ...contracts.precompile,
+            functionName: "createErc20",
+            args: [name, symbol, denom, totalSupplyWei, decimals, logoBase64]
+          },
+          {
+            // The node sometimes fails to estimate the precompile on slow
+            // networks while the transaction goes through
+            fallbackGasLimit: 800000n,
+            invalidate: [["tokensBalance", address]],
+            activity: {
+              type: "create-token",
+              title: `Deploy ${symbol} token`,
+              params: { name, symbol, denom, totalSupply: params.totalSupply }
+            },
+            preview: { amounts: { totalSupply: { decimals, symbol } } },
+            messages: {
+              simulating: "Simulating transaction...",
+              signing: "Waiting for wallet confirmation..."
+            },
+            successMessage: () => "Token deployed successfully!"
           }
-          // Re-throw other errors
-          throw error
-        }
-
-        console.log("Token deployment tx hash:", txHash)
-
-        setFeedback({
-          status: "primary",
-          message: "Transaction submitted, waiting for confirmation..."
-        })
-
-        // Show toast when transaction is submitted
-        toast.info(
-          "Transaction submitted to network, waiting for confirmation..."
         )
-        // Wait for transaction receipt with longer timeout
-        const receipt = await publicClient.waitForTransactionReceipt({
-          hash: txHash,
-          timeout: 180000 // 3 minute timeout
-        })
-
-        // Check if transaction was successful
-        if (receipt.status === "reverted" || Number(receipt.status) === 0) {
-          // Most errors should have been caught during gas estimation
-          // This is a fallback for any remaining transaction failures
-          throw new Error(
-            "Transaction failed. Please check your parameters and try again."
-          )
-        }
-
-        toast.success("Transaction confirmed! Processing token deployment...")
+      } catch (error) {
+        const portalError = toPortalError(error)
 
-        // Extract the contract address from the receipt
-        const contractAddress = extractTokenAddressFromReceipt(receipt as any)
+        // Don't show error feedback for user rejection
+        if (portalError instanceof WalletRejectedError) executor.reset()
 
-        if (!contractAddress) {
+        if (portalError.message.includes("circuit breaker")) {
           throw new Error(
-            "Failed to extract token address from transaction receipt"
+            "Network is currently overloaded. Please try again in a few moments."
           )
         }
+        throw portalError
+      }
 
-        setFeedback({
-          status: "success",
-          message: "Token deployed successfully!"
-        })
-
-        // Show success toast
-        toast.success("Token deployed successfully!")
-
-        const deployedTokenData: DeployedToken = {
-          address: contractAddress,
-          name: params.name.trim(),
-          symbol: params.symbol.trim(),
-          denom: params.denom.trim(),
-          totalSupply: params.totalSupply,
-          decimals: decimals,
-          logoBase64: logoBase64,
-          txHash: txHash,
-          timestamp: Date.now()
-        }
+      // Extract the contract address from the receipt
+      const contractAddress = extractTokenAddressFromReceipt(receipt)
 
-        setDeployedToken(deployedTokenData)
+      if (!contractAddress) {
+        throw new Error(
+          "Failed to extract token address from transaction receipt"
+        )
+      }
 
-        return { receipt, deployedToken: deployedTokenData }
-      } catch (error: any) {
-        console.error("Token deployment failed:", error)
+      toast.success("Token deployed successfully!")
+
+      const deployedTokenData: DeployedToken = {
+        address: contractAddress,
+        name,
+        symbol,
+        denom,
+        totalSupply: params.totalSupply,
+        decimals: decimals,
+        logoBase64: logoBase64,
+        txHash: receipt.transactionHash,
+        timestamp: Date.now()
+      }
 
-        // Don't show error feedback for user rejection
-        if (
-          error.message?.includes("User rejected") ||
-          error.message?.includes("user rejected") ||
-          error.message?.includes("User denied") ||
-          error.message?.includes("user denied")
-        ) {
-          setFeedback({
-            status: "primary",
-            message: ""
-          })
-        } else {
-          setFeedback({
-            status: "danger",
-            message: getErrorMessage(error) || "Error during token deployment"
-          })
-        }
+      setDeployedToken(deployedTokenData)
 
-        throw error
-      }
-    },
-    onError: (error: any) => {
-      console.error("Token deployment mutation error:", error)
-
-      // Don't show error feedback for user rejection
-      if (
-        error.message?.includes("User rejected") ||
-        error.message?.includes("user rejected") ||
-        error.message?.includes("User denied") ||
-        error.message?.includes("user denied")
-      ) {
-        setFeedback({
-          status: "primary",
-          message: ""
-        })
-      } else {
-        setFeedback({
-          status: "danger",
-          message: getErrorMessage(error) || "Error during token deployment"
-        })
-      }
+      return { receipt, deployedToken: deployedTokenData }
     }
   })
 
@@ -613,16 +284,17 @@ export const useCreateToken = () => {
 
   const reset = useCallback(() => {
     setDeployedToken(null)
-    resetFeedback()
+    executor.reset()
     createTokenMutation.reset()
-  }, [createTokenMutation])
+  }, [createTokenMutation, executor])
 
   return {
     createToken,
     reset,
     deployedToken,
     isLoading: createTokenMutation.isPending,
-    feedback,
+    status: executor.status,
+    feedback: executor.feedback,
     error: createTokenMutation.error
   }
 }
@@ -1,26 +1,19 @@
-import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { useMutation } from "@tanstack/react-query"
 import { useAccount } from "wagmi"
-import {
-  DELEGATE_CONTRACT_ADDRESS,
-  delegateAbi
-} from "@/constant/helios-contracts"
-import { useState } from "react"
-import { useWeb3Provider } from "./useWeb3Provider"
-import { ethers, TransactionReceipt } from "ethers"
-import { getErrorMessage } from "@/utils/string"
-import { Feedback } from "@/types/feedback"
+import { Address } from "viem"
+import { ethers } from "ethers"
+import { contracts } from "@/helpers/contracts"
+import { useTransactionExecutor } from "./useTransactionExecutor"
 
 export const useDelegate = () => {
   const { address } = useAccount()
-  const web3Provider = useWeb3Provider()
-  const queryClient = useQueryClient()
-  const [feedback, setFeedback] = useState<Feedback>({
-    status: "primary",
-    message: ""
-  })
-  const resetFeedback = () => {
-    setFeedback({ status: "primary", message: "" })
-  }
+  const executor = useTransactionExecutor()
+
+  const invalidate = [
+    ["delegations", address],
+    ["accountLastTxs", address],
+    ["whitelistedAssets"]
+  ]
 
   const delegateMutation = useMutation({
     mutationFn: async ({
@@ -34,52 +27,27 @@ export const useDelegate = () => {
       symbol: string
       decimals: number
     }) => {
-      if (!web3Provider) throw new Error("No wallet connected")
-      try {
-        const delegateAmount = ethers.parseUnits(amount, decimals)
-
-        setFeedback({ status: "primary", message: "Delegation in progress..." })
-        const contract = new web3Provider.eth.Contract(
-          delegateAbi,
-          DELEGATE_CONTRACT_ADDRESS
-        )
-
-        // simulate the transaction
-        await contract.methods
-          .delegate(address, validatorAddress, delegateAmount, symbol)
-          .call({
-            from: address
-          })
-
-        setFeedback({
-          status: "primary",
-          message: `Transaction sent, waiting for confirmation...`
-        })
-
-        // send the transaction
-        const receipt = await new Promise<TransactionReceipt>((resolve, reject) => {
-          web3Provider.eth.sendTransaction({
-            from: address,
-            to: DELEGATE_CONTRACT_ADDRESS,
-            data: contract.methods.delegate(address, validatorAddress, delegateAmount, symbol).encodeABI()
-
-          }).then((tx) => {
-            console.log("tx", tx.transactionHash)
-            resolve(tx as any)
-          }).catch((error) => {
-            console.log("error", error)
-            reject(error)
-          })
-        })
-
-        return receipt
-      } catch (error: any) {
-        setFeedback({
-          status: "danger",
-          message: getErrorMessage(error) || "Error during delegation"
-        })
-        throw error
-      }
+      if (!address) throw new Error("No wallet connected")
+      const delegateAmount = ethers.parseUnits(amount, decimals)
+
+      return executor.execute(
+        {
+          ...contracts.delegate,
+          functionName: "delegate",
+          args: [address, validatorAddress as Address, delegateAmount, symbol]
+        },
+        {
+          invalidate,
+          activity: {
+            type: "delegate",
+            title: `Delegate ${amount} ${symbol}`,
+            params: { validator: validatorAddress, amount, symbol }
+          },
+          preview: { amounts: { amount: { decimals, symbol } } },
+          messages: { simulating: "Delegation in progress..." },
+          successMessage: () => "Delegation successful!"
+        }
+      )
     }
   })
 
@@ -95,53 +63,32 @@ export const useDelegate = () => {
       symbol: string
       decimals: number
     }) => {
-      if (!web3Provider) throw new Error("No wallet connected")
-      try {
-        const undelegateAmount = ethers.parseUnits(amount, decimals)
-
-        setFeedback({
-          status: "primary",
-          message: "Undelegation in progress..."
-        })
-
-        const contract = new web3Provider.eth.Contract(
-          delegateAbi,
-          DELEGATE_CONTRACT_ADDRESS
-        )
-
-        // simulate the transaction
-        await contract.methods
-          .undelegate(address, validatorAddress, undelegateAmount, symbol)
-          .call({
-            from: address
-          })
-
-        setFeedback({
-          status: "primary",
-          message: `Transaction sent, waiting for confirmation...`
-        })
-
-        // send the transaction
-        const receipt = await new Promise<TransactionReceipt>((resolve, reject) => {
-          web3Provider.eth.sendTransaction({
-            from: address,
-            to: DELEGATE_CONTRACT_ADDRESS,
-            data: contract.methods.undelegate(address, validatorAddress, undelegateAmount, symbol).encodeABI()
-          }).then((tx) => {
-            resolve(tx as any)
-          }).catch((error) => {
-            reject(error)
-          })
-        })
-
-        return receipt
-      } catch (error: any) {
-        setFeedback({
-          status: "danger",
-          message: getErrorMessage(error) || "Error during undelegation"
-        })
-        throw error
-      }
+      if (!address) throw new Error("No wallet connected")
+      const undelegateAmount = ethers.parseUnits(amount, decimals)
+
+      return executor.execute(
+        {
+          ...contracts.delegate,
+          functionName: "undelegate",
+          args: [
+            address,
+            validatorAddress as Address,
+            undelegateAmount,
+            symbol
+          ]
+        },
+        {
+          invalidate,
+          activity: {
+            type: "undelegate",
+            title: `Undelegate ${amount} ${symbol}`,
+            params: { validator: validatorAddress, amount, symbol }
+          },
+          preview: { amounts: { amount: { decimals, symbol } } },
+          messages: { simulating: "Undelegation in progress..." },
+          successMessage: () => "Undelegation successful!"
+        }
+      )
     }
   })
 
@@ -157,15 +104,6 @@ export const useDelegate = () => {
       symbol,
       decimals
     })
-
-    setFeedback({
-      status: "success",
-      message: `Delegation successful ! Refreshing your delegations...`
-    })
-
-    await queryClient.refetchQueries({ queryKey: ["delegations", address] })
-    await queryClient.refetchQueries({ queryKey: ["accountLastTxs", address] })
-    await queryClient.refetchQueries({ queryKey: ["whitelistedAssets"] })
   }
 
   const undelegate = async (
@@ -180,22 +118,14 @@ export const useDelegate = () => {
       symbol,
       decimals
     })
-
-    setFeedback({
-      status: "success",
-      message: `Undelegation successful! Refreshing your delegations...`
-    })
-
-    await queryClient.refetchQueries({ queryKey: ["delegations", address] })
-    await queryClient.refetchQueries({ queryKey: ["accountLastTxs", address] })
-    await queryClient.refetchQueries({ queryKey: ["whitelistedAssets"] })
   }
 
   return {
     delegate,
     undelegate,
-    feedback,
-    resetFeedback,
+    status: executor.status,
+    feedback: executor.feedback,
+    resetFeedback: executor.reset,
     isLoading: delegateMutation.isPending || undelegateMutation.isPending
   }
 }
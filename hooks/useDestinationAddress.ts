@@ -0,0 +1,46 @@
+import { useQuery } from "@tanstack/react-query"
+import { useAccount } from "wagmi"
+import {
+  isContractAddress,
+  validateDestinationAddress
+} from "@/helpers/address-validation"
+import {
+  findAddressBookEntry,
+  useAddressBookStore
+} from "@/stores/address-book"
+import { HyperionChain } from "@/types/hyperion"
+
+/**
+ * Validates the address tokens are sent to on a chain and gathers what the
+ * sender should double check: a contract destination, an address other
+ * than the connected account, and its label in the address book
+ * @param value The address as typed
+ * @param chain The destination chain
+ */
+export const useDestinationAddress = (
+  value: string,
+  chain: HyperionChain | null
+) => {
+  const { address: account } = useAccount()
+  const entries = useAddressBookStore((state) => state.entries)
+
+  const validation = chain
+    ? validateDestinationAddress(value, chain)
+    : { address: null, error: null, unchecked: false }
+  const address = validation.address
+
+  const qIsContract = useQuery({
+    queryKey: ["isContractAddress", chain?.chainId, address],
+    queryFn: () => isContractAddress(chain!.chainId, address!),
+    enabled: !!chain && !!address && !validation.unchecked,
+    staleTime: Infinity
+  })
+
+  return {
+    ...validation,
+    entry: address ? findAddressBookEntry(entries, address) : null,
+    isContract: qIsContract.data ?? false,
+    isOtherAccount:
+      !!address && !!account && address.toLowerCase() !== account.toLowerCase()
+  }
+}
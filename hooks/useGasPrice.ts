@@ -1,14 +1,26 @@
+import { HELIOS_NETWORK_ID } from "@/config/app"
 import { useAppStore } from "@/stores/app"
-import { getGasPrice } from "@/helpers/rpc-calls"
-import { calculateAdjustedGasPrice } from "@/utils/gas"
+import { getFeeHistory, getGasPrice } from "@/helpers/rpc-calls"
+import {
+  FEE_HISTORY_BLOCKS,
+  FEE_TIER_PERCENTILES,
+  calculateAdjustedGasPrice,
+  computeFeeTiers,
+  computeLegacyFeeTiers
+} from "@/utils/gas"
 import { useQuery } from "@tanstack/react-query"
 
 /**
- * Hook to get the adjusted gas price based on the user's selected gas price option
- * @returns The adjusted gas price and related information
+ * Hook to get the Helios gas price adjusted with the option of its gas policy
+ * @returns The adjusted gas price, the fees of each option and related information
  */
 export function useGasPrice() {
-  const { gasPriceOption, debugMode } = useAppStore()
+  // Helios transactions use the network override of the settings when set
+  const gasPriceOption = useAppStore(
+    (state) =>
+      state.gasPolicyOverrides[HELIOS_NETWORK_ID]?.option ??
+      state.gasPriceOption
+  )
 
   // Fetch the base gas price from the network
   const {
@@ -21,19 +33,32 @@ export function useGasPrice() {
     refetchInterval: 30000 // Refetch every 30 seconds
   })
 
-  // Calculate the adjusted gas price based on the user's selected option
-  // Only apply adjustments if in debug mode
+  // Fetch the recent priority fees, to price type 2 transactions
+  const { data: feeHistory, isLoading: isFeeHistoryLoading } = useQuery({
+    queryKey: ["feeHistory"],
+    queryFn: () =>
+      getFeeHistory(FEE_HISTORY_BLOCKS, Object.values(FEE_TIER_PERCENTILES)),
+    refetchInterval: 30000,
+    retry: false
+  })
+
+  // Calculate the adjusted gas price based on the selected option
   const adjustedGasPrice = baseGasPrice
-    ? debugMode
-      ? calculateAdjustedGasPrice(baseGasPrice, gasPriceOption)
-      : BigInt(baseGasPrice)
+    ? calculateAdjustedGasPrice(baseGasPrice, gasPriceOption)
     : BigInt("20000000000") // 20 Gwei as a fallback
 
+  // Fees of each option, legacy ones when the chain has no base fee
+  const tiers =
+    (feeHistory && computeFeeTiers(feeHistory)) ||
+    (baseGasPrice ? computeLegacyFeeTiers(baseGasPrice) : undefined)
+
   return {
     baseGasPrice,
     adjustedGasPrice,
     gasPriceOption,
-    isLoading,
+    tiers,
+    fees: tiers?.[gasPriceOption],
+    isLoading: isLoading || isFeeHistoryLoading,
     error
   }
 }
@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react"
+import { isSubscriptionAvailable, subscribe } from "@/helpers/subscriptions"
+import { useRpcStore } from "@/stores/rpc"
+import { BlockHeader } from "@/types/block"
+import { fromHex } from "@/utils/number"
+
+export const useLiveBlock = () => {
+  const wsStatus = useRpcStore((state) => state.wsStatus)
+  const [heads, setHeads] = useState<{
+    head: BlockHeader | null
+    previousHead: BlockHeader | null
+  }>({ head: null, previousHead: null })
+
+  useEffect(() => {
+    if (!isSubscriptionAvailable()) return
+
+    return subscribe(["newHeads"], (head: BlockHeader) =>
+      setHeads((prev) => ({ head, previousHead: prev.head }))
+    )
+  }, [])
+
+  const { head, previousHead } = heads
+
+  return {
+    head,
+    previousHead,
+    blockNumber: head ? fromHex(head.number) : null,
+    isLive: wsStatus === "open" && !!head
+  }
+}
@@ -0,0 +1,43 @@
+import { useInfiniteQuery, type QueryKey } from "@tanstack/react-query"
+import { DEFAULT_PAGE_SIZE, PageFetcher } from "@/helpers/paginate"
+
+interface PaginatedQueryOptions<T> {
+  queryKey: QueryKey
+  fetchPage: PageFetcher<T>
+  pageSize?: number
+  enabled?: boolean
+  refetchInterval?: number
+}
+
+/**
+ * Loads a paginated RPC method page by page, for "load more" lists
+ * and infinite scroll
+ * @param options The query key, the page fetcher and the page size
+ * @returns The loaded items and the controls to load the next page
+ */
+export const usePaginatedQuery = <T>({
+  queryKey,
+  fetchPage,
+  pageSize = DEFAULT_PAGE_SIZE,
+  enabled = true,
+  refetchInterval
+}: PaginatedQueryOptions<T>) => {
+  const query = useInfiniteQuery({
+    queryKey: [...queryKey, pageSize],
+    queryFn: ({ pageParam }) => fetchPage(pageParam, pageSize),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage, _, lastPageParam) =>
+      lastPage.length < pageSize ? undefined : lastPageParam + 1,
+    enabled,
+    refetchInterval
+  })
+
+  return {
+    items: query.data?.pages.flat() ?? [],
+    fetchNextPage: query.fetchNextPage,
+    hasNextPage: query.hasNextPage,
+    isFetchingNextPage: query.isFetchingNextPage,
+    isLoading: query.isLoading,
+    error: query.error
+  }
+}
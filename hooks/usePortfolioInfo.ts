@@ -1,7 +1,6 @@
 import { useQuery } from "@tanstack/react-query"
 import { useAccount } from "wagmi"
-import { getTokensBalance } from "@/helpers/rpc-calls"
-import { toHex } from "@/utils/number"
+import { fetchAllPages, tokensBalancePages } from "@/helpers/paginate"
 import { useTokenRegistry } from "./useTokenRegistry"
 import { TokenExtended } from "@/types/token"
 import { ethers } from "ethers"
@@ -13,7 +12,7 @@ export const usePortfolioInfo = () => {
 
   const qTokenBalances = useQuery({
     queryKey: ["tokensBalance", address],
-    queryFn: () => getTokensBalance(address!, toHex(1), toHex(10)),
+    queryFn: () => fetchAllPages(tokensBalancePages(address!)),
     enabled: !!address
   })
 
@@ -22,7 +21,7 @@ export const usePortfolioInfo = () => {
     enabled: !!qTokenBalances.data,
     queryFn: async (): Promise<TokenExtended[]> => {
       const results = await Promise.all(
-        qTokenBalances.data!.Balances.map(async (token) => {
+        qTokenBalances.data!.map(async (token) => {
           const enriched = await getTokenByAddress(
             token.address,
             HELIOS_NETWORK_ID
@@ -0,0 +1,82 @@
+import { useMutation } from "@tanstack/react-query"
+import { getExplorerTxUrl } from "@/helpers/activity"
+import { toPortalError } from "@/helpers/errors"
+import { getGasPolicy } from "@/helpers/gas-policy"
+import { ReplacementKind, replaceTransaction } from "@/helpers/transactions"
+import { getFeeEstimates } from "@/lib/utils/gas"
+import { Activity, useActivityStore } from "@/stores/activity"
+import { useChainGuard } from "./useChainGuard"
+
+/**
+ * Speeds up or cancels a pending transaction of the activity center. The
+ * replacement is priced with the gas policy of its network and
+ * recorded as an attempt of the activity, which follows whichever attempt
+ * ends up mined.
+ */
+export const useReplaceTransaction = () => {
+  const { ensureChain } = useChainGuard()
+  const updateActivity = useActivityStore((state) => state.updateActivity)
+
+  const mutation = useMutation({
+    mutationFn: async ({
+      activity,
+      kind
+    }: {
+      activity: Activity
+      kind: ReplacementKind
+    }) => {
+      try {
+        const web3Provider = await ensureChain(activity.chainId)
+
+        const policy = getGasPolicy(activity.chainId)
+        const fees = await getFeeEstimates(web3Provider)
+        const replacement = await replaceTransaction(
+          web3Provider,
+          activity.hash,
+          { kind, fees: fees[policy.option], maxFeeCap: policy.maxFeeCap }
+        )
+
+        const now = Date.now()
+        const attempts = activity.attempts ?? [
+          {
+            hash: activity.hash,
+            kind: "original" as const,
+            gasPrice: replacement.previousGasPrice.toString(),
+            createdAt: activity.createdAt
+          }
+        ]
+
+        // The tracker picks the entry up again under its new hash
+        updateActivity(activity.hash, {
+          hash: replacement.hash,
+          status: "pending",
+          error: undefined,
+          explorerUrl: getExplorerTxUrl(activity.chainId, replacement.hash),
+          attempts: [
+            ...attempts,
+            {
+              hash: replacement.hash,
+              kind,
+              gasPrice: replacement.gasPrice.toString(),
+              createdAt: now
+            }
+          ]
+        })
+
+        return replacement
+      } catch (error) {
+        throw toPortalError(error)
+      }
+    }
+  })
+
+  return {
+    speedUp: (activity: Activity) =>
+      mutation.mutateAsync({ activity, kind: "speed-up" }),
+    cancel: (activity: Activity) =>
+      mutation.mutateAsync({ activity, kind: "cancel" }),
+    replacing: mutation.isPending ? mutation.variables : undefined,
+    error: mutation.error,
+    failedHash: mutation.isError ? mutation.variables?.activity.hash : undefined
+  }
+}
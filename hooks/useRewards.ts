@@ -1,147 +1,54 @@
-import { useMutation, useQueryClient } from "@tanstack/react-query"
-import { useAccount, useSwitchChain } from "wagmi"
-import {
-  REWARDS_CONTRACT_ADDRESS,
-  claimAllRewardsAbi,
-  withdrawDelegatorRewardsAbi
-} from "@/constant/helios-contracts"
-import { Feedback } from "@/types/feedback"
-import { useState } from "react"
-import { useWeb3Provider } from "@/hooks/useWeb3Provider"
-import { getErrorMessage } from "@/utils/string"
-import { HELIOS_NETWORK_ID } from "@/config/app"
+import { useMutation } from "@tanstack/react-query"
+import { useAccount } from "wagmi"
+import { Address } from "viem"
+import { contracts } from "@/helpers/contracts"
+import { useTransactionExecutor } from "./useTransactionExecutor"
 
 export const useRewards = () => {
-  const queryClient = useQueryClient()
-  const { chainId, address } = useAccount()
-  const { switchChain } = useSwitchChain()
-  const web3Provider = useWeb3Provider()
-  const [feedback, setFeedback] = useState<Feedback>({
-    status: "primary",
-    message: ""
-  })
+  const { address } = useAccount()
+  const executor = useTransactionExecutor()
 
   const qWithdrawRewards = useMutation({
     mutationFn: async () => {
-      if (!web3Provider || !address) throw new Error("No wallet connected")
-
-      if (chainId !== HELIOS_NETWORK_ID) {
-        switchChain({ chainId: HELIOS_NETWORK_ID })
-      }
-
-      try {
-        setFeedback({
-          status: "primary",
-          message: "Transaction in progress..."
-        })
-
-        const contract = new web3Provider.eth.Contract(
-          claimAllRewardsAbi,
-          REWARDS_CONTRACT_ADDRESS
-        )
-
-         // simulate the transaction
-        await contract.methods.claimRewards(address, 10).call({ from: address })
-
-        setFeedback({
-          status: "primary",
-          message: "Estimating gas..."
-        })
-
-        // estimate the gas
-        const gasEstimate = await contract.methods.claimRewards(address, 10).estimateGas({ from: address })
-
-        setFeedback({
-          status: "primary",
-          message: "Sending transaction..."
-        })
-
-        // add 20% to the gas estimation to be safe
-        const gasLimit = (gasEstimate * 120n) / 100n
-
-        // Send actual transaction
-        const tx = await contract.methods
-          .claimRewards(address, 10)
-          .send({ from: address, gas: gasLimit.toString() })
-
-        setFeedback({
-          status: "primary",
-          message: `Transaction sent (hash: ${tx.transactionHash}), waiting for confirmation...`
-        })
-
-        const receipt = await web3Provider.eth.getTransactionReceipt(
-          tx.transactionHash
-        )
-
-        await queryClient.refetchQueries({ queryKey: ["delegations", address] })
-        await queryClient.refetchQueries({ queryKey: ["whitelistedAssets"] })
-
-        setFeedback({
-          status: "success",
-          message: `Transaction confirmed in block ${receipt.blockNumber}`
-        })
-        return receipt
-      } catch (error: any) {
-        console.error(error)
-        setFeedback({
-          status: "danger",
-          message: getErrorMessage(error) || "Error during rewards withdrawal"
-        })
-        throw error
-      }
+      if (!address) throw new Error("No wallet connected")
+
+      return executor.execute(
+        {
+          ...contracts.rewards,
+          functionName: "claimRewards",
+          args: [address, 10]
+        },
+        {
+          invalidate: [["delegations", address], ["whitelistedAssets"]],
+          activity: {
+            type: "claim-rewards",
+            title: "Claim all rewards",
+            params: {}
+          }
+        }
+      )
     }
   })
 
   const qWithdrawDelegatorRewards = useMutation({
     mutationFn: async (validatorAddress: string) => {
-      if (!web3Provider) throw new Error("No wallet connected")
-
-      if (chainId !== HELIOS_NETWORK_ID) {
-        switchChain({ chainId: HELIOS_NETWORK_ID })
-      }
-
-      try {
-        setFeedback({
-          status: "primary",
-          message: "Transaction in progress..."
-        })
-
-        const contract = new web3Provider.eth.Contract(
-          withdrawDelegatorRewardsAbi,
-          REWARDS_CONTRACT_ADDRESS
-        )
-
-        await contract.methods
-          .withdrawDelegatorRewards(address, validatorAddress)
-          .call({ from: address })
-
-        const tx = await contract.methods
-          .withdrawDelegatorRewards(address, validatorAddress)
-          .send({ from: address, gas: "15000000" })
-
-        setFeedback({
-          status: "primary",
-          message: `Transaction sent (hash: ${tx.transactionHash}), waiting for confirmation...`
-        })
-
-        const receipt = await web3Provider.eth.getTransactionReceipt(
-          tx.transactionHash
-        )
-
-        await queryClient.refetchQueries({ queryKey: ["delegations", address] })
-
-        setFeedback({
-          status: "success",
-          message: `Transaction confirmed in block ${receipt.blockNumber}`
-        })
-        return receipt
-      } catch (error: any) {
-        setFeedback({
-          status: "danger",
-          message: getErrorMessage(error) || "Error during rewards withdrawal"
-        })
-        throw error
-      }
+      if (!address) throw new Error("No wallet connected")
+
+      return executor.execute(
+        {
+          ...contracts.rewards,
+          functionName: "withdrawDelegatorRewards",
+          args: [address, validatorAddress as Address]
+        },
+        {
+          invalidate: [["delegations", address]],
+          activity: {
+            type: "claim-rewards",
+            title: "Claim validator rewards",
+            params: { validator: validatorAddress }
+          }
+        }
+      )
     }
   })
 
@@ -149,9 +56,10 @@ export const useRewards = () => {
     isLoading:
       qWithdrawRewards.isPending ||
       qWithdrawDelegatorRewards.isPending ||
-      !web3Provider,
+      !executor.isReady,
     claimRewards: qWithdrawRewards.mutateAsync,
     claimValidatorRewards: qWithdrawDelegatorRewards.mutateAsync,
-    feedback
+    status: executor.status,
+    feedback: executor.feedback
   }
 }
@@ -2,7 +2,8 @@ import { useQuery } from "@tanstack/react-query"
 import { useChainId, useAccount } from "wagmi"
 import Web3 from "web3"
 import { ethers } from "ethers"
-import { erc20Abi } from "@/constant/helios-contracts"
+import { Address } from "viem"
+import { contracts, readContract } from "@/helpers/contracts"
 import { getChainConfig } from "@/config/chain-config"
 import { secondsToMilliseconds } from "@/utils/number"
 
@@ -35,29 +36,30 @@ export const fetchTokenInfo = async (
       )
     }
 
-    const contract = new web3.eth.Contract(erc20Abi, tokenAddress)
+    const read = { ...contracts.erc20, address: tokenAddress }
 
     const [name, symbol, decimals, totalSupply, balanceRaw] = await Promise.all(
       [
-        contract.methods.name().call() as Promise<string>,
-        contract.methods.symbol().call() as Promise<string>,
-        contract.methods.decimals().call() as Promise<string>,
-        contract.methods.totalSupply().call() as Promise<string>,
+        readContract(web3, { ...read, functionName: "name", args: [] }),
+        readContract(web3, { ...read, functionName: "symbol", args: [] }),
+        readContract(web3, { ...read, functionName: "decimals", args: [] }),
+        readContract(web3, { ...read, functionName: "totalSupply", args: [] }),
         userAddress
-          ? (contract.methods.balanceOf(userAddress).call() as Promise<string>)
-          : Promise.resolve("0")
+          ? readContract(web3, {
+              ...read,
+              functionName: "balanceOf",
+              args: [userAddress as Address]
+            })
+          : Promise.resolve(0n)
       ]
     )
 
-    const decimalsInt = parseInt(decimals)
-    const readableBalance = parseFloat(
-      ethers.formatUnits(balanceRaw.toString(), decimalsInt)
-    )
+    const readableBalance = parseFloat(ethers.formatUnits(balanceRaw, decimals))
 
     return {
       name,
       symbol,
-      decimals: decimalsInt,
+      decimals,
       totalSupply: totalSupply.toString(),
       balance: balanceRaw.toString(),
       readableBalance
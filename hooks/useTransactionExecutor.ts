@@ -0,0 +1,280 @@
+import { QueryKey, useQueryClient } from "@tanstack/react-query"
+import { useCallback, useMemo, useState } from "react"
+import { Abi, ContractFunctionName, TransactionReceipt } from "viem"
+import { useAccount } from "wagmi"
+import { HELIOS_NETWORK_ID } from "@/config/app"
+import {
+  ContractCallParameters,
+  WriteMutability,
+  encodeContractCall,
+  estimateContractGas,
+  simulateContract,
+  writeContract
+} from "@/helpers/contracts"
+import {
+  PreviewRejectedError,
+  RevertError,
+  TransactionDroppedError,
+  TransactionReplacedError,
+  TransactionTimeoutError,
+  toPortalError
+} from "@/helpers/errors"
+import { getExplorerTxUrl, watchActivity } from "@/helpers/activity"
+import {
+  DEFAULT_CONFIRMATIONS,
+  DEFAULT_TRANSACTION_TIMEOUT
+} from "@/helpers/transactions"
+import { resolveTransactionFees } from "@/helpers/gas-policy"
+import { buildTransactionPreview } from "@/helpers/transaction-preview"
+import { withGasBuffer } from "@/lib/utils/gas"
+import { Activity, useActivityStore } from "@/stores/activity"
+import { useTransactionPreviewStore } from "@/stores/transaction-preview"
+import { Feedback } from "@/types/feedback"
+import { TransactionPreviewHints } from "@/types/transaction-preview"
+import { toFeeParameters } from "@/utils/gas"
+import {
+  TransactionStatus,
+  TransactionStep
+} from "@/types/transaction-status"
+import { useChainGuard } from "./useChainGuard"
+import { useWeb3Provider } from "./useWeb3Provider"
+
+type PendingStep = Exclude<TransactionStep, "idle" | "success" | "error">
+
+export interface ExecuteOptions {
+  // Chain the transaction must be sent on, Helios by default
+  chainId?: number
+  // Gas limit used when the node fails to estimate the transaction
+  fallbackGasLimit?: bigint
+  // Blocks to wait for, the transaction block included
+  confirmations?: number
+  // Time to wait for the confirmations in milliseconds
+  timeout?: number
+  // Queries refreshed once the transaction is confirmed
+  invalidate?: QueryKey[]
+  // Recorded in the activity center once the transaction is sent
+  activity?: Pick<Activity, "type" | "title" | "params">
+  // Formats the token amounts of the preview shown before signing
+  preview?: TransactionPreviewHints
+  // Replaces the default message of a step
+  messages?: Partial<Record<PendingStep, React.ReactNode>>
+  successMessage?: (receipt: TransactionReceipt) => React.ReactNode
+}
+
+const IDLE_STATUS: TransactionStatus = { step: "idle", message: "" }
+
+const DEFAULT_MESSAGES: Record<PendingStep, React.ReactNode> = {
+  "switching-chain": "Switching your wallet to the right network...",
+  simulating: "Simulating the transaction...",
+  estimating: "Estimating gas...",
+  reviewing: "Review the transaction before signing...",
+  signing: "Waiting for your signature in the wallet...",
+  confirming: "Transaction sent, waiting for confirmation..."
+}
+
+/**
+ * Converts a transaction status to the feedback shape the modals render.
+ * Timeouts are warnings since the transaction can still be mined.
+ * @param status The transaction status
+ */
+export const toFeedback = (status: TransactionStatus): Feedback => ({
+  status:
+    status.step === "success"
+      ? "success"
+      : status.error instanceof TransactionTimeoutError
+        ? "warning"
+        : status.step === "error"
+          ? "danger"
+          : "primary",
+  message: status.message,
+  transaction: status.hash
+    ? {
+        hash: status.hash,
+        confirmations: status.confirmations ?? 0,
+        requiredConfirmations:
+          status.requiredConfirmations ?? DEFAULT_CONFIRMATIONS
+      }
+    : undefined
+})
+
+// The hash the error is about, the transaction may not exist anymore
+const errorHash = (error: unknown) =>
+  error instanceof TransactionDroppedError ||
+  error instanceof TransactionReplacedError ||
+  error instanceof TransactionTimeoutError
+    ? error.hash
+    : undefined
+
+/**
+ * Sends contract transactions from the connected wallet through the same
+ * steps: chain check, simulation, gas estimation, signature, confirmation
+ * and query invalidation. Every step is published in `status`.
+ */
+export const useTransactionExecutor = () => {
+  const { address } = useAccount()
+  const { ensureChain } = useChainGuard()
+  const web3Provider = useWeb3Provider()
+  const queryClient = useQueryClient()
+  const addActivity = useActivityStore((state) => state.addActivity)
+  const requestReview = useTransactionPreviewStore(
+    (state) => state.requestReview
+  )
+  const [status, setStatus] = useState<TransactionStatus>(IDLE_STATUS)
+  const [isPending, setIsPending] = useState(false)
+
+  const feedback = useMemo(() => toFeedback(status), [status])
+
+  const reset = useCallback(() => setStatus(IDLE_STATUS), [])
+
+  const execute = async <
+    const TAbi extends Abi,
+    TFunctionName extends ContractFunctionName<TAbi, WriteMutability>
+  >(
+    call: Omit<
+      ContractCallParameters<TAbi, WriteMutability, TFunctionName>,
+      "from"
+    >,
+    options: ExecuteOptions = {}
+  ): Promise<TransactionReceipt> => {
+    const messages = { ...DEFAULT_MESSAGES, ...options.messages }
+    const requiredConfirmations =
+      options.confirmations ?? DEFAULT_CONFIRMATIONS
+    const goTo = (step: PendingStep) =>
+      setStatus({ step, message: messages[step] })
+
+    setIsPending(true)
+    try {
+      if (!web3Provider || !address) throw new Error("No wallet connected")
+
+      const expectedChainId = options.chainId ?? HELIOS_NETWORK_ID
+      const provider = await ensureChain(expectedChainId, () =>
+        goTo("switching-chain")
+      )
+
+      const params = { ...call, from: address } as ContractCallParameters<
+        TAbi,
+        WriteMutability,
+        TFunctionName
+      >
+
+      goTo("simulating")
+      const simulation = await simulateContract(provider, params)
+      // Helios precompiles report some failures by returning false
+      if (simulation === false) throw new RevertError(null)
+
+      goTo("estimating")
+      let gas: bigint
+      try {
+        gas = withGasBuffer(await estimateContractGas(provider, params))
+      } catch (error) {
+        if (!options.fallbackGasLimit) throw error
+        gas = options.fallbackGasLimit
+      }
+      // Priced with the gas policy of the chain, above the cap nothing is sent
+      const fees = await resolveTransactionFees(provider, expectedChainId)
+
+      goTo("reviewing")
+      const preview = buildTransactionPreview(
+        {
+          chainId: expectedChainId,
+          address: params.address,
+          data: encodeContractCall(params),
+          value: params.value,
+          gasLimit: gas,
+          fees,
+          simulation
+        },
+        options.preview
+      )
+      if (!(await requestReview(preview))) throw new PreviewRejectedError()
+
+      goTo("signing")
+      let hash = await writeContract(provider, {
+        ...params,
+        gas,
+        ...toFeeParameters(fees)
+      })
+
+      const confirming = (confirmations: number) =>
+        setStatus({
+          step: "confirming",
+          message:
+            requiredConfirmations > 1 && confirmations > 0
+              ? `Waiting for confirmations (${confirmations}/${requiredConfirmations})...`
+              : messages.confirming,
+          hash,
+          confirmations,
+          requiredConfirmations
+        })
+      confirming(0)
+
+      const now = Date.now()
+      addActivity({
+        type: "contract-call",
+        title: "Contract call",
+        params: {},
+        ...options.activity,
+        hash,
+        from: address,
+        chainId: expectedChainId,
+        status: "pending",
+        explorerUrl: getExplorerTxUrl(expectedChainId, hash),
+        createdAt: now,
+        updatedAt: now,
+        invalidate: options.invalidate
+      })
+
+      const receipt = await watchActivity(
+        provider,
+        { hash, chainId: expectedChainId },
+        {
+          confirmations: requiredConfirmations,
+          timeout: options.timeout ?? DEFAULT_TRANSACTION_TIMEOUT,
+          onConfirmation: confirming,
+          onReplaced: (replacement) => {
+            hash = replacement
+            confirming(0)
+          }
+        }
+      )
+
+      await Promise.all(
+        (options.invalidate ?? []).map((queryKey) =>
+          queryClient.invalidateQueries({ queryKey })
+        )
+      )
+
+      setStatus({
+        step: "success",
+        hash: receipt.transactionHash,
+        confirmations: requiredConfirmations,
+        requiredConfirmations,
+        message:
+          options.successMessage?.(receipt) ??
+          `Transaction confirmed in block #${receipt.blockNumber}`
+      })
+
+      return receipt
+    } catch (error) {
+      const portalError = toPortalError(error)
+      setStatus({
+        step: "error",
+        message: portalError.message,
+        hash: errorHash(portalError),
+        error: portalError
+      })
+      throw portalError
+    } finally {
+      setIsPending(false)
+    }
+  }
+
+  return {
+    execute,
+    status,
+    feedback,
+    reset,
+    isPending,
+    isReady: !!web3Provider && !!address
+  }
+}
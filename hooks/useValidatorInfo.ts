@@ -1,9 +1,6 @@
 import { useQuery } from "@tanstack/react-query"
-import {
-  getActiveValidatorCount,
-  getValidatorsByPageAndSize
-} from "@/helpers/rpc-calls"
-import { toHex } from "@/utils/number"
+import { getActiveValidatorCount } from "@/helpers/rpc-calls"
+import { fetchAllPages, validatorsPages } from "@/helpers/paginate"
 import { Validator } from "@/types/validator"
 
 enum NetworkSecurity {
@@ -14,13 +11,11 @@ enum NetworkSecurity {
 }
 
 export const useValidatorInfo = () => {
-  const page = 1
-  const size = 100
+  const maxValidators = 100
 
   const qValidators = useQuery({
-    queryKey: ["validators", page, size],
-    queryFn: () => getValidatorsByPageAndSize(toHex(page), toHex(size)),
-    enabled: !!page && !!size
+    queryKey: ["validators"],
+    queryFn: () => fetchAllPages(validatorsPages)
   })
 
   const qActiveValidatorCount = useQuery({
@@ -53,7 +48,7 @@ export const useValidatorInfo = () => {
   return {
     validators: qValidators.data || [],
     activeValidators,
-    maxValidators: size,
+    maxValidators,
     avgApr,
     networkSecurity,
     isLoading: qValidators.isLoading,
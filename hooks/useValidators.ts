@@ -1,15 +1,12 @@
 import { useQuery } from "@tanstack/react-query"
-import { getValidatorsByPageAndSize } from "@/helpers/rpc-calls"
-import { toHex } from "@/utils/number"
+import { fetchAllPages, validatorsPages } from "@/helpers/paginate"
 
-export const useValidators = (page = 1, size = 100) => {
+export const useValidators = () => {
   const qValidators = useQuery({
-    queryKey: ["validators", page, size],
+    queryKey: ["validators"],
     queryFn: async () => {
-      const validators = await getValidatorsByPageAndSize(toHex(page), toHex(size))
-      
-      if (!validators) return []
-      
+      const validators = await fetchAllPages(validatorsPages)
+
       // Sort validators: jailed last
       return validators.sort((a, b) => {
         // Among non-active, jailed last
@@ -17,8 +14,7 @@ export const useValidators = (page = 1, size = 100) => {
         if (!a.jailed && b.jailed) return -1
         return 0
       })
-    },
-    enabled: !!page && !!size
+    }
   })
 
   return {
@@ -1,61 +1,11 @@
-import { Feedback } from "@/types/feedback"
-import { getErrorMessage } from "@/utils/string"
-import { useMutation, useQueryClient } from "@tanstack/react-query"
-import { useState } from "react"
+import { useMutation } from "@tanstack/react-query"
 import { useAccount } from "wagmi"
-import { useWeb3Provider } from "./useWeb3Provider"
-
-const voteAbi = [
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "voter",
-        type: "address"
-      },
-      {
-        internalType: "uint64",
-        name: "proposalId",
-        type: "uint64"
-      },
-      {
-        internalType: "enum VoteOption",
-        name: "option",
-        type: "uint8"
-      },
-      {
-        internalType: "string",
-        name: "metadata",
-        type: "string"
-      }
-    ],
-    name: "vote",
-    outputs: [
-      {
-        internalType: "bool",
-        name: "success",
-        type: "bool"
-      }
-    ],
-    stateMutability: "nonpayable",
-    type: "function"
-  }
-]
-
-const GOVERNANCE_CONTRACT_ADDRESS = "0x0000000000000000000000000000000000000805"
+import { contracts } from "@/helpers/contracts"
+import { useTransactionExecutor } from "./useTransactionExecutor"
 
 export const useVote = () => {
   const { address } = useAccount()
-  const web3Provider = useWeb3Provider()
-  const queryClient = useQueryClient()
-  const [feedback, setFeedback] = useState<Feedback>({
-    status: "primary",
-    message: ""
-  })
-
-  const resetFeedback = () => {
-    setFeedback({ status: "primary", message: "" })
-  }
+  const executor = useTransactionExecutor()
 
   const voteMutation = useMutation({
     mutationFn: async ({
@@ -67,68 +17,30 @@ export const useVote = () => {
       option: number
       metadata: string
     }) => {
-      if (!web3Provider) throw new Error("No wallet connected")
-
-      try {
-        console.log("Vote in progress...")
-        setFeedback({
-          status: "primary",
-          message: "Vote transaction in progress..."
-        })
-
-        // Create web3 contract instance (following your delegate pattern)
-        const contract = new web3Provider.eth.Contract(
-          voteAbi,
-          GOVERNANCE_CONTRACT_ADDRESS
-        )
-
-        // Call first to check if transaction will succeed
-        await contract.methods
-          .vote(address, proposalId, option, metadata)
-          .call({
-            from: address
-          })
-
-        // Send the transaction
-        const tx = await contract.methods
-          .vote(address, proposalId, option, metadata)
-          .send({
-            from: address
-          })
-
-        console.log("Transaction sent, hash:", tx.transactionHash)
-
-        setFeedback({
-          status: "primary",
-          message: `Transaction sent, waiting for confirmation...`
-        })
-
-        // Wait for transaction receipt
-        const receipt = await web3Provider.eth.getTransactionReceipt(
-          tx.transactionHash
-        )
-        console.log("Transaction confirmed in block:", receipt.blockNumber)
-
-        return receipt
-      } catch (error: any) {
-        console.error("Error during vote submission:", error)
-        const errorMessage =
-          getErrorMessage(error) || "Error during vote submission"
-        setFeedback({
-          status: "danger",
-          message: errorMessage
-        })
-        throw error
-      }
-    },
-    onError: (error: any) => {
-      console.log(error.data.message)
-      // Additional error handling to ensure feedback is set correctly
-      console.error("Mutation error:", error)
-      setFeedback({
-        status: "danger",
-        message: getErrorMessage(error) || "Error during vote submission"
-      })
+      if (!address) throw new Error("No wallet connected")
+
+      return executor.execute(
+        {
+          ...contracts.governance,
+          functionName: "vote",
+          args: [address, BigInt(proposalId), option, metadata]
+        },
+        {
+          invalidate: [
+            ["proposals"],
+            ["proposal", proposalId],
+            ["userVotes", address],
+            ["accountLastTxs", address]
+          ],
+          activity: {
+            type: "vote",
+            title: `Vote on proposal #${proposalId}`,
+            params: { proposal: String(proposalId), option: String(option) }
+          },
+          messages: { simulating: "Vote transaction in progress..." },
+          successMessage: () => "Vote submitted successfully!"
+        }
+      )
     }
   })
 
@@ -145,19 +57,7 @@ export const useVote = () => {
         metadata: metadata || `Vote on proposal ${proposalId}`
       })
 
-      setFeedback({
-        status: "success",
-        message: `Vote submitted successfully! Refreshing data...`
-      })
       console.log("Vote successfully submitted!")
-
-      // Refetch relevant queries
-      await queryClient.refetchQueries({ queryKey: ["proposals"] })
-      await queryClient.refetchQueries({ queryKey: ["proposal", proposalId] })
-      await queryClient.refetchQueries({ queryKey: ["userVotes", address] })
-      await queryClient.refetchQueries({
-        queryKey: ["accountLastTxs", address]
-      })
     } catch (error) {
       // Error is already handled in the mutation, but we can add additional logic here if needed
       console.error("Vote submission failed:", error)
@@ -166,8 +66,9 @@ export const useVote = () => {
 
   return {
     vote,
-    feedback,
-    resetFeedback,
+    status: executor.status,
+    feedback: executor.feedback,
+    resetFeedback: executor.reset,
     isLoading: voteMutation.isPending
   }
 }
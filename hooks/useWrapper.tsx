@@ -1,10 +1,8 @@
-import { useState } from "react"
 import { useAccount, useChainId } from "wagmi"
 import { ethers } from "ethers"
 import { useWeb3Provider } from "./useWeb3Provider"
-import { getErrorMessage } from "@/utils/string"
-import { Feedback } from "@/types/feedback"
-import { wrapperAbi } from "@/constant/helios-contracts"
+import { useTransactionExecutor } from "./useTransactionExecutor"
+import { contracts, readContract } from "@/helpers/contracts"
 import { CHAIN_CONFIG, isWrappableChain } from "@/config/chain-config"
 import { useQuery } from "@tanstack/react-query"
 import { secondsToMilliseconds } from "@/utils/number"
@@ -13,10 +11,7 @@ export const useWrapper = (options?: { enableNativeBalance?: boolean; enableWrap
   const { address } = useAccount()
   const chainId = useChainId()
   const web3Provider = useWeb3Provider()
-  const [feedback, setFeedback] = useState<Feedback>({
-    status: "primary",
-    message: ""
-  })
+  const executor = useTransactionExecutor()
   const chainConfig = CHAIN_CONFIG[chainId]
   const WRAPPER_CONTRACT_ADDRESS = chainConfig?.wrapperContract
   const decimals = chainConfig?.decimals || 18
@@ -39,56 +34,47 @@ export const useWrapper = (options?: { enableNativeBalance?: boolean; enableWrap
     queryKey: ["wrappedBalance", address, chainId, WRAPPER_CONTRACT_ADDRESS],
     queryFn: async () => {
       if (!web3Provider || !address || !WRAPPER_CONTRACT_ADDRESS) return "0"
-      const contract = new web3Provider.eth.Contract(
-        wrapperAbi,
-        WRAPPER_CONTRACT_ADDRESS
-      )
-      const balance = await contract.methods.balanceOf(address).call() as string
+      const balance = await readContract(web3Provider, {
+        ...contracts.wrapper,
+        address: WRAPPER_CONTRACT_ADDRESS,
+        functionName: "balanceOf",
+        args: [address]
+      })
       return ethers.formatUnits(balance, decimals)
     },
     enabled: enableWrappedBalance && !!web3Provider && !!address && !!chainId && !!WRAPPER_CONTRACT_ADDRESS,
     refetchInterval: secondsToMilliseconds(60)
   })
 
-  const resetFeedback = () => {
-    setFeedback({ status: "primary", message: "" })
-  }
+  const invalidate = [
+    ["nativeBalance", address, chainId],
+    ["wrappedBalance", address, chainId, WRAPPER_CONTRACT_ADDRESS]
+  ]
 
   const wrap = async (amount: string) => {
-    if (!web3Provider) throw new Error("No wallet connected")
-    try {
-      const wrapAmount = ethers.parseUnits(amount, decimals)
-
-      setFeedback({ status: "primary", message: "Wrap in progress..." })
-      const contract = new web3Provider.eth.Contract(
-        wrapperAbi,
-        WRAPPER_CONTRACT_ADDRESS
-      )
-
-      await contract.methods.deposit().call({
-        from: address,
-        value: wrapAmount.toString(),
-        gas: "1500000"
-      })
-
-      const tx = await contract.methods.deposit().send({
-        from: address,
-        value: wrapAmount.toString(),
-        gas: "1500000"
-      })
-
-      setFeedback({
-        status: "primary",
-        message: `Transaction sent, waiting for confirmation...`
-      })
-
-      const receipt = await web3Provider.eth.getTransactionReceipt(
-        tx.transactionHash
-      )
-
-      setFeedback({
-        status: "success",
-        message: (
+    if (!WRAPPER_CONTRACT_ADDRESS) {
+      throw new Error("No wrapper contract on this chain")
+    }
+    const wrapAmount = ethers.parseUnits(amount, decimals)
+
+    return executor.execute(
+      {
+        ...contracts.wrapper,
+        address: WRAPPER_CONTRACT_ADDRESS,
+        functionName: "deposit",
+        args: [],
+        value: wrapAmount
+      },
+      {
+        chainId,
+        invalidate,
+        activity: {
+          type: "wrap",
+          title: `Wrap ${amount} ${chainConfig?.token ?? ""}`.trim(),
+          params: { amount }
+        },
+        messages: { simulating: "Wrap in progress..." },
+        successMessage: () => (
           <>
             Successfully wrapped{" "}
             <b>
@@ -98,78 +84,53 @@ export const useWrapper = (options?: { enableNativeBalance?: boolean; enableWrap
             Wrapped token address: <code>{WRAPPER_CONTRACT_ADDRESS}</code>
           </>
         )
-      })
-
-      return receipt
-    } catch (error: any) {
-      setFeedback({
-        status: "danger",
-        message: getErrorMessage(error) || "Error during wrap"
-      })
-      throw error
-    }
+      }
+    )
   }
 
   const unwrap = async (amount: string) => {
-    if (!web3Provider) throw new Error("No wallet connected")
-    try {
-      const unwrapAmount = ethers.parseUnits(amount, decimals)
-
-      setFeedback({ status: "primary", message: "Unwrap in progress..." })
-      const contract = new web3Provider.eth.Contract(
-        wrapperAbi,
-        WRAPPER_CONTRACT_ADDRESS
-      )
-
-      await contract.methods.withdraw(unwrapAmount).call({
-        from: address,
-        gas: "1500000"
-      })
-
-      const tx = await contract.methods.withdraw(unwrapAmount).send({
-        from: address,
-        gas: "1500000"
-      })
-
-      setFeedback({
-        status: "primary",
-        message: `Transaction sent, waiting for confirmation...`
-      })
-
-      const receipt = await web3Provider.eth.getTransactionReceipt(
-        tx.transactionHash
-      )
-
-      setFeedback({
-        status: "success",
-        message: (
+    if (!WRAPPER_CONTRACT_ADDRESS) {
+      throw new Error("No wrapper contract on this chain")
+    }
+    const unwrapAmount = ethers.parseUnits(amount, decimals)
+
+    return executor.execute(
+      {
+        ...contracts.wrapper,
+        address: WRAPPER_CONTRACT_ADDRESS,
+        functionName: "withdraw",
+        args: [unwrapAmount]
+      },
+      {
+        chainId,
+        invalidate,
+        activity: {
+          type: "unwrap",
+          title: `Unwrap ${amount} ${chainConfig?.wrappedToken ?? ""}`.trim(),
+          params: { amount }
+        },
+        messages: { simulating: "Unwrap in progress..." },
+        successMessage: (receipt) => (
           <>
             Successfully unwrapped{" "}
             <b>
               {amount} {chainConfig?.token}
             </b>{" "}
             !<br />
-            Transaction hash: <code>{tx.transactionHash}</code>
+            Transaction hash: <code>{receipt.transactionHash}</code>
           </>
         )
-      })
-
-      return receipt
-    } catch (error: any) {
-      setFeedback({
-        status: "danger",
-        message: getErrorMessage(error) || "Error during unwrap"
-      })
-      throw error
-    }
+      }
+    )
   }
 
   return {
     isWrappable,
     wrap,
     unwrap,
-    feedback,
-    resetFeedback,
+    status: executor.status,
+    feedback: executor.feedback,
+    resetFeedback: executor.reset,
     balance,
     wrappedBalance
   }
@@ -1,13 +1,42 @@
-export const getBestGasPrice = async (provider: any) => {
-  try {
-    const gasPrice = await provider.eth.getGasPrice()
-    const gasPriceBigInt = BigInt(gasPrice)
-    const tenPercent = (gasPriceBigInt * BigInt(10)) / BigInt(100)
-    const gasWithTenPercent = gasPriceBigInt + tenPercent
+import { FeeTiers } from "@/types/fee"
+import type Web3 from "web3"
+import {
+  FEE_HISTORY_BLOCKS,
+  FEE_TIER_PERCENTILES,
+  computeFeeTiers,
+  computeLegacyFeeTiers
+} from "@/utils/gas"
+
+// Margin added on top of every gas estimate, in percent
+export const GAS_LIMIT_BUFFER = 20
+
+/**
+ * Adds the safety margin to a gas estimate
+ * @param estimate The gas estimated by the node
+ * @returns The gas limit to send the transaction with
+ */
+export const withGasBuffer = (estimate: bigint) =>
+  (estimate * BigInt(100 + GAS_LIMIT_BUFFER)) / 100n
 
-    return gasWithTenPercent
+/**
+ * Estimates the fees of each gas price option on the chain of a provider,
+ * from eth_feeHistory when the chain has a base fee and from the legacy gas
+ * price otherwise
+ * @param provider A web3 provider of the chain
+ * @returns The fees of the low, average and fast options
+ */
+export const getFeeEstimates = async (provider: Web3): Promise<FeeTiers> => {
+  try {
+    const history = await provider.eth.getFeeHistory(
+      FEE_HISTORY_BLOCKS,
+      "latest",
+      Object.values(FEE_TIER_PERCENTILES)
+    )
+    const tiers = computeFeeTiers(history)
+    if (tiers) return tiers
   } catch (error) {
-    console.error("Erreur lors du calcul du prix du gas:", error)
-    throw error
+    console.warn("Fee history unavailable, using the legacy gas price", error)
   }
+
+  return computeLegacyFeeTiers(await provider.eth.getGasPrice())
 }
@@ -0,0 +1,262 @@
+import { createHash } from "node:crypto"
+import { faker } from "@faker-js/faker"
+
+export const HELIOS_CHAIN_ID = 42000
+export const HELIOS_TOKEN_ADDRESS = "0xD4949664cD82660AaE99bEdc034a0deA8A0bd517"
+export const GENESIS_TIMESTAMP = Date.UTC(2025, 0, 1) / 1000
+export const BLOCK_TIME = 5 // seconds
+const INITIAL_BLOCK_NUMBER = 1000
+
+const ONE = 10n ** 18n
+
+/**
+ * Formats a number as a 0x-prefixed quantity
+ * @param {number | bigint} value
+ */
+export const hex = (value) => "0x" + BigInt(value).toString(16)
+
+/**
+ * Derives a stable 32 bytes hash from a seed
+ * @param {string} seed
+ */
+export const hashOf = (seed) =>
+  "0x" + createHash("sha256").update(seed).digest("hex")
+
+/**
+ * Derives a stable address from a seed
+ * @param {string} seed
+ */
+export const addressOf = (seed) => hashOf(seed).slice(0, 42)
+
+/**
+ * Converts a decimal amount to its 18 decimals base unit string
+ * @param {number} amount
+ */
+export const toWei = (amount) =>
+  ((BigInt(Math.round(amount * 1e6)) * ONE) / 1_000_000n).toString()
+
+const tokenDefinitions = [
+  { symbol: "HLS", name: "Helios", denom: "ahelios", originChainId: 42000 },
+  { symbol: "WETH", name: "Wrapped Ether", denom: "weth", originChainId: 11155111 },
+  { symbol: "USDT", name: "Tether USD", denom: "usdt", originChainId: 11155111 },
+  { symbol: "BNB", name: "BNB", denom: "bnb", originChainId: 97 },
+  { symbol: "POL", name: "Polygon", denom: "pol", originChainId: 80002 },
+  { symbol: "AVAX", name: "Avalanche", denom: "avax", originChainId: 43113 }
+]
+
+const chainDefinitions = [
+  { chainId: 11155111, name: "Ethereum Sepolia", hyperionId: 11155111 },
+  { chainId: 97, name: "BSC Testnet", hyperionId: 97 },
+  { chainId: 80002, name: "Polygon Amoy", hyperionId: 80002 },
+  { chainId: 43113, name: "Avalanche Fuji", hyperionId: 43113 }
+]
+
+const createTokens = () =>
+  tokenDefinitions.map((definition) => {
+    const address =
+      definition.symbol === "HLS"
+        ? HELIOS_TOKEN_ADDRESS
+        : addressOf(`token:${definition.symbol}`)
+    return {
+      ...definition,
+      address,
+      metadata: {
+        description: `${definition.name} on Helios`,
+        denomUnits: [{ denom: definition.denom }],
+        base: definition.denom,
+        display: definition.symbol.toLowerCase(),
+        name: definition.name,
+        symbol: definition.symbol,
+        decimals: 18,
+        logo: "",
+        contract_address: address,
+        chainsMetadatas: [
+          {
+            chainId: HELIOS_CHAIN_ID,
+            symbol: definition.symbol,
+            decimals: 18,
+            contractAddress: address,
+            isOriginated: definition.originChainId === HELIOS_CHAIN_ID
+          },
+          ...(definition.originChainId === HELIOS_CHAIN_ID
+            ? []
+            : [
+                {
+                  chainId: definition.originChainId,
+                  symbol: definition.symbol,
+                  decimals: 18,
+                  contractAddress: addressOf(
+                    `token:${definition.symbol}:${definition.originChainId}`
+                  ),
+                  isOriginated: true
+                }
+              ])
+        ]
+      },
+      holdersCount: faker.number.int({ min: 50, max: 20_000 }),
+      totalSupply: toWei(faker.number.int({ min: 1e6, max: 1e9 }))
+    }
+  })
+
+const createChains = () =>
+  chainDefinitions.map((definition) => ({
+    hyperionContractAddress: addressOf(`hyperion:${definition.chainId}`),
+    chainId: definition.chainId,
+    name: definition.name,
+    chainType: "evm",
+    logo: "",
+    hyperionId: definition.hyperionId,
+    paused: false
+  }))
+
+const createValidators = (count) =>
+  Array.from({ length: count }, (_, index) => {
+    const moniker = faker.company.name()
+    const jailed = index >= count - 2
+    return {
+      apr: faker.number.float({ min: 4, max: 25, fractionDigits: 2 }).toString(),
+      commission: {
+        commission_rates: {
+          rate: faker.number
+            .float({ min: 0.01, max: 0.2, fractionDigits: 2 })
+            .toFixed(18),
+          max_rate: "0.200000000000000000",
+          max_change_rate: "0.010000000000000000"
+        },
+        update_time: new Date(GENESIS_TIMESTAMP * 1000).toISOString()
+      },
+      description: {
+        moniker,
+        details: faker.company.catchPhrase(),
+        website: faker.internet.url()
+      },
+      jailed,
+      minDelegation: "0",
+      minSelfDelegation: "1",
+      moniker,
+      shares: toWei(faker.number.int({ min: 10_000, max: 5_000_000 })),
+      status: jailed ? 1 : 3,
+      unbondingHeight: 0,
+      unbondingIds: null,
+      unbondingOnHoldRefCount: 0,
+      unbondingTime: new Date(0).toISOString(),
+      validatorAddress: addressOf(`validator:${index}`),
+      delegationAuthorization: true,
+      totalBoost: toWei(faker.number.int({ min: 0, max: 50_000 })),
+      boostPercentage: faker.number
+        .float({ min: 0, max: 10, fractionDigits: 2 })
+        .toString()
+    }
+  })
+
+const emptyTally = () => ({
+  yes_count: "0",
+  abstain_count: "0",
+  no_count: "0",
+  no_with_veto_count: "0"
+})
+
+const createProposals = (count, tokens) =>
+  Array.from({ length: count }, (_, index) => {
+    const id = index + 1
+    const voting = index >= count - 2
+    const passed = !voting && faker.datatype.boolean({ probability: 0.7 })
+    const submitTime = new Date(
+      (GENESIS_TIMESTAMP + index * 3 * 86_400) * 1000
+    )
+    const votingEndTime = voting
+      ? faker.date.soon({ days: 5, refDate: new Date() })
+      : new Date(submitTime.getTime() + 2 * 86_400_000)
+    const tally = {
+      yes_count: toWei(faker.number.int({ min: 1000, max: 900_000 })),
+      abstain_count: toWei(faker.number.int({ min: 0, max: 50_000 })),
+      no_count: toWei(faker.number.int({ min: 0, max: 300_000 })),
+      no_with_veto_count: toWei(faker.number.int({ min: 0, max: 20_000 }))
+    }
+    const token = faker.helpers.arrayElement(tokens)
+    return {
+      details: [
+        {
+          assets: [
+            {
+              denom: token.denom,
+              contract_address: token.address,
+              chain_id: String(token.originChainId)
+            }
+          ],
+          type: "/helios.erc20.v1.AddNewAssetConsensusProposal"
+        }
+      ],
+      finalTallyResult: voting ? emptyTally() : tally,
+      currentTallyResult: tally,
+      id,
+      metadata: "",
+      minDeposit: [{ denom: "ahelios", amount: toWei(1) }],
+      options: [
+        { option: 1, weight: "1" },
+        { option: 2, weight: "1" },
+        { option: 3, weight: "1" },
+        { option: 4, weight: "1" }
+      ],
+      proposer: addressOf(`proposer:${index % 3}`),
+      status: voting ? "VOTING_PERIOD" : passed ? "PASSED" : "REJECTED",
+      statusCode: voting ? 2 : passed ? 3 : 4,
+      submitTime: submitTime.toISOString(),
+      summary: faker.lorem.paragraph(),
+      title: `Whitelist ${token.symbol} ${faker.word.adjective()} update`,
+      totalDeposit: [{ denom: "ahelios", amount: toWei(1) }],
+      votingEndTime: votingEndTime.toISOString(),
+      votingStartTime: submitTime.toISOString()
+    }
+  })
+
+const createWhitelistedAssets = (tokens) =>
+  tokens.map((token, index) => ({
+    denom: token.denom,
+    baseWeight: index === 0 ? 100 : faker.number.int({ min: 10, max: 90 }),
+    chainId: String(token.originChainId),
+    decimals: 18,
+    metadata: token.name,
+    contractAddress: token.address,
+    totalShares: toWei(faker.number.int({ min: 10_000, max: 10_000_000 })),
+    networkPercentageSecurisation: `${faker.number.float({
+      min: 1,
+      max: 40,
+      fractionDigits: 2
+    })}%`
+  }))
+
+/**
+ * Builds the initial state of the mock node. The same seed always produces
+ * the same fixtures, so flows can be replayed deterministically.
+ * @param {{ seed?: number, validators?: number, proposals?: number }} options
+ */
+export const createFixtures = ({
+  seed = 42000,
+  validators = 12,
+  proposals = 8
+} = {}) => {
+  faker.seed(seed)
+
+  const tokens = createTokens()
+
+  return {
+    // Timestamp of block 0, so the initial blocks end now
+    genesisTime: Math.floor(Date.now() / 1000) - INITIAL_BLOCK_NUMBER * BLOCK_TIME,
+    blockNumber: INITIAL_BLOCK_NUMBER,
+    gasPrice: 10n ** 9n * 5n,
+    tokens,
+    chains: createChains(),
+    validators: createValidators(validators),
+    proposals: createProposals(proposals, tokens),
+    whitelistedAssets: createWhitelistedAssets(tokens),
+    // Per account state, keyed by lowercased address
+    balances: new Map(),
+    delegations: new Map(),
+    // Mined transactions, newest last
+    transactions: [],
+    // Transactions waiting for the next block
+    pendingTransactions: [],
+    bridgeTxs: []
+  }
+}
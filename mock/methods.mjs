@@ -0,0 +1,349 @@
+import {
+  HELIOS_CHAIN_ID,
+  HELIOS_TOKEN_ADDRESS,
+  addressOf,
+  hashOf,
+  hex
+} from "./fixtures.mjs"
+
+export const METHOD_NOT_FOUND = -32601
+export const INVALID_PARAMS = -32602
+export const EXECUTION_ERROR = -32000
+
+export class RpcMethodError extends Error {
+  constructor(code, message) {
+    super(message)
+    this.code = code
+  }
+}
+
+// Pages are 1-based and sent as hex quantities by the portal
+const paginate = (items, page, size) => {
+  const pageNumber = Number(page)
+  const pageSize = Number(size)
+  if (!(pageNumber >= 1) || !(pageSize >= 1)) {
+    throw new RpcMethodError(INVALID_PARAMS, "invalid page or size")
+  }
+  return items.slice((pageNumber - 1) * pageSize, pageNumber * pageSize)
+}
+
+const newestFirst = (items) => [...items].reverse()
+
+const formatUnits = (amount, decimals) => {
+  const value = BigInt(amount)
+  const unit = 10n ** BigInt(decimals)
+  const fraction = (value % unit).toString().padStart(decimals, "0")
+  return `${value / unit}.${fraction}`.replace(/\.?0+$/, "")
+}
+
+/**
+ * Creates the JSON-RPC handlers of the mock node
+ * @param {ReturnType<import("./state.mjs").createState>} store
+ */
+export const createMethods = (store) => {
+  const state = () => store.current
+  const { normalize } = store
+
+  const resolveBlockNumber = (tag) =>
+    tag === "latest" || tag === "pending" || tag === undefined
+      ? state().blockNumber
+      : tag === "earliest"
+      ? 0
+      : Number(tag)
+
+  const transactionsOf = (address) =>
+    state().transactions.filter(
+      ({ raw }) =>
+        normalize(raw.from) === normalize(address) ||
+        (raw.to && normalize(raw.to) === normalize(address))
+    )
+
+  const toTransactionLast = ({ raw, parsedInfo }) => ({
+    RawTransaction: raw,
+    ParsedInfo: parsedInfo
+  })
+
+  const toTokenDenom = (token) => ({
+    metadata: token.metadata,
+    holdersCount: token.holdersCount,
+    total_supply: token.totalSupply
+  })
+
+  const toDelegation = (delegation) => {
+    const assets = [...delegation.assets.entries()]
+      .filter(([, amount]) => amount > 0n)
+      .map(([tokenAddress, amount]) => {
+        const token = store.findToken(tokenAddress)
+        return {
+          denom: token.denom,
+          baseAmount: amount.toString(),
+          amount: amount.toString(),
+          weightedAmount: amount.toString(),
+          contractAddress: token.address
+        }
+      })
+    return {
+      validatorAddress: delegation.validatorAddress,
+      shares: assets
+        .reduce((sum, asset) => sum + BigInt(asset.amount), 0n)
+        .toString(),
+      assets,
+      rewards: {
+        denom: "ahelios",
+        amount: delegation.rewards.toString(),
+        contractAddress: HELIOS_TOKEN_ADDRESS
+      },
+      totalBoost: "0"
+    }
+  }
+
+  // Delegated amounts of every account on a validator, by token
+  const validatorAssets = (validatorAddress) => {
+    const totals = new Map()
+    state().delegations.forEach((delegations) => {
+      const delegation = delegations.get(normalize(validatorAddress))
+      delegation?.assets.forEach((amount, tokenAddress) =>
+        totals.set(tokenAddress, (totals.get(tokenAddress) ?? 0n) + amount)
+      )
+    })
+    return [...totals.entries()].map(([tokenAddress, amount]) => {
+      const token = store.findToken(tokenAddress)
+      return {
+        baseAmount: amount.toString(),
+        denom: token.denom,
+        weightedAmount: amount.toString(),
+        contractAddress: token.address
+      }
+    })
+  }
+
+  const getTransaction = (hash) =>
+    state().transactions.find(({ raw }) => raw.hash === hash)?.raw ?? null
+
+  return {
+    // Standard Ethereum methods, enough for wallets and receipt polling
+    eth_chainId: () => hex(HELIOS_CHAIN_ID),
+    net_version: () => String(HELIOS_CHAIN_ID),
+    web3_clientVersion: () => "helios-mock/1.0.0",
+    eth_blockNumber: () => hex(state().blockNumber),
+    eth_gasPrice: () => hex(state().gasPrice),
+    eth_maxPriorityFeePerGas: () => hex(state().gasPrice / 10n),
+    // Blocks use the gas price as base fee, tips grow with the percentile
+    eth_feeHistory: (blockCount, newestBlock, rewardPercentiles = []) => {
+      const newest = resolveBlockNumber(newestBlock)
+      const count = Math.min(Number(blockCount), Number(newest) + 1)
+      const { gasPrice } = state()
+      const blocks = Array.from({ length: count })
+      return {
+        oldestBlock: hex(BigInt(newest) - BigInt(count) + 1n),
+        baseFeePerGas: [...blocks, null].map(() => hex(gasPrice)),
+        gasUsedRatio: blocks.map(() => 0.5),
+        reward: blocks.map(() =>
+          rewardPercentiles.map((percentile) =>
+            hex((gasPrice * BigInt(Math.round(percentile))) / 1000n)
+          )
+        )
+      }
+    },
+    eth_getBalance: (address) =>
+      hex(store.getBalances(address).get(normalize(HELIOS_TOKEN_ADDRESS)) ?? 0n),
+    eth_getBlockByNumber: (tag, full = false) =>
+      store.getBlock(resolveBlockNumber(tag), full),
+    eth_getTransactionByHash: (hash) => getTransaction(hash),
+    eth_getTransactionReceipt: (hash) => {
+      const tx = getTransaction(hash)
+      if (!tx) return null
+      return {
+        blockHash: tx.blockHash,
+        blockNumber: tx.blockNumber,
+        contractAddress: null,
+        cumulativeGasUsed: hex(21_000),
+        effectiveGasPrice: tx.gasPrice,
+        from: tx.from,
+        gasUsed: hex(21_000),
+        logs: [],
+        logsBloom: "0x" + "0".repeat(512),
+        status: "0x1",
+        to: tx.to,
+        transactionHash: tx.hash,
+        transactionIndex: tx.transactionIndex,
+        type: tx.type
+      }
+    },
+
+    // Helios methods used by helpers/rpc-calls.ts
+    eth_getTokenBalance: (address, tokenAddress) =>
+      hex(store.getBalances(address).get(normalize(tokenAddress)) ?? 0n),
+    eth_getAccountTokensBalanceByPageAndSize: (address, page, size) => {
+      const balances = [...store.getBalances(address).entries()]
+        .filter(([, balance]) => balance > 0n)
+        .map(([tokenAddress, balance]) => {
+          const token = store.findToken(tokenAddress)
+          return {
+            address: token.address,
+            balance: balance.toString(),
+            balanceUI: formatUnits(balance, token.metadata.decimals),
+            decimals: token.metadata.decimals,
+            denom: token.denom,
+            description: token.metadata.description,
+            symbol: token.symbol
+          }
+        })
+      return {
+        Balances: paginate(balances, page, size),
+        TotalCount: balances.length
+      }
+    },
+    eth_getTokenDetails: (tokenAddress) =>
+      toTokenDenom(store.findToken(tokenAddress)),
+    eth_getBlocksByPageAndSize: (page, size, full = true) =>
+      paginate(
+        Array.from({ length: state().blockNumber + 1 }, (_, index) => index),
+        page,
+        size
+      ).map((offset) => store.getBlock(state().blockNumber - offset, full)),
+    eth_getCosmosAddress: (address) =>
+      `helios1${hashOf(`cosmos:${normalize(address)}`).slice(2, 40)}`,
+    eth_getCosmosValoperAddress: (address) =>
+      `heliosvaloper1${hashOf(`valoper:${normalize(address)}`).slice(2, 40)}`,
+    eth_getDelegation: (delegatorAddress, validatorAddress) => {
+      const delegation = store
+        .getDelegations(delegatorAddress)
+        .get(normalize(validatorAddress))
+      return delegation ? toDelegation(delegation) : null
+    },
+    eth_getDelegations: (delegatorAddress) =>
+      [...store.getDelegations(delegatorAddress).values()]
+        .map(toDelegation)
+        .filter((delegation) => delegation.assets.length > 0),
+    eth_getProposal: (proposalId) => store.findProposal(proposalId),
+    eth_getProposalsByPageAndSize: (page, size) =>
+      paginate(newestFirst(state().proposals), page, size),
+    eth_getProposalsCount: () => hex(state().proposals.length),
+    eth_getTokensByPageAndSize: (page, size) =>
+      paginate(
+        state().tokens.map((token) => ({
+          address: token.address,
+          enabled: true,
+          owner: token.originChainId === HELIOS_CHAIN_ID ? 1 : 2,
+          symbol: token.symbol
+        })),
+        page,
+        size
+      ),
+    eth_getAccountTransactionsByPageAndSize: (address, page, size) =>
+      paginate(
+        newestFirst(transactionsOf(address)).map(({ raw }) => raw),
+        page,
+        size
+      ),
+    eth_getTransactionsByPageAndSize: (page, size) =>
+      paginate(
+        newestFirst(state().transactions).map(({ raw }) => raw),
+        page,
+        size
+      ),
+    eth_listTransactions: (page, size) =>
+      paginate(
+        newestFirst(state().transactions).map(({ raw }) => raw),
+        page,
+        size
+      ),
+    eth_getValidatorsByPageAndSize: (page, size) =>
+      paginate(state().validators, page, size),
+    eth_getActiveValidatorCount: () =>
+      state().validators.filter((validator) => !validator.jailed).length,
+    eth_getAllWhitelistedAssets: () => state().whitelistedAssets,
+    eth_getHyperionChains: () => state().chains,
+    eth_getTokensByChainIdAndPageAndSize: (chainId, page, size) =>
+      paginate(
+        state()
+          .tokens.filter((token) =>
+            token.metadata.chainsMetadatas.some(
+              (metadata) => metadata.chainId === Number(chainId)
+            )
+          )
+          .map(toTokenDenom),
+        page,
+        size
+      ),
+    eth_getHyperionAccountTransferTxsByPageAndSize: (address, page, size) =>
+      paginate(
+        newestFirst(state().bridgeTxs).filter(
+          (tx) =>
+            normalize(tx.sender) === normalize(address) ||
+            normalize(tx.destAddress) === normalize(address)
+        ),
+        page,
+        size
+      ),
+    eth_getAllHyperionTransferTxs: (size = "0xa") =>
+      newestFirst(state().bridgeTxs).slice(0, Number(size)),
+    eth_getValidator: (address) => store.findValidator(address),
+    eth_getValidatorWithHisDelegationAndCommission: (address) => {
+      const validator = store.findValidator(address)
+      const selfDelegation = store
+        .getDelegations(validator.validatorAddress)
+        .get(normalize(validator.validatorAddress))
+      const delegation = selfDelegation
+        ? toDelegation(selfDelegation)
+        : {
+            validatorAddress: validator.validatorAddress,
+            shares: "0",
+            assets: [],
+            rewards: { denom: "ahelios", amount: "0" }
+          }
+      return {
+        validator,
+        delegation: {
+          ...delegation,
+          assets: delegation.assets.map((asset) => ({ ...asset, price: 0 }))
+        },
+        commission: { denom: "ahelios", amount: "0" }
+      }
+    },
+    eth_getValidatorWithHisAssetsAndCommission: (address) => {
+      const validator = store.findValidator(address)
+      return {
+        validator,
+        assets: validatorAssets(validator.validatorAddress),
+        commission: { denom: "ahelios", amount: "0" }
+      }
+    },
+    eth_getLastTransactionsInfo: (size = "0xa") =>
+      newestFirst(state().transactions)
+        .slice(0, Number(size))
+        .map(toTransactionLast),
+    eth_getAccountLastTransactionsInfo: (address) =>
+      newestFirst(transactionsOf(address)).slice(0, 10).map(toTransactionLast),
+    eth_getValidatorHyperionData: (address) => ({
+      orchestrator: addressOf(`orchestrator:${normalize(address)}`),
+      orchestrator_hyperion_data: state().chains.map((chain) => ({
+        hyperion_id: chain.hyperionId,
+        minimum_tx_fee: "1000000000000000",
+        minimum_batch_fee: "5000000000000000",
+        total_slash_amount: "0",
+        tx_out_transfered: 0,
+        tx_in_transfered: 0,
+        batch_created: 0,
+        batch_confirmed: 0,
+        fee_collected: "0",
+        external_data_tx_fee_collected: "0"
+      }))
+    }),
+
+    // Control methods to script the mock state, each takes one params object
+    mock_delegate: (params) => store.actions.delegate(params),
+    mock_undelegate: (params) => store.actions.undelegate(params),
+    mock_accrueRewards: (params) => store.actions.accrueRewards(params),
+    mock_createProposal: (params) => store.actions.createProposal(params),
+    mock_vote: (params) => store.actions.vote(params),
+    mock_endProposal: (params) => store.actions.endProposal(params),
+    mock_bridge: (params) => store.actions.bridge(params),
+    mock_setBridgeStatus: (params) => store.actions.setBridgeStatus(params),
+    mock_fund: (params) => store.actions.fund(params),
+    mock_setGasPrice: (params) => store.actions.setGasPrice(params),
+    mock_mineBlock: () => hex(store.actions.mineBlock()),
+    mock_reset: (params) => store.actions.reset(params)
+  }
+}
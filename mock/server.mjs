@@ -0,0 +1,171 @@
+// Local mock of the Helios JSON-RPC node, for offline development and demos.
+//
+//   npm run mock -- --port 8545 --seed 42000 --block-time 5 --scenario mock/scenarios/demo.json
+//
+// With --fixtures, the calls recorded from the settings modal are answered
+// with their recorded responses, the other calls with the mock state.
+//
+// Point the portal at it with the RPC URL setting (debug mode) or with
+// NEXT_PUBLIC_RPC_URLS=http://localhost:8545
+import { readFileSync } from "node:fs"
+import { createServer } from "node:http"
+import { parseArgs } from "node:util"
+import {
+  EXECUTION_ERROR,
+  INVALID_PARAMS,
+  METHOD_NOT_FOUND,
+  RpcMethodError,
+  createMethods
+} from "./methods.mjs"
+import { createState } from "./state.mjs"
+
+const PARSE_ERROR = -32700
+const INVALID_REQUEST = -32600
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: "string", default: process.env.MOCK_RPC_PORT ?? "8545" },
+    seed: { type: "string", default: process.env.MOCK_RPC_SEED ?? "42000" },
+    "block-time": {
+      type: "string",
+      default: process.env.MOCK_RPC_BLOCK_TIME ?? "5"
+    },
+    scenario: { type: "string", default: process.env.MOCK_RPC_SCENARIO },
+    fixtures: { type: "string", default: process.env.MOCK_RPC_FIXTURES },
+    quiet: { type: "boolean", default: false }
+  }
+})
+
+const store = createState({ seed: Number(args.seed) })
+const methods = createMethods(store)
+
+const log = (...messages) => {
+  if (!args.quiet) console.log(...messages)
+}
+
+// Recorded responses by call, served in order and the last one repeated
+const recordedResponses = new Map()
+const recordedCursors = new Map()
+
+const loadFixtures = (file) => {
+  const { entries } = JSON.parse(readFileSync(file, "utf8"))
+  for (const entry of entries) {
+    const key = `${entry.method}|${JSON.stringify(entry.params)}`
+    recordedResponses.set(key, [...(recordedResponses.get(key) ?? []), entry])
+  }
+  log(`Fixtures ${file} loaded (${entries.length} recorded calls)`)
+}
+
+const findRecorded = (method, params) => {
+  const key = `${method}|${JSON.stringify(params)}`
+  const entries = recordedResponses.get(key)
+  if (!entries) return null
+  const cursor = recordedCursors.get(key) ?? 0
+  recordedCursors.set(key, cursor + 1)
+  return entries[Math.min(cursor, entries.length - 1)]
+}
+
+const errorResponse = (id, code, message) => ({
+  jsonrpc: "2.0",
+  id: id ?? null,
+  error: { code, message }
+})
+
+const handleCall = (call) => {
+  if (!call || typeof call !== "object" || typeof call.method !== "string") {
+    return errorResponse(call?.id, INVALID_REQUEST, "invalid request")
+  }
+
+  const { id, method, params = [] } = call
+
+  const recorded = findRecorded(method, params)
+  if (recorded) {
+    log(`↺ ${method}`, params.length ? JSON.stringify(params) : "")
+    return recorded.error
+      ? errorResponse(id, recorded.error.code, recorded.error.message)
+      : { jsonrpc: "2.0", id, result: recorded.result ?? null }
+  }
+
+  const handler = methods[method]
+  if (!handler) {
+    log(`✗ ${method} (not implemented)`)
+    return errorResponse(
+      id,
+      METHOD_NOT_FOUND,
+      `the method ${method} does not exist/is not available`
+    )
+  }
+  if (!Array.isArray(params)) {
+    return errorResponse(id, INVALID_PARAMS, "params must be an array")
+  }
+
+  try {
+    const result = handler(...params)
+    log(`→ ${method}`, params.length ? JSON.stringify(params) : "")
+    return { jsonrpc: "2.0", id, result: result ?? null }
+  } catch (error) {
+    const code = error instanceof RpcMethodError ? error.code : EXECUTION_ERROR
+    log(`✗ ${method}: ${error.message}`)
+    return errorResponse(id, code, error.message)
+  }
+}
+
+const runScenario = (file) => {
+  const steps = JSON.parse(readFileSync(file, "utf8"))
+  for (const step of steps) {
+    const response = handleCall({ id: 0, params: [], ...step })
+    if (response.error) {
+      throw new Error(`Scenario step ${step.method} failed: ${response.error.message}`)
+    }
+  }
+  store.mineBlock()
+  log(`Scenario ${file} applied (${steps.length} steps)`)
+}
+
+const server = createServer((req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type")
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204).end()
+    return
+  }
+  if (req.method !== "POST") {
+    res.writeHead(405).end()
+    return
+  }
+
+  let body = ""
+  req.on("data", (chunk) => (body += chunk))
+  req.on("end", () => {
+    let payload
+    try {
+      payload = JSON.parse(body)
+    } catch {
+      payload = undefined
+    }
+
+    const response =
+      payload === undefined
+        ? errorResponse(null, PARSE_ERROR, "parse error")
+        : Array.isArray(payload)
+        ? payload.map(handleCall)
+        : handleCall(payload)
+
+    res.writeHead(200, { "Content-Type": "application/json" })
+    res.end(JSON.stringify(response))
+  })
+})
+
+if (args.fixtures) loadFixtures(args.fixtures)
+if (args.scenario) runScenario(args.scenario)
+
+const blockTime = Number(args["block-time"])
+if (blockTime > 0) {
+  setInterval(() => store.mineBlock(), blockTime * 1000).unref()
+}
+
+server.listen(Number(args.port), () => {
+  console.log(`Helios mock RPC listening on http://localhost:${args.port}`)
+})
@@ -0,0 +1,426 @@
+import {
+  BLOCK_TIME,
+  HELIOS_CHAIN_ID,
+  HELIOS_TOKEN_ADDRESS,
+  addressOf,
+  createFixtures,
+  hashOf,
+  hex,
+  toWei
+} from "./fixtures.mjs"
+
+// Contracts the portal sends its transactions to
+const STAKING_CONTRACT_ADDRESS = "0x0000000000000000000000000000000000000800"
+const GOVERNANCE_CONTRACT_ADDRESS = "0x0000000000000000000000000000000000000805"
+const BRIDGE_CONTRACT_ADDRESS = "0x0000000000000000000000000000000000000900"
+
+// Balance given to an account the first time it is seen
+const STARTING_BALANCE = 1000
+
+const VOTE_OPTIONS = {
+  yes: "yes_count",
+  abstain: "abstain_count",
+  no: "no_count",
+  veto: "no_with_veto_count"
+}
+
+export const createState = (options) => {
+  let state = createFixtures(options)
+
+  const normalize = (address) => String(address).toLowerCase()
+
+  const findToken = (tokenAddress = HELIOS_TOKEN_ADDRESS) => {
+    const token = state.tokens.find(
+      (token) => normalize(token.address) === normalize(tokenAddress)
+    )
+    if (!token) throw new Error(`Unknown token ${tokenAddress}`)
+    return token
+  }
+
+  const findValidator = (validatorAddress) => {
+    const validator = state.validators.find(
+      (validator) =>
+        normalize(validator.validatorAddress) === normalize(validatorAddress)
+    )
+    if (!validator) throw new Error(`Unknown validator ${validatorAddress}`)
+    return validator
+  }
+
+  const findProposal = (proposalId) => {
+    const proposal = state.proposals.find(
+      (proposal) => proposal.id === Number(proposalId)
+    )
+    if (!proposal) throw new Error(`Unknown proposal ${proposalId}`)
+    return proposal
+  }
+
+  // Balances of an account by token address, in base units
+  const getBalances = (address) => {
+    const key = normalize(address)
+    if (!state.balances.has(key)) {
+      state.balances.set(
+        key,
+        new Map([[normalize(HELIOS_TOKEN_ADDRESS), BigInt(toWei(STARTING_BALANCE))]])
+      )
+    }
+    return state.balances.get(key)
+  }
+
+  const credit = (address, tokenAddress, amount) => {
+    const balances = getBalances(address)
+    const key = normalize(tokenAddress)
+    balances.set(key, (balances.get(key) ?? 0n) + BigInt(amount))
+  }
+
+  const debit = (address, tokenAddress, amount) => {
+    const balances = getBalances(address)
+    const key = normalize(tokenAddress)
+    const balance = balances.get(key) ?? 0n
+    if (balance < BigInt(amount)) {
+      throw new Error("insufficient funds for gas * price + value")
+    }
+    balances.set(key, balance - BigInt(amount))
+  }
+
+  const getDelegations = (address) => {
+    const key = normalize(address)
+    if (!state.delegations.has(key)) state.delegations.set(key, new Map())
+    return state.delegations.get(key)
+  }
+
+  const blockTimestamp = (number) => state.genesisTime + number * BLOCK_TIME
+
+  // Queues a transaction for the next block, with its parsed portal info
+  const addTransaction = ({ from, to, value = "0", parsedInfo }) => {
+    const nonce = state.transactions.filter(
+      ({ raw }) => normalize(raw.from) === normalize(from)
+    ).length
+    const hash = hashOf(`tx:${from}:${nonce}:${state.pendingTransactions.length}`)
+    const raw = {
+      blockHash: "",
+      blockNumber: "",
+      from,
+      gas: hex(300_000),
+      gasPrice: hex(state.gasPrice),
+      hash,
+      input: "0x",
+      nonce: hex(nonce),
+      to,
+      transactionIndex: "0x0",
+      value: hex(BigInt(value)),
+      type: "0x0",
+      chainId: hex(HELIOS_CHAIN_ID),
+      v: "0x0",
+      r: hashOf(`r:${hash}`),
+      s: hashOf(`s:${hash}`)
+    }
+    state.pendingTransactions.push({ raw, parsedInfo })
+    return hash
+  }
+
+  /**
+   * Produces a new block including every pending transaction
+   * @returns The new block number
+   */
+  const mineBlock = () => {
+    const number = ++state.blockNumber
+    const blockHash = hashOf(`block:${number}`)
+    state.pendingTransactions.forEach(({ raw, parsedInfo }, index) => {
+      state.transactions.push({
+        raw: {
+          ...raw,
+          blockHash,
+          blockNumber: hex(number),
+          transactionIndex: hex(index)
+        },
+        parsedInfo
+      })
+    })
+    state.pendingTransactions = []
+    return number
+  }
+
+  /**
+   * Builds a block, with the hashes or the full objects of its transactions
+   * @param {number} number
+   * @param {boolean} full
+   */
+  const getBlock = (number, full = false) => {
+    if (number < 0 || number > state.blockNumber) return null
+    const transactions = state.transactions
+      .filter(({ raw }) => Number(raw.blockNumber) === number)
+      .map(({ raw }) => (full ? raw : raw.hash))
+    return {
+      baseFeePerGas: hex(state.gasPrice),
+      difficulty: "0x0",
+      extraData: "0x",
+      gasLimit: hex(30_000_000),
+      gasUsed: hex(transactions.length * 21_000),
+      hash: hashOf(`block:${number}`),
+      logsBloom: "0x" + "0".repeat(512),
+      miner: state.validators[number % state.validators.length].validatorAddress,
+      mixHash: "0x" + "0".repeat(64),
+      nonce: "0x0000000000000000",
+      number: hex(number),
+      parentHash: hashOf(`block:${number - 1}`),
+      receiptsRoot: hashOf(`receipts:${number}`),
+      sha3Uncles: hashOf(`uncles:${number}`),
+      size: hex(1000 + transactions.length * 200),
+      stateRoot: hashOf(`state:${number}`),
+      timestamp: hex(blockTimestamp(number)),
+      totalDifficulty: "0x0",
+      transactions,
+      transactionsRoot: hashOf(`transactions:${number}`),
+      uncles: []
+    }
+  }
+
+  // Scripted actions, reachable through the mock_* methods
+
+  const delegate = ({ from, validatorAddress, amount, tokenAddress }) => {
+    const validator = findValidator(validatorAddress)
+    const token = findToken(tokenAddress)
+    debit(from, token.address, amount)
+
+    const delegations = getDelegations(from)
+    const key = normalize(validator.validatorAddress)
+    const delegation = delegations.get(key) ?? {
+      validatorAddress: validator.validatorAddress,
+      assets: new Map(),
+      rewards: 0n
+    }
+    const assetKey = normalize(token.address)
+    delegation.assets.set(
+      assetKey,
+      (delegation.assets.get(assetKey) ?? 0n) + BigInt(amount)
+    )
+    delegations.set(key, delegation)
+    validator.shares = (BigInt(validator.shares) + BigInt(amount)).toString()
+
+    return addTransaction({
+      from,
+      to: STAKING_CONTRACT_ADDRESS,
+      parsedInfo: {
+        type: "STAKE_IN",
+        amount: String(amount),
+        denom: token.denom,
+        contractAddress: token.address
+      }
+    })
+  }
+
+  const undelegate = ({ from, validatorAddress, amount, tokenAddress }) => {
+    const validator = findValidator(validatorAddress)
+    const token = findToken(tokenAddress)
+    const delegation = getDelegations(from).get(
+      normalize(validator.validatorAddress)
+    )
+    const assetKey = normalize(token.address)
+    const delegated = delegation?.assets.get(assetKey) ?? 0n
+    if (delegated < BigInt(amount)) {
+      throw new Error("invalid shares amount: insufficient delegation")
+    }
+
+    delegation.assets.set(assetKey, delegated - BigInt(amount))
+    credit(from, token.address, amount)
+    validator.shares = (BigInt(validator.shares) - BigInt(amount)).toString()
+
+    return addTransaction({
+      from,
+      to: STAKING_CONTRACT_ADDRESS,
+      parsedInfo: {
+        type: "STAKE_OUT",
+        amount: String(amount),
+        denom: token.denom,
+        contractAddress: token.address
+      }
+    })
+  }
+
+  const accrueRewards = ({ amount = toWei(1) } = {}) => {
+    state.delegations.forEach((delegations) =>
+      delegations.forEach(
+        (delegation) => (delegation.rewards += BigInt(amount))
+      )
+    )
+    return true
+  }
+
+  const createProposal = ({ from, title, summary = "", deposit = toWei(1) }) => {
+    debit(from, HELIOS_TOKEN_ADDRESS, deposit)
+    const now = new Date(blockTimestamp(state.blockNumber) * 1000)
+    const tally = {
+      yes_count: "0",
+      abstain_count: "0",
+      no_count: "0",
+      no_with_veto_count: "0"
+    }
+    const proposal = {
+      details: [],
+      finalTallyResult: { ...tally },
+      currentTallyResult: tally,
+      id: state.proposals.length + 1,
+      metadata: "",
+      minDeposit: [{ denom: "ahelios", amount: toWei(1) }],
+      options: [],
+      proposer: from,
+      status: "VOTING_PERIOD",
+      statusCode: 2,
+      submitTime: now.toISOString(),
+      summary,
+      title,
+      totalDeposit: [{ denom: "ahelios", amount: String(deposit) }],
+      votingEndTime: new Date(now.getTime() + 2 * 86_400_000).toISOString(),
+      votingStartTime: now.toISOString()
+    }
+    state.proposals.push(proposal)
+
+    addTransaction({
+      from,
+      to: GOVERNANCE_CONTRACT_ADDRESS,
+      value: deposit,
+      parsedInfo: {
+        type: "UNKNOWN",
+        amount: String(deposit),
+        denom: "ahelios",
+        contractAddress: HELIOS_TOKEN_ADDRESS
+      }
+    })
+    return proposal.id
+  }
+
+  const vote = ({ from, proposalId, option = "yes", weight = toWei(1) }) => {
+    const proposal = findProposal(proposalId)
+    if (proposal.status !== "VOTING_PERIOD") {
+      throw new Error(`proposal ${proposalId} is not in voting period`)
+    }
+    const field = VOTE_OPTIONS[option]
+    if (!field) throw new Error(`Unknown vote option ${option}`)
+
+    proposal.currentTallyResult[field] = (
+      BigInt(proposal.currentTallyResult[field]) + BigInt(weight)
+    ).toString()
+
+    return addTransaction({
+      from,
+      to: GOVERNANCE_CONTRACT_ADDRESS,
+      parsedInfo: { type: "GOV_VOTE" }
+    })
+  }
+
+  const endProposal = ({ proposalId }) => {
+    const proposal = findProposal(proposalId)
+    const tally = proposal.currentTallyResult
+    const passed = BigInt(tally.yes_count) > BigInt(tally.no_count)
+    proposal.finalTallyResult = { ...tally }
+    proposal.status = passed ? "PASSED" : "REJECTED"
+    proposal.statusCode = passed ? 3 : 4
+    proposal.votingEndTime = new Date(
+      blockTimestamp(state.blockNumber) * 1000
+    ).toISOString()
+    return proposal.status
+  }
+
+  const bridge = ({
+    from,
+    chainId,
+    direction = "OUT",
+    amount,
+    tokenAddress,
+    destAddress = from,
+    fee = "0",
+    status = "PENDING"
+  }) => {
+    const chain = state.chains.find((chain) => chain.chainId === Number(chainId))
+    if (!chain) throw new Error(`Unknown chain ${chainId}`)
+    const token = findToken(tokenAddress)
+
+    if (direction === "OUT") {
+      debit(from, token.address, BigInt(amount) + BigInt(fee))
+    } else {
+      credit(destAddress, token.address, amount)
+    }
+
+    const id = state.bridgeTxs.length + 1
+    const txHash = addTransaction({
+      from,
+      to: BRIDGE_CONTRACT_ADDRESS,
+      parsedInfo: {
+        type: direction === "OUT" ? "BRIDGE_OUT" : "BRIDGE_IN",
+        amount: String(amount),
+        denom: token.denom,
+        contractAddress: token.address
+      }
+    })
+    state.bridgeTxs.push({
+      hyperionId: chain.hyperionId,
+      id,
+      height: state.blockNumber + 1,
+      sender: from,
+      destAddress,
+      receivedToken: { contract: token.address, amount: String(amount) },
+      sentToken: { contract: token.address, amount: String(amount) },
+      receivedFee: { amount: String(fee) },
+      sentFee: { amount: String(fee) },
+      status,
+      direction,
+      chainId: chain.chainId,
+      proof: {
+        orchestrators: addressOf(`orchestrator:${chain.chainId}`),
+        hashs: hashOf(`proof:${id}`)
+      },
+      txHash
+    })
+    return id
+  }
+
+  const setBridgeStatus = ({ id, status }) => {
+    const tx = state.bridgeTxs.find((tx) => tx.id === Number(id))
+    if (!tx) throw new Error(`Unknown bridge transfer ${id}`)
+    tx.status = status
+    return status
+  }
+
+  const fund = ({ address, amount, tokenAddress }) => {
+    credit(address, findToken(tokenAddress).address, amount)
+    return true
+  }
+
+  const setGasPrice = ({ gasPrice }) => {
+    state.gasPrice = BigInt(gasPrice)
+    return hex(state.gasPrice)
+  }
+
+  const reset = (nextOptions = options) => {
+    state = createFixtures(nextOptions)
+    return true
+  }
+
+  return {
+    get current() {
+      return state
+    },
+    normalize,
+    findToken,
+    findValidator,
+    findProposal,
+    getBalances,
+    getDelegations,
+    getBlock,
+    mineBlock,
+    actions: {
+      delegate,
+      undelegate,
+      accrueRewards,
+      createProposal,
+      vote,
+      endProposal,
+      bridge,
+      setBridgeStatus,
+      fund,
+      setGasPrice,
+      mineBlock,
+      reset
+    }
+  }
+}
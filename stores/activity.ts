@@ -0,0 +1,153 @@
+import { QueryKey } from "@tanstack/react-query"
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+
+export type ActivityType =
+  | "delegate"
+  | "undelegate"
+  | "claim-rewards"
+  | "vote"
+  | "create-proposal"
+  | "approve"
+  | "bridge-out"
+  | "bridge-in"
+  | "wrap"
+  | "unwrap"
+  | "create-token"
+  | "contract-call"
+
+export type ActivityStatus =
+  | "pending"
+  | "confirmed"
+  | "failed"
+  | "dropped"
+  | "replaced"
+  | "cancelled"
+  | "timeout"
+
+// A transaction sent for the nonce of an activity, the first one or one
+// speeding it up or cancelling it from the activity center
+export interface ActivityAttempt {
+  hash: string
+  kind: "original" | "speed-up" | "cancel"
+  gasPrice: string
+  createdAt: number
+}
+
+export interface Activity {
+  hash: string
+  type: ActivityType
+  title: string
+  // Human readable parameters of the call, shown in the activity drawer
+  params: Record<string, string>
+  from: string
+  chainId: number
+  status: ActivityStatus
+  explorerUrl: string | null
+  createdAt: number
+  updatedAt: number
+  blockNumber?: string
+  error?: string
+  // Transaction that replaced this one, when sped up or cancelled
+  replacedBy?: string
+  // Every transaction sent for this nonce, the mined one ends up in `hash`
+  attempts?: ActivityAttempt[]
+  // Queries to refresh once it settles, also when tracking resumes later
+  invalidate?: QueryKey[]
+}
+
+// Number of activities kept per account and chain
+const MAX_ACTIVITIES = 50
+
+/**
+ * Gets the key activities are stored under
+ * @param address The account that sent the transactions
+ * @param chainId The chain they were sent on
+ */
+export const activityKey = (address: string, chainId: number) =>
+  `${address.toLowerCase()}:${chainId}`
+
+interface ActivityStore {
+  activities: Record<string, Activity[]>
+  addActivity: (activity: Activity) => void
+  updateActivity: (hash: string, patch: Partial<Activity>) => void
+  clearActivities: (address: string) => void
+}
+
+export const useActivityStore = create<ActivityStore>()(
+  persist(
+    (set) => ({
+      activities: {},
+      addActivity: (activity) =>
+        set((state) => {
+          const key = activityKey(activity.from, activity.chainId)
+          const list = (state.activities[key] ?? []).filter(
+            (item) => item.hash !== activity.hash
+          )
+          return {
+            activities: {
+              ...state.activities,
+              [key]: [activity, ...list].slice(0, MAX_ACTIVITIES)
+            }
+          }
+        }),
+      updateActivity: (hash, patch) =>
+        set((state) => {
+          const activities = { ...state.activities }
+          for (const [key, list] of Object.entries(activities)) {
+            if (!list.some((item) => item.hash === hash)) continue
+            activities[key] = list.map((item) =>
+              item.hash === hash
+                ? { ...item, ...patch, updatedAt: Date.now() }
+                : item
+            )
+          }
+          return { activities }
+        }),
+      clearActivities: (address) =>
+        set((state) => ({
+          activities: Object.fromEntries(
+            Object.entries(state.activities).filter(
+              ([key]) => !key.startsWith(`${address.toLowerCase()}:`)
+            )
+          )
+        }))
+    }),
+    { name: "helios-activity" }
+  )
+)
+
+/**
+ * Gets every activity of an account, on all chains, newest first
+ * @param activities The stored activities
+ * @param address The account
+ */
+export const selectAccountActivities = (
+  activities: Record<string, Activity[]>,
+  address?: string
+): Activity[] => {
+  if (!address) return []
+  const prefix = `${address.toLowerCase()}:`
+  return Object.entries(activities)
+    .filter(([key]) => key.startsWith(prefix))
+    .flatMap(([, list]) => list)
+    .sort((a, b) => b.createdAt - a.createdAt)
+}
+
+/**
+ * Gets the activity a transaction belongs to, under its current hash or as
+ * one of its speed-up and cancellation attempts
+ * @param activities The stored activities
+ * @param hash The transaction hash
+ */
+export const selectActivity = (
+  activities: Record<string, Activity[]>,
+  hash: string
+): Activity | undefined =>
+  Object.values(activities)
+    .flat()
+    .find(
+      (activity) =>
+        activity.hash === hash ||
+        activity.attempts?.some((attempt) => attempt.hash === hash)
+    )
@@ -0,0 +1,54 @@
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+
+export interface AddressBookEntry {
+  address: string
+  label: string
+  // HyperionChain.chainType the address is valid for
+  chainType: string
+  createdAt: number
+}
+
+interface AddressBookStore {
+  entries: AddressBookEntry[]
+  saveEntry: (entry: Omit<AddressBookEntry, "createdAt">) => void
+  removeEntry: (address: string) => void
+}
+
+const sameAddress = (a: string, b: string) =>
+  a.toLowerCase() === b.toLowerCase()
+
+/**
+ * Finds the entry of an address
+ * @param entries The address book
+ * @param address The address
+ */
+export const findAddressBookEntry = (
+  entries: AddressBookEntry[],
+  address: string
+) => entries.find((entry) => sameAddress(entry.address, address)) ?? null
+
+export const useAddressBookStore = create<AddressBookStore>()(
+  persist(
+    (set) => ({
+      entries: [],
+      // Saving a known address renames it
+      saveEntry: (entry) =>
+        set((state) => ({
+          entries: [
+            ...state.entries.filter(
+              (item) => !sameAddress(item.address, entry.address)
+            ),
+            { ...entry, createdAt: Date.now() }
+          ]
+        })),
+      removeEntry: (address) =>
+        set((state) => ({
+          entries: state.entries.filter(
+            (item) => !sameAddress(item.address, address)
+          )
+        }))
+    }),
+    { name: "helios-address-book" }
+  )
+)
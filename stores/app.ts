@@ -10,6 +10,16 @@ export const GAS_PRICE_MULTIPLIERS = {
   fast: 1.5 // 150% of the network gas price
 }
 
+// Gas settings of one network, replacing the global ones where set
+export interface GasPolicyOverride {
+  option?: GasPriceOption
+  // Highest max fee per gas accepted on the network, in Gwei
+  maxFeeCap?: string
+}
+
+// How much the bridge approves when its allowance is too low
+export type ApprovalMode = "exact" | "unlimited"
+
 interface AppStore {
   nav: boolean
   setNav: (nav: boolean) => void
@@ -21,6 +31,13 @@ interface AppStore {
   setRpcUrl: (rpcUrl: string) => void
   gasPriceOption: GasPriceOption
   setGasPriceOption: (option: GasPriceOption) => void
+  // Highest max fee per gas accepted, in Gwei, no cap when empty
+  maxFeeCap: string
+  setMaxFeeCap: (maxFeeCap: string) => void
+  gasPolicyOverrides: Record<number, GasPolicyOverride>
+  setGasPolicyOverrides: (overrides: Record<number, GasPolicyOverride>) => void
+  approvalMode: ApprovalMode
+  setApprovalMode: (approvalMode: ApprovalMode) => void
 }
 
 export const useAppStore = create<AppStore>()(
@@ -35,15 +52,24 @@ export const useAppStore = create<AppStore>()(
       rpcUrl: "https://testnet1.helioschainlabs.org",
       setRpcUrl: (rpcUrl) => set({ rpcUrl }),
       gasPriceOption: "average" as GasPriceOption,
-      setGasPriceOption: (gasPriceOption) => set({ gasPriceOption })
+      setGasPriceOption: (gasPriceOption) => set({ gasPriceOption }),
+      maxFeeCap: "",
+      setMaxFeeCap: (maxFeeCap) => set({ maxFeeCap }),
+      gasPolicyOverrides: {},
+      setGasPolicyOverrides: (gasPolicyOverrides) => set({ gasPolicyOverrides }),
+      approvalMode: "exact" as ApprovalMode,
+      setApprovalMode: (approvalMode) => set({ approvalMode })
     }),
     {
       name: "helios-app-store",
       partialize: (state) => ({
         rpcUrl: state.rpcUrl,
         debugMode: state.debugMode,
-        gasPriceOption: state.gasPriceOption
-      }), // <-- persist rpcUrl, debugMode, and gasPriceOption
+        gasPriceOption: state.gasPriceOption,
+        maxFeeCap: state.maxFeeCap,
+        gasPolicyOverrides: state.gasPolicyOverrides,
+        approvalMode: state.approvalMode
+      }), // <-- persist rpcUrl, debugMode, the gas policy and approval mode
       onRehydrateStorage: () => (state) => {
         state?.setHasHydrated(true)
       }
@@ -0,0 +1,48 @@
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+import { BridgeStage } from "@/types/bridge-transfer"
+
+type StageTimestamps = Partial<Record<BridgeStage, number>>
+
+// Number of transfers whose stage times are kept
+const MAX_TRANSFERS = 100
+
+interface BridgeTransfersStore {
+  // When the tracker first saw each stage, per transfer key. Known times
+  // (from the chain) replace the time a stage was first seen.
+  timestamps: Record<string, StageTimestamps>
+  recordStages: (
+    key: string,
+    stages: BridgeStage[],
+    known?: StageTimestamps
+  ) => void
+}
+
+export const useBridgeTransfersStore = create<BridgeTransfersStore>()(
+  persist(
+    (set) => ({
+      timestamps: {},
+      recordStages: (key, stages, known = {}) =>
+        set((state) => {
+          const current = state.timestamps[key] ?? {}
+          const changed = stages.filter(
+            (stage) =>
+              !current[stage] ||
+              (known[stage] !== undefined && known[stage] !== current[stage])
+          )
+          if (changed.length === 0) return state
+
+          const now = Date.now()
+          const next = { ...current }
+          for (const stage of changed) next[stage] = known[stage] ?? now
+
+          // Oldest entries first, the updated transfer moves to the end
+          const kept = Object.entries(state.timestamps)
+            .filter(([item]) => item !== key)
+            .slice(-(MAX_TRANSFERS - 1))
+          return { timestamps: { ...Object.fromEntries(kept), [key]: next } }
+        })
+    }),
+    { name: "helios-bridge-transfers" }
+  )
+)
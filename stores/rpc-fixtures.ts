@@ -0,0 +1,81 @@
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+
+// Calls kept while recording, later ones are dropped
+export const MAX_RECORDED_ENTRIES = 5000
+
+export type RpcFixtureMode = "off" | "record" | "replay"
+
+export interface RpcFixtureEntry {
+  method: string
+  params: any[]
+  result?: any
+  error?: { code: number; message: string; data?: any }
+}
+
+export interface RpcFixture {
+  version: 1
+  createdAt: string
+  endpoint: string | null
+  entries: RpcFixtureEntry[]
+}
+
+interface RpcFixturesStore {
+  mode: RpcFixtureMode
+  setMode: (mode: RpcFixtureMode) => void
+  recorded: RpcFixtureEntry[]
+  addRecorded: (entries: RpcFixtureEntry[]) => void
+  clearRecorded: () => void
+  replayFixture: RpcFixture | null
+  // Why the last fixture could not be kept for replay, if it could not
+  replayFixtureError: string | null
+  setReplayFixture: (replayFixture: RpcFixture | null) => void
+}
+
+export const useRpcFixturesStore = create<RpcFixturesStore>()(
+  persist(
+    (set) => ({
+      mode: "off",
+      setMode: (mode) => set({ mode }),
+      recorded: [],
+      addRecorded: (entries) =>
+        set((state) =>
+          state.recorded.length < MAX_RECORDED_ENTRIES
+            ? {
+                recorded: [...state.recorded, ...entries].slice(
+                  0,
+                  MAX_RECORDED_ENTRIES
+                )
+              }
+            : state
+        ),
+      clearRecorded: () => set({ recorded: [] }),
+      replayFixture: null,
+      replayFixtureError: null,
+      setReplayFixture: (replayFixture) => {
+        try {
+          set({ replayFixture, replayFixtureError: null })
+        } catch (error) {
+          // Persisting throws when the fixture exceeds the storage quota, it
+          // would not survive the reload replaying it
+          set({
+            replayFixture: null,
+            replayFixtureError:
+              error instanceof Error && error.name === "QuotaExceededError"
+                ? "The fixture is too large to be stored in this browser"
+                : "The fixture could not be stored in this browser"
+          })
+        }
+      }
+    }),
+    {
+      name: "helios-rpc-fixtures",
+      // Recordings stay in memory, the mode and the replayed fixture
+      // survive the reload needed to capture or reproduce a page load
+      partialize: (state) => ({
+        mode: state.mode,
+        replayFixture: state.replayFixture
+      })
+    }
+  )
+)
@@ -0,0 +1,94 @@
+import { create } from "zustand"
+
+export interface RpcEndpointHealth {
+  url: string
+  latency: number | null // moving average in milliseconds
+  errorRate: number // moving average between 0 and 1
+  consecutiveFailures: number
+  lastError: string | null
+  cooldownUntil: number
+}
+
+export type WsStatus = "disabled" | "connecting" | "open" | "closed"
+
+interface RpcStore {
+  wsStatus: WsStatus
+  setWsStatus: (wsStatus: WsStatus) => void
+  endpoints: Record<string, RpcEndpointHealth>
+  activeUrl: string | null
+  switchReason: string | null
+  switchedAt: number | null
+  recordSuccess: (url: string, latency: number) => void
+  recordFailure: (url: string, error: string) => void
+  setActive: (url: string, reason: string | null) => void
+}
+
+// Weight of the latest sample in the moving averages
+const SMOOTHING = 0.3
+// Cooldown applied after repeated failures, doubled on each new failure
+const BASE_COOLDOWN = 15_000
+const MAX_COOLDOWN = 5 * 60 * 1000
+
+const emptyHealth = (url: string): RpcEndpointHealth => ({
+  url,
+  latency: null,
+  errorRate: 0,
+  consecutiveFailures: 0,
+  lastError: null,
+  cooldownUntil: 0
+})
+
+export const useRpcStore = create<RpcStore>()((set) => ({
+  wsStatus: "disabled",
+  setWsStatus: (wsStatus) => set({ wsStatus }),
+  endpoints: {},
+  activeUrl: null,
+  switchReason: null,
+  switchedAt: null,
+  recordSuccess: (url, latency) =>
+    set((state) => {
+      const health = state.endpoints[url] ?? emptyHealth(url)
+      return {
+        endpoints: {
+          ...state.endpoints,
+          [url]: {
+            ...health,
+            latency:
+              health.latency === null
+                ? latency
+                : health.latency * (1 - SMOOTHING) + latency * SMOOTHING,
+            errorRate: health.errorRate * (1 - SMOOTHING),
+            consecutiveFailures: 0,
+            cooldownUntil: 0
+          }
+        }
+      }
+    }),
+  recordFailure: (url, error) =>
+    set((state) => {
+      const health = state.endpoints[url] ?? emptyHealth(url)
+      const consecutiveFailures = health.consecutiveFailures + 1
+      const cooldown = Math.min(
+        BASE_COOLDOWN * 2 ** (consecutiveFailures - 1),
+        MAX_COOLDOWN
+      )
+      return {
+        endpoints: {
+          ...state.endpoints,
+          [url]: {
+            ...health,
+            errorRate: health.errorRate * (1 - SMOOTHING) + SMOOTHING,
+            consecutiveFailures,
+            lastError: error,
+            cooldownUntil: Date.now() + cooldown
+          }
+        }
+      }
+    }),
+  setActive: (activeUrl, switchReason) =>
+    set((state) =>
+      state.activeUrl === activeUrl
+        ? state
+        : { activeUrl, switchReason, switchedAt: Date.now() }
+    )
+}))
@@ -0,0 +1,32 @@
+import { create } from "zustand"
+import { TransactionPreview } from "@/types/transaction-preview"
+
+interface TransactionPreviewStore {
+  preview: TransactionPreview | null
+  settle: ((confirmed: boolean) => void) | null
+  // Opens the preview and resolves with the choice of the user
+  requestReview: (preview: TransactionPreview) => Promise<boolean>
+  confirm: () => void
+  reject: () => void
+}
+
+export const useTransactionPreviewStore = create<TransactionPreviewStore>()(
+  (set, get) => ({
+    preview: null,
+    settle: null,
+    requestReview: (preview) =>
+      new Promise<boolean>((resolve) => {
+        // A preview left open is rejected by the new one
+        get().settle?.(false)
+        set({
+          preview,
+          settle: (confirmed) => {
+            set({ preview: null, settle: null })
+            resolve(confirmed)
+          }
+        })
+      }),
+    confirm: () => get().settle?.(true),
+    reject: () => get().settle?.(false)
+  })
+)
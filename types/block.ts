@@ -1,3 +1,5 @@
+import { Transaction } from "./transaction";
+
 export interface Block {
   baseFeePerGas: string;
   difficulty: string;
@@ -17,7 +19,13 @@ export interface Block {
   stateRoot: string;
   timestamp: string;
   totalDifficulty: string;
-  transactions: string[];
+  transactions: string[] | Transaction[];
   transactionsRoot: string;
   uncles: string[];
 }
+
+// Header pushed by the newHeads subscription
+export type BlockHeader = Omit<
+  Block,
+  "transactions" | "uncles" | "size" | "totalDifficulty"
+>;
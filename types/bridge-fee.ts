@@ -0,0 +1,25 @@
+// Speed a bridge transfer is paid for, from the cheapest fee orchestrators
+// accept to one that fills a batch on its own
+export type BridgeFeeTier = "low" | "standard" | "priority"
+
+export interface BridgeFeeQuote {
+  tier: BridgeFeeTier
+  // In the base unit of the bridged token, the fee is taken from it
+  amount: bigint
+  // Address of the bridged token on Helios
+  token: string
+  decimals: number
+  symbol: string
+}
+
+export type BridgeFeeToken = { address: string } & Pick<
+  BridgeFeeQuote,
+  "decimals" | "symbol"
+>
+
+export interface BridgeFeeQuotes {
+  hyperionId: number
+  tiers: Record<BridgeFeeTier, BridgeFeeQuote>
+  // Base fee of the destination chain over its recent median, 1 when calm
+  congestion: number
+}
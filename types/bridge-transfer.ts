@@ -0,0 +1,42 @@
+// Steps of a transfer from Helios: the source transaction is confirmed,
+// orchestrators observe it, it joins a batch and the batch is executed on
+// the destination chain
+export type BridgeOutStage =
+  | "source-confirmed"
+  | "observed"
+  | "batched"
+  | "executed"
+
+// Steps of a deposit to Helios: the sendToHelios transaction is confirmed,
+// orchestrators attest it and the tokens are minted on Helios
+export type BridgeInStage = "source-confirmed" | "attested" | "minted"
+
+export type BridgeStage = BridgeOutStage | BridgeInStage
+
+export type BridgeTransferState = "pending" | "completed" | "failed"
+
+export interface BridgeTransferStep {
+  stage: BridgeStage
+  label: string
+  done: boolean
+  // Time the stage was reached, when the chain or the tracker knows it
+  timestamp?: number
+}
+
+// A transaction of the transfer on one of the two chains
+export interface BridgeTransferHash {
+  chainId: number
+  hash: string | null
+  explorerUrl: string | null
+}
+
+export interface BridgeTransferLifecycle {
+  key: string
+  direction: "IN" | "OUT"
+  state: BridgeTransferState
+  steps: BridgeTransferStep[]
+  // The step being waited for, none once the transfer is final
+  current: BridgeStage | null
+  source: BridgeTransferHash
+  destination: BridgeTransferHash
+}
@@ -0,0 +1,29 @@
+import { GasPriceOption } from "@/stores/app"
+
+// Result of eth_feeHistory, as hex quantities
+export interface FeeHistory {
+  oldestBlock: string
+  // One entry per block plus the base fee of the next block
+  baseFeePerGas: string[]
+  gasUsedRatio: number[]
+  // Priority fees paid in each block, one per requested percentile
+  reward?: string[][]
+}
+
+// Fees of a type 2 transaction
+export interface Eip1559Fees {
+  type: "eip1559"
+  baseFeePerGas: bigint
+  maxFeePerGas: bigint
+  maxPriorityFeePerGas: bigint
+}
+
+// Fees of a legacy transaction, on chains without a base fee
+export interface LegacyFees {
+  type: "legacy"
+  gasPrice: bigint
+}
+
+export type TransactionFees = Eip1559Fees | LegacyFees
+
+export type FeeTiers = Record<GasPriceOption, TransactionFees>
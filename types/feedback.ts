@@ -4,7 +4,16 @@ export type Variants =
   | "danger"
   | "warning"
   | "success"
+
+// Transaction a feedback is about, with its confirmation progress
+export interface FeedbackTransaction {
+  hash: string
+  confirmations: number
+  requiredConfirmations: number
+}
+
 export interface Feedback {
   status: Variants
   message: React.ReactNode
+  transaction?: FeedbackTransaction
 }
@@ -38,3 +38,21 @@ export interface HyperionBridgeTx {
   txHash: string
   index?: number
 }
+
+export interface HyperionOrchestratorData {
+  hyperion_id: number
+  minimum_tx_fee: string
+  minimum_batch_fee: string
+  total_slash_amount: string
+  tx_out_transfered: number
+  tx_in_transfered: number
+  batch_created: number
+  batch_confirmed: number
+  fee_collected: string
+  external_data_tx_fee_collected: string
+}
+
+export interface ValidatorHyperionData {
+  orchestrator: string
+  orchestrator_hyperion_data: HyperionOrchestratorData[]
+}
@@ -29,6 +29,7 @@ export interface VotingOption {
 export interface Proposal {
   details: ProposalDetail[];
   finalTallyResult: TallyResult;
+  currentTallyResult?: TallyResult;
   id: number;
   metadata: string;
   minDeposit: Deposit[];
@@ -0,0 +1,30 @@
+// Decoded argument of a previewed call, ready for display
+export interface PreviewArgument {
+  name: string
+  type: string
+  value: string
+  // Set when the argument is an account, to show its validator moniker
+  address?: string
+}
+
+export interface TransactionPreview {
+  chainId: number
+  contractName: string
+  contractAddress: string
+  functionName: string
+  args: PreviewArgument[]
+  // Native value sent with the call, formatted
+  value?: string
+  gasLimit: bigint
+  // Highest fee the transaction may pay, in the native token
+  fee: string
+  feeSymbol: string
+  // What the call returned when simulated
+  simulation: string
+}
+
+// Tells how to format arguments the ABI alone can't describe
+export interface TransactionPreviewHints {
+  // Token amounts, by argument name
+  amounts?: Record<string, { decimals: number; symbol?: string }>
+}
@@ -0,0 +1,21 @@
+import type { PortalError } from "@/helpers/errors"
+
+export type TransactionStep =
+  | "idle"
+  | "switching-chain"
+  | "simulating"
+  | "estimating"
+  | "reviewing"
+  | "signing"
+  | "confirming"
+  | "success"
+  | "error"
+
+export interface TransactionStatus {
+  step: TransactionStep
+  message: React.ReactNode
+  hash?: string
+  confirmations?: number
+  requiredConfirmations?: number
+  error?: PortalError
+}
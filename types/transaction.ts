@@ -11,16 +11,16 @@ export interface Transaction {
   from: string
   gas: string
   gasPrice: string
-  maxFeePerGas: string
-  maxPriorityFeePerGas: string
+  maxFeePerGas?: string
+  maxPriorityFeePerGas?: string
   hash: string
   input: string
   nonce: string
-  to: string
+  to: string | null
   transactionIndex: string
   value: string
   type: string
-  accessList: Access[]
+  accessList?: Access[]
   chainId: string
   v: string
   r: string
@@ -28,27 +28,7 @@ export interface Transaction {
 }
 
 export interface TransactionLast {
-  RawTransaction: {
-    blockHash: string
-    blockNumber: string
-    from: string
-    gas: string
-    gasPrice: string
-    maxFeePerGas: string
-    maxPriorityFeePerGas: string
-    hash: string
-    input: string
-    nonce: string
-    to: string
-    transactionIndex: string
-    value: string
-    type: string
-    accessList: any[]
-    chainId: string
-    v: string
-    r: string
-    s: string
-  }
+  RawTransaction: Transaction
   ParsedInfo: {
     amount?: string
     denom?: string
@@ -76,4 +56,8 @@ export type TransactionLight = {
   chainId?: number
   chainLogo?: string
   chainName?: string
+  // Explorer page of the transaction, derived from the hash when missing
+  explorerUrl?: string | null
+  // Page of the portal detailing the transaction
+  href?: string
 }
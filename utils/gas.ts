@@ -1,5 +1,21 @@
 import { GAS_PRICE_MULTIPLIERS, GasPriceOption } from "@/stores/app"
+import { FeeTiers, TransactionFees } from "@/types/fee"
 import { ethers } from "ethers"
+import { formatGwei } from "./format"
+
+// Number of recent blocks the priority fees are sampled from
+export const FEE_HISTORY_BLOCKS = 10
+
+// Priority fee percentile of recent blocks each option pays
+export const FEE_TIER_PERCENTILES: Record<GasPriceOption, number> = {
+  low: 10,
+  average: 50,
+  fast: 90
+}
+
+const GAS_PRICE_OPTIONS: GasPriceOption[] = ["low", "average", "fast"]
+
+type Quantity = string | number | bigint
 
 /**
  * Calculates the adjusted gas price based on the selected gas price option
@@ -63,3 +79,93 @@ export function getGasPriceTimeEstimate(option: GasPriceOption): string {
       return "Standard confirmation time"
   }
 }
+
+const median = (values: bigint[]) => {
+  if (values.length === 0) return 0n
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+/**
+ * Derives the fees of each gas price option from the fee history of the
+ * chain. The tip is the median over the sampled blocks of the option's
+ * priority fee percentile, and the max fee leaves room for the base fee to
+ * double before the transaction is mined.
+ * @param history The eth_feeHistory result, requested with the percentiles
+ * of FEE_TIER_PERCENTILES in the order low, average, fast
+ * @returns The fees of each option, or null when the chain has no base fee
+ */
+export function computeFeeTiers(history: {
+  baseFeePerGas: Quantity[]
+  reward?: Quantity[][]
+}): FeeTiers | null {
+  const baseFees = history.baseFeePerGas.map((fee) => BigInt(fee))
+  // The last entry is the base fee of the next block
+  const baseFeePerGas = baseFees[baseFees.length - 1] ?? 0n
+  if (baseFeePerGas === 0n) return null
+
+  const tiers = GAS_PRICE_OPTIONS.map((option, index) => {
+    const maxPriorityFeePerGas = median(
+      (history.reward ?? []).map((rewards) => BigInt(rewards[index] ?? 0))
+    )
+    const fees: TransactionFees = {
+      type: "eip1559",
+      baseFeePerGas,
+      maxPriorityFeePerGas,
+      maxFeePerGas: baseFeePerGas * 2n + maxPriorityFeePerGas
+    }
+    return [option, fees]
+  })
+
+  return Object.fromEntries(tiers) as FeeTiers
+}
+
+/**
+ * Builds the fees of each gas price option on a chain without base fee
+ * @param gasPrice The network gas price
+ * @returns The legacy fees of each option
+ */
+export function computeLegacyFeeTiers(gasPrice: Quantity): FeeTiers {
+  const tiers = GAS_PRICE_OPTIONS.map((option) => {
+    const fees: TransactionFees = {
+      type: "legacy",
+      gasPrice: calculateAdjustedGasPrice(BigInt(gasPrice), option)
+    }
+    return [option, fees]
+  })
+
+  return Object.fromEntries(tiers) as FeeTiers
+}
+
+/**
+ * Gets the highest price per gas a transaction may pay with these fees
+ * @param fees The transaction fees
+ */
+export const getMaxGasPrice = (fees: TransactionFees) =>
+  fees.type === "eip1559" ? fees.maxFeePerGas : fees.gasPrice
+
+/**
+ * Gets the fee fields of a transaction, type 2 when the chain supports it
+ * @param fees The transaction fees
+ */
+export const toFeeParameters = (fees: TransactionFees) =>
+  fees.type === "eip1559"
+    ? {
+        maxFeePerGas: fees.maxFeePerGas,
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas
+      }
+    : { gasPrice: fees.gasPrice }
+
+/**
+ * Describes the fees of an option for display, base fee plus tip for type 2
+ * transactions
+ * @param fees The transaction fees
+ * @returns The fees in Gwei
+ */
+export function formatFees(fees: TransactionFees): string {
+  if (fees.type === "legacy") return `${formatGwei(fees.gasPrice)} Gwei`
+
+  return `${formatGwei(fees.baseFeePerGas)} + ${formatGwei(
+    fees.maxPriorityFeePerGas
+  )} Gwei`
+}